@@ -0,0 +1,28 @@
+// Expires referrals that didn't complete in time and notifies their referrers, the
+// same job pg_cron runs daily (see supabase_referral_expiry_schema.sql). Use it
+// where pg_cron isn't enabled, or to run the job by hand:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run referrals:expire
+//
+// expire_referrals is not callable by signed-in users, so this needs the service role key.
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to run the referral expiry job');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false }
+});
+
+const { data, error } = await supabase.rpc('expire_referrals');
+if (error) {
+  console.error('Referral expiry failed:', error.message);
+  process.exit(1);
+}
+
+console.log(`Expired ${data} referral${data === 1 ? '' : 's'}`);
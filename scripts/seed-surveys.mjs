@@ -0,0 +1,53 @@
+// Loads the surveys in supabase/seed/surveys.json into the surveys table, where
+// submit_survey_response looks up each survey's reward, cooldown and required plan.
+// Surveys that are already in the table are left alone, so edits made in the admin
+// console survive a second run:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run surveys:seed
+//
+// Only admins can write to the surveys table, so this needs the service role key.
+import { readFile } from 'node:fs/promises';
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to seed the surveys');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false }
+});
+
+const catalogue = JSON.parse(
+  await readFile(new URL('../supabase/seed/surveys.json', import.meta.url), 'utf8')
+);
+
+// Same row shape as toRecord in src/lib/surveyCatalogService.ts
+const rows = catalogue.surveys.map(survey => ({
+  id: survey.id,
+  title: survey.title,
+  description: survey.description || '',
+  reward: survey.reward,
+  duration: survey.duration,
+  category: survey.category,
+  difficulty: survey.difficulty || 'Easy',
+  required_plan: survey.requiredPlan,
+  repeatable: !!survey.repeatable,
+  cooldown_days: survey.repeatable ? survey.cooldownDays ?? 0 : null,
+  questions: survey.questions || [],
+  status: 'published'
+}));
+
+const { data, error } = await supabase
+  .from('surveys')
+  .upsert(rows, { onConflict: 'id', ignoreDuplicates: true })
+  .select('id');
+if (error) {
+  console.error('Survey seeding failed:', error.message);
+  process.exit(1);
+}
+
+console.log(`Added ${data.length} of ${rows.length} bundled surveys`);
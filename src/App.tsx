@@ -7,6 +7,7 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import { SidebarProvider } from "@/contexts/SidebarContext";
 import { ReferralProvider } from "./contexts/ReferralContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import RequireRole from "@/components/RequireRole";
 import Index from "./pages/Index";
 import SignupPage from './pages/SignupPage';
 import LoginPage from './pages/LoginPage';
@@ -19,6 +20,11 @@ import SettingsPage from "./pages/SettingsPage";
 import EarningsPage from "./pages/EarningsPage";
 import SurveysPage from "./pages/SurveysPage";
 import TermsPage from "./pages/TermsPage";
+import AdminSurveysPage from "./pages/AdminSurveysPage";
+import AdminSurveyEditorPage from "./pages/AdminSurveyEditorPage";
+import AdminWithdrawalsPage from "./pages/AdminWithdrawalsPage";
+import AdminReferralsPage from "./pages/AdminReferralsPage";
+import AdminResponsesPage from "./pages/AdminResponsesPage";
 import AuthCallback from "./pages/AuthCallback";
 import NotFound from "./pages/NotFound";
 import { SampleDataGenerator } from "./components/SampleDataGenerator";
@@ -73,6 +79,36 @@ const App = () => (
                       <SurveysPage />
                     </ProtectedRoute>
                   } />
+                  <Route path="/admin/surveys" element={
+                    <RequireRole roles={["admin"]}>
+                      <AdminSurveysPage />
+                    </RequireRole>
+                  } />
+                  <Route path="/admin/surveys/new" element={
+                    <RequireRole roles={["admin"]}>
+                      <AdminSurveyEditorPage />
+                    </RequireRole>
+                  } />
+                  <Route path="/admin/surveys/:surveyId" element={
+                    <RequireRole roles={["admin"]}>
+                      <AdminSurveyEditorPage />
+                    </RequireRole>
+                  } />
+                  <Route path="/admin/withdrawals" element={
+                    <RequireRole roles={["admin"]}>
+                      <AdminWithdrawalsPage />
+                    </RequireRole>
+                  } />
+                  <Route path="/admin/referrals" element={
+                    <RequireRole roles={["admin"]}>
+                      <AdminReferralsPage />
+                    </RequireRole>
+                  } />
+                  <Route path="/admin/responses" element={
+                    <RequireRole roles={["reviewer"]}>
+                      <AdminResponsesPage />
+                    </RequireRole>
+                  } />
                   <Route path="*" element={<NotFound />} />
                 </Routes>
               </BrowserRouter>
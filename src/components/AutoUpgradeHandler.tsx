@@ -1,7 +1,7 @@
 import { useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useSurveyData } from '@/hooks/useSurveyData';
-import { MessageProcessor } from '@/utils/messageProcessor';
+import { isPaymentToTill, parseMpesaSms } from '@/lib/mpesaSms';
 
 interface AutoUpgradeHandlerProps {
   children: React.ReactNode;
@@ -9,7 +9,7 @@ interface AutoUpgradeHandlerProps {
 
 export const AutoUpgradeHandler: React.FC<AutoUpgradeHandlerProps> = ({ children }) => {
   const { toast } = useToast();
-  const { planData, upgradePlan } = useSurveyData();
+  const { planData, verifyPaymentAndUpgradePlan } = useSurveyData();
 
   useEffect(() => {
     const handlePaste = async (event: ClipboardEvent) => {
@@ -18,41 +18,26 @@ export const AutoUpgradeHandler: React.FC<AutoUpgradeHandlerProps> = ({ children
 
       // Check if it's an M-Pesa message
       if (text.includes('M-Pesa') || text.includes('Ksh') || text.includes('Till')) {
-        const paymentInfo = MessageProcessor.extractPaymentInfo(text);
+        const paymentInfo = parseMpesaSms(text);
         
-        if (paymentInfo && paymentInfo.isValid) {
-          const amount = paymentInfo.amount;
-          // Find matching plan
-          const targetPlan = planData?.surveyPlans.find(
-            plan => parseInt(plan.price) === amount
-          );
+        if (paymentInfo && planData && isPaymentToTill(paymentInfo, planData.mpesaPaymentDetails)) {
+          toast({
+            title: "Processing Payment...",
+            description: `Detected M-Pesa payment of KSh ${paymentInfo.amount}, verifying...`,
+          });
 
-          if (targetPlan) {
-            // Show processing toast
+          // The server checks the SMS and picks the plan that matches the amount
+          const { payment, error } = await verifyPaymentAndUpgradePlan(text);
+
+          if (payment?.status === 'paid') {
             toast({
-              title: "Processing Payment...",
-              description: `Detected M-Pesa payment of KSh ${amount}, upgrading to ${targetPlan.planName}...`,
+              title: "Plan Upgraded!",
+              description: `Successfully upgraded to ${payment.plan_name} plan`,
             });
-
-            // Perform the upgrade
-            const upgradeSuccess = await upgradePlan(targetPlan.planName);
-            
-            if (upgradeSuccess) {
-              toast({
-                title: "Plan Upgraded!",
-                description: `Successfully upgraded to ${targetPlan.planName} plan`,
-              });
-            } else {
-              toast({
-                title: "Upgrade Failed",
-                description: "Could not complete the upgrade. Please try again.",
-                variant: "destructive"
-              });
-            }
           } else {
             toast({
-              title: "No Matching Plan",
-              description: `No plan found for KSh ${amount}`,
+              title: "Upgrade Failed",
+              description: error?.message || payment?.result_desc || "Could not complete the upgrade. Please try again.",
               variant: "destructive"
             });
           }
@@ -66,7 +51,7 @@ export const AutoUpgradeHandler: React.FC<AutoUpgradeHandlerProps> = ({ children
     return () => {
       document.removeEventListener('paste', handlePaste);
     };
-  }, [planData, upgradePlan, toast]);
+  }, [planData, verifyPaymentAndUpgradePlan, toast]);
 
   return <>{children}</>;
 };
@@ -19,6 +19,7 @@ import { useToast } from "@/hooks/use-toast";
 import Sidebar from "./Sidebar";
 import { useSurveyData, Survey } from "@/hooks/useSurveyData";
 import SurveyQuestion from "./SurveyQuestion";
+import { SurveySubmission } from "@/lib/surveyResponseService";
 import WithdrawalContainer from "./WithdrawalContainer";
 import ReferralCodeInput from "@/components/ReferralCodeInput";
 
@@ -38,8 +39,8 @@ const Dashboard = () => {
     fetchUser();
   }, []);
 
-  const handleSurveyComplete = async (surveyId: string) => {
-    completeSurvey(surveyId);
+  const handleSurveyComplete = async (surveyId: string, submission: SurveySubmission) => {
+    completeSurvey(surveyId, submission);
     setCurrentSurvey(null);
     toast({
       title: "Survey Completed! 🎉",
@@ -17,7 +17,10 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import Sidebar from "./Sidebar";
+import DataUnavailable from "./DataUnavailable";
 import { useSurveyData, Survey } from "@/hooks/useSurveyData";
+import { SurveySubmission } from "@/lib/surveyResponseService";
+import { useSurveyProgress, SurveyCheckpoint } from "@/hooks/useSurveyProgress";
 import WithdrawalContainer from "./WithdrawalContainer";
 import ReferralCodeInput from "@/components/ReferralCodeInput";
 import SurveyLimitModal from "./SurveyLimitModal";
@@ -31,7 +34,8 @@ const Dashboard = () => {
   const [showLimitModal, setShowLimitModal] = useState(false);
   const { isSidebarOpen, toggleSidebar, closeSidebar } = useSidebar();
   const { toast } = useToast();
-  const { planData, surveyData, loading, getCurrentPlan, getAvailableSurveys, completeSurvey } = useSurveyData();
+  const { planData, surveyData, loading, loadError, reload, getCurrentPlan, getSurveyQuota, getAvailableSurveys, hasPremiumAccess, completeSurvey } = useSurveyData();
+  const { checkpoints, saveCheckpoint, clearCheckpoint } = useSurveyProgress();
 
   useEffect(() => {
     const fetchUser = async () => {
@@ -43,15 +47,42 @@ const Dashboard = () => {
     fetchUser();
   }, []);
 
-  const handleSurveyComplete = async (surveyId: string) => {
-    completeSurvey(surveyId);
+  const handleSurveyComplete = async (surveyId: string, submission: SurveySubmission) => {
+    // Leave the survey open on failure; retrying reuses the attempt id, so it can't pay twice
+    const { response, error } = await completeSurvey(surveyId, submission);
+    if (!response) {
+      toast({
+        title: "Submission failed",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+    clearCheckpoint(surveyId);
     setCurrentSurvey(null);
+
+    const earned = response.reward_amount || 0;
+    if (response.status === 'under_review') {
+      toast({
+        title: "Survey Submitted for Review",
+        description: `Your answers were flagged by our quality checks. Your KSh ${earned} will be credited once they pass review.`,
+      });
+      return;
+    }
     toast({
       title: "Survey Completed! 🎉",
-      description: `You earned KSh ${surveyData?.surveys.find(s => s.id === surveyId)?.reward}! Keep it up!`,
+      description: `You earned KSh ${earned}! Keep it up!`,
     });
   };
 
+  const handleSurveyCheckpoint = (surveyId: string, checkpoint: SurveyCheckpoint | null) => {
+    if (checkpoint) {
+      saveCheckpoint(checkpoint);
+    } else {
+      clearCheckpoint(surveyId);
+    }
+  };
+
   const handleSurveyCancel = () => {
     setCurrentSurvey(null);
   };
@@ -77,22 +108,7 @@ const Dashboard = () => {
       <div className="flex min-h-screen w-full bg-background">
         <Sidebar />
         <main className="flex-1 p-6 lg:p-8">
-          <div className="flex items-center justify-center h-64">
-            <div className="text-center">
-              <div className="bg-red-100 p-4 rounded-lg">
-                <h3 className="text-lg font-medium text-red-800">Data Loading Error</h3>
-                <p className="text-red-700 mt-2">
-                  Could not load dashboard data. Please refresh the page or try again later.
-                </p>
-                <button
-                  onClick={() => window.location.reload()}
-                  className="mt-4 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
-                >
-                  Refresh Page
-                </button>
-              </div>
-            </div>
-          </div>
+          <DataUnavailable loading={false} error={loadError} onRetry={reload} subject="your dashboard" />
         </main>
       </div>
     );
@@ -101,6 +117,7 @@ const Dashboard = () => {
   const currentPlan = getCurrentPlan();
   const availableSurveys = getAvailableSurveys();
   const userProgress = surveyData.userProgress;
+  const quota = getSurveyQuota();
 
   const stats = [
     {
@@ -113,7 +130,7 @@ const Dashboard = () => {
     {
       title: "Surveys Completed",
       value: userProgress.completedSurveys.length.toString(),
-      change: `${userProgress.surveysCompletedToday} today`,
+      change: `${quota.completedToday} today`,
       icon: FileText,
       color: "text-primary"
     },
@@ -143,7 +160,7 @@ const Dashboard = () => {
       return;
     }
 
-    if (userProgress.surveysCompletedToday >= currentPlan.dailySurvey) {
+    if (quota.isLimitReached) {
       setShowLimitModal(true);
       return;
     }
@@ -222,8 +239,9 @@ const Dashboard = () => {
           isOpen={showLimitModal}
           onClose={() => setShowLimitModal(false)}
           currentPlanName={currentPlan?.planName || "No Plan"}
-          dailyLimit={currentPlan?.dailySurvey || 0}
-          surveysCompletedToday={userProgress.surveysCompletedToday}
+          dailyLimit={quota.dailyLimit}
+          surveysCompletedToday={quota.completedToday}
+          resetsAt={quota.resetsAt}
         />
         
         {currentSurvey ? (
@@ -234,6 +252,9 @@ const Dashboard = () => {
               reward={currentSurvey.reward}
               title={currentSurvey.title}
               duration={currentSurvey.duration}
+              hasPremiumAccess={hasPremiumAccess()}
+              checkpoint={checkpoints[currentSurvey.id]}
+              onCheckpoint={handleSurveyCheckpoint}
               onComplete={handleSurveyComplete}
               onCancel={handleSurveyCancel}
             />
@@ -304,11 +325,11 @@ const Dashboard = () => {
                       </div>
                       <h3 className="text-lg font-semibold mb-2">No Surveys Available</h3>
                       <p className="text-muted-foreground mb-4">
-                        {userProgress.surveysCompletedToday >= (currentPlan?.dailySurvey || 0) 
+                        {quota.isLimitReached
                           ? "You've completed all surveys for today! Come back tomorrow." 
                           : "No surveys available for your current plan. Consider upgrading!"}
                       </p>
-                      {userProgress.surveysCompletedToday < (currentPlan?.dailySurvey || 0) && (
+                      {!quota.isLimitReached && (
                         <Button 
                           variant="default" 
                           className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
@@ -351,20 +372,22 @@ const Dashboard = () => {
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-2">
                             <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                            <span className="text-sm text-muted-foreground">Available now</span>
+                            <span className="text-sm text-muted-foreground">
+                              {checkpoints[survey.id] ? 'In progress' : 'Available now'}
+                            </span>
                           </div>
                           <Button 
                             size="sm" 
                             className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
                             onClick={() => {
-                              if (userProgress.surveysCompletedToday >= (currentPlan?.dailySurvey || 0)) {
+                              if (quota.isLimitReached) {
                                 setShowLimitModal(true);
                               } else {
                                 handleStartSurvey(survey.id);
                               }
                             }}
                           >
-                            {userProgress.surveysCompletedToday >= (currentPlan?.dailySurvey || 0) ? 'Limit Reached' : 'Start Survey'}
+                            {quota.isLimitReached ? 'Limit Reached' : checkpoints[survey.id] ? 'Resume' : 'Start Survey'}
                           </Button>
                         </div>
                       </div>
@@ -0,0 +1,45 @@
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { DataValidationError } from "@/lib/dataValidation";
+
+interface DataUnavailableProps {
+  loading: boolean;
+  error: Error | null;
+  onRetry: () => void;
+  // What couldn't be shown, e.g. "your earnings"
+  subject: string;
+}
+
+// Shown in place of a page's content while its data loads, or when it couldn't be loaded
+const DataUnavailable = ({ loading, error, onRetry, subject }: DataUnavailableProps) => {
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        <span>Loading {subject}...</span>
+      </div>
+    );
+  }
+
+  // Bad data is our problem, not the user's connection, so don't suggest checking it
+  const description = error instanceof DataValidationError
+    ? `Some of the data behind ${subject} didn't look right, so we haven't shown it. We've logged the problem; please try again later.`
+    : `We couldn't load ${subject}. Check your connection and try again.`;
+
+  return (
+    <Alert variant="destructive" className="max-w-xl mx-auto">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Something went wrong</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{description}</p>
+        <Button variant="outline" size="sm" onClick={onRetry} className="gap-2">
+          <RefreshCw className="h-4 w-4" />
+          Try again
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default DataUnavailable;
@@ -5,8 +5,6 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { MpesaVerifier } from "@/utils/mpesaVerification";
-import { PlanUpgradeService } from "@/utils/planUpgradeService";
 import { useSurveyData } from "@/hooks/useSurveyData";
 
 interface MpesaVerificationProps {
@@ -23,9 +21,8 @@ export const MpesaVerification = ({
   const [message, setMessage] = useState("");
   const [isVerifying, setIsVerifying] = useState(false);
   const [verificationResult, setVerificationResult] = useState<any>(null);
-  const [isUpgrading, setIsUpgrading] = useState(false);
   const { toast } = useToast();
-  const { planData, upgradePlan } = useSurveyData();
+  const { planData, verifyPaymentAndUpgradePlan } = useSurveyData();
 
   const handleVerify = async () => {
     if (!message.trim()) {
@@ -40,99 +37,40 @@ export const MpesaVerification = ({
     setIsVerifying(true);
     
     try {
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      const result = MpesaVerifier.verifyMessage(message);
-      
-      if (result.isValid) {
-        // Enhanced amount extraction with multiple patterns
-        let verifiedAmount = 0;
-        
-        // Pattern 1: KSH 250.00
-        const pattern1 = message.match(/(?:KSH|KES|Ksh|kes)\s*([\d,]+\.?\d*)/i);
-        if (pattern1) {
-          verifiedAmount = parseFloat(pattern1[1].replace(/,/g, ''));
-        }
-        
-        // Pattern 2: 250.00 KSH
-        const pattern2 = message.match(/([\d,]+\.?\d*)\s*(?:KSH|KES|Ksh|kes)/i);
-        if (!pattern1 && pattern2) {
-          verifiedAmount = parseFloat(pattern2[1].replace(/,/g, ''));
-        }
-        
-        // Pattern 3: KES250
-        const pattern3 = message.match(/(?:KSH|KES|Ksh|kes)(\d+(?:,\d{3})*(?:\.\d{2})?)/i);
-        if (!pattern1 && !pattern2 && pattern3) {
-          verifiedAmount = parseFloat(pattern3[1].replace(/,/g, ''));
-        }
-        
-        if (verifiedAmount > 0 && planData && planData.surveyPlans) {
-          // Find matching plan based on amount
-          const targetPlan = PlanUpgradeService.getPlanByAmount(verifiedAmount, planData.surveyPlans);
-          
-          if (targetPlan) {
-            setIsUpgrading(true);
-            
-            // Upgrade the plan - this will automatically:
-            // 1. Update the profile sidebar (currentPlan changes)
-            // 2. Update survey limits (dailySurvey property)
-            // 3. Update withdrawal limits (minimumWithdrawal property)
-            // 4. Update package display (planName changes)
-            const upgradeSuccess = upgradePlan(targetPlan.planName);
-            
-            if (upgradeSuccess) {
-              toast({
-                title: "Plan Upgraded Successfully!",
-                description: `Your plan has been upgraded to ${targetPlan.planName}. You now have access to ${targetPlan.dailySurvey} surveys per day and minimum withdrawal of KSh ${targetPlan.minimumWithdrawal}.`,
-              });
-              
-              // Update verification result with upgrade info
-              setVerificationResult({
-                ...result,
-                upgradedPlan: targetPlan,
-                message: `Payment verified and plan upgraded to ${targetPlan.planName}`
-              });
-              
-              // Call onVerificationComplete with upgrade info
-              onVerificationComplete(true, message, {
-                ...result.details,
-                upgradedPlan: targetPlan,
-                amount: verifiedAmount
-              });
-            } else {
-              toast({
-                variant: "destructive",
-                title: "Upgrade Failed",
-                description: "Failed to upgrade your plan. Please try again.",
-              });
-            }
-            setIsUpgrading(false);
-          } else {
-            toast({
-              variant: "destructive",
-              title: "No Plan Found",
-              description: `No plan found for KSh ${verifiedAmount}. Please check your payment amount.`,
-            });
-          }
-        } else {
-          toast({
-            variant: "destructive",
-            title: "Invalid Payment",
-            description: "Could not process your payment. Please check the amount and try again.",
-          });
-        }
+      // The server checks the till, amount and receipt code, then upgrades the plan
+      const { payment, error } = await verifyPaymentAndUpgradePlan(message, planName);
+
+      if (payment?.status === "paid") {
+        const upgradedPlan = planData?.surveyPlans.find(plan => plan.planName === payment.plan_name);
+
+        toast({
+          title: "Plan Upgraded Successfully!",
+          description: upgradedPlan
+            ? `Your plan has been upgraded to ${upgradedPlan.planName}. You now have access to ${upgradedPlan.dailySurvey} surveys per day and minimum withdrawal of KSh ${upgradedPlan.minimumWithdrawal}.`
+            : `Your plan has been upgraded to ${payment.plan_name}.`,
+        });
+
+        setVerificationResult({
+          isValid: true,
+          message: `Payment ${payment.mpesa_receipt} verified and plan upgraded to ${payment.plan_name}`
+        });
+        onVerificationComplete(true, message, {
+          transactionId: payment.mpesa_receipt,
+          amount: payment.amount,
+          upgradedPlan
+        });
       } else {
+        const reason = error?.message || payment?.result_desc || "We couldn't verify this payment.";
+
         toast({
           variant: "destructive",
           title: "Verification Failed",
-          description: result.message,
+          description: reason,
         });
+
+        setVerificationResult({ isValid: false, message: reason });
+        onVerificationComplete(false, message, { reason });
       }
-      
-      setVerificationResult(result);
-      onVerificationComplete(result.isValid, message, result.details);
-      
     } catch (error) {
       toast({
         variant: "destructive",
@@ -141,7 +79,6 @@ export const MpesaVerification = ({
       });
     } finally {
       setIsVerifying(false);
-      setIsUpgrading(false);
     }
   };
 
@@ -175,7 +112,7 @@ export const MpesaVerification = ({
           <div className="flex gap-3">
             <Button 
               onClick={handleVerify}
-              disabled={isVerifying || isUpgrading || !message.trim() || verificationResult?.isValid}
+              disabled={isVerifying || !message.trim() || verificationResult?.isValid}
               className="flex-1"
             >
               {isVerifying ? (
@@ -183,11 +120,6 @@ export const MpesaVerification = ({
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Verifying...
                 </>
-              ) : isUpgrading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Upgrading Plan...
-                </>
               ) : (
                 "Verify Payment"
               )}
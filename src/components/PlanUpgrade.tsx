@@ -1,25 +1,117 @@
-import { useState } from "react";
-import { Check, Star, Crown, Zap, Copy } from "lucide-react";
+import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Check, Star, Crown, Zap, Copy, CalendarClock, Loader2, Wallet } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
 import { useSurveyData, SurveyPlan } from "@/hooks/useSurveyData";
 import { MpesaVerification } from "@/components/MpesaVerification";
-import { MpesaVerifier } from "@/utils/mpesaVerification";
+import StkPushCheckout from "@/components/StkPushCheckout";
+import DataUnavailable from "@/components/DataUnavailable";
+import {
+  getPlanCreditBalance,
+  getPlanQuote,
+  payPlanWithCredit,
+  PlanPayment,
+  PlanQuote,
+  schedulePlanChange
+} from "@/lib/paymentService";
+import { PlanTierService } from "@/utils/planTierService";
 
 const PlanUpgrade = () => {
   const { toast } = useToast();
-  const { planData, surveyData, loading } = useSurveyData();
+  const { user } = useAuth();
+  const { planData, surveyData, loading, loadError, reload, applyPaidPlan, getPlanSubscription, refreshUserProgress } = useSurveyData();
   const [selectedPlan, setSelectedPlan] = useState<SurveyPlan | null>(null);
+  const [quote, setQuote] = useState<PlanQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [isPayingWithCredit, setIsPayingWithCredit] = useState(false);
+  const [downgradePlan, setDowngradePlan] = useState<SurveyPlan | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [showTillPayment, setShowTillPayment] = useState(false);
   const [showPaymentConfirmation, setShowPaymentConfirmation] = useState(false);
   const [mpesaMessage, setMpesaMessage] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedPlanName = searchParams.get("plan");
 
-  if (loading || !planData || !surveyData) return null;
+  // Preselect a plan linked from a locked survey (e.g. /plans?plan=Silver)
+  useEffect(() => {
+    if (!requestedPlanName || !planData || !surveyData) return;
+
+    const requestedPlan = planData.surveyPlans.find(plan => plan.planName === requestedPlanName);
+    const isUpgrade = requestedPlan && PlanTierService.compareTiers(
+      requestedPlan.planName,
+      surveyData.userProgress.currentPlan,
+      planData.surveyPlans
+    ) > 0;
+
+    if (isUpgrade) {
+      setSelectedPlan(requestedPlan);
+    }
+    setSearchParams({}, { replace: true });
+  }, [requestedPlanName, planData, surveyData, setSearchParams]);
+
+  useEffect(() => {
+    if (!user) return;
+    getPlanCreditBalance(user.id).then(({ data }) => setCreditBalance(data));
+  }, [user]);
+
+  // Price the selected plan on the server: upgrades are prorated and credit is applied
+  useEffect(() => {
+    setQuote(null);
+    setQuoteError(null);
+    if (!selectedPlan) return;
+
+    let cancelled = false;
+    getPlanQuote(selectedPlan.planName).then(({ data, error }) => {
+      if (cancelled) return;
+      setQuote(data.quote);
+      setQuoteError(data.quote ? null : error?.message || "This plan can't be bought right now.");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPlan]);
+
+  if (loading || !planData || !surveyData) {
+    return <DataUnavailable loading={loading} error={loadError} onRetry={reload} subject="plans" />;
+  }
 
   const currentPlan = surveyData.userProgress.currentPlan;
+  const { planExpiresAt, scheduledPlan } = surveyData.userProgress;
+  const subscription = getPlanSubscription();
+  const currentPrice = parseFloat(planData.surveyPlans.find(plan => plan.planName === currentPlan)?.price || "0");
+  const inPaidPeriod = currentPrice > 0 && !!planExpiresAt && new Date(planExpiresAt) > new Date();
+
+  // Lower plans can't be bought mid-period; they start when the current period ends
+  const isDowngrade = (plan: SurveyPlan) => inPaidPeriod && parseFloat(plan.price) < currentPrice;
+
+  // A paid plan can be bought again once its renewal reminder is showing
+  const canRenew = (plan: SurveyPlan) =>
+    plan.planName === currentPlan && parseFloat(plan.price) > 0 && !!subscription?.needsRenewal;
+
+  const getPlanButtonLabel = (plan: SurveyPlan) => {
+    if (canRenew(plan)) return 'Renew Plan';
+    if (plan.planName === currentPlan) return 'Current Plan';
+    if (plan.planName === scheduledPlan) return 'Starts at Renewal';
+    if (isDowngrade(plan)) return 'Switch at Renewal';
+    return plan.price === "0" ? 'Free Plan' : 'Upgrade Now';
+  };
+
+  const isPlanButtonDisabled = (plan: SurveyPlan) => {
+    if (plan.planName === currentPlan) return !canRenew(plan);
+    if (plan.planName === scheduledPlan) return true;
+    return plan.price === "0" && !isDowngrade(plan);
+  };
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-KE', { day: 'numeric', month: 'short', year: 'numeric' });
 
   const getPlanIcon = (planName: string) => {
     switch (planName) {
@@ -42,54 +134,73 @@ const PlanUpgrade = () => {
   };
 
   const handleUpgrade = (plan: SurveyPlan) => {
-    setSelectedPlan(plan);
+    if (isDowngrade(plan)) {
+      setDowngradePlan(plan);
+    } else {
+      setSelectedPlan(plan);
+    }
   };
 
-  // New method to handle automatic plan upgrade from pasted message
-  const handleAutomaticUpgrade = async (paymentAmount: number) => {
-    if (!planData) return;
+  const closePaymentDialog = () => {
+    setSelectedPlan(null);
+    setShowTillPayment(false);
+    setShowPaymentConfirmation(false);
+  };
 
-    const targetPlan = planData.surveyPlans.find(
-      plan => parseInt(plan.price) === paymentAmount
-    );
+  // The server has already switched the plan; this just refreshes what's on screen
+  const handleStkPaid = async (payment: PlanPayment) => {
+    await applyPaidPlan(payment);
+    if (user && payment.credit_applied > 0) {
+      const { data } = await getPlanCreditBalance(user.id);
+      setCreditBalance(data);
+    }
+    toast({
+      title: payment.change_type === "renewal" ? "Plan Renewed!" : "Plan Upgraded!",
+      description: `Payment confirmed. You're now on the ${payment.plan_name} plan.`,
+    });
+  };
 
-    if (!targetPlan) {
+  const handlePayWithCredit = async () => {
+    if (!selectedPlan) return;
+
+    setIsPayingWithCredit(true);
+    const { data: payment, error } = await payPlanWithCredit(selectedPlan.planName);
+    setIsPayingWithCredit(false);
+
+    if (payment?.status === "paid") {
+      closePaymentDialog();
+      await handleStkPaid(payment);
+    } else {
       toast({
-        title: "No Plan Found",
-        description: `No plan available for KSh ${paymentAmount}`,
-        variant: "destructive"
+        variant: "destructive",
+        title: "Couldn't use your credit",
+        description: error?.message || payment?.result_desc || "Please try again.",
       });
-      return;
     }
+  };
 
-    // Simulate automatic upgrade
-    toast({
-      title: "Plan Upgrade Detected",
-      description: `Automatically upgrading to ${targetPlan.planName} plan`,
-    });
+  // Schedule a downgrade for the end of the period, or cancel one with null
+  const handleScheduleChange = async (planName: string | null) => {
+    setIsScheduling(true);
+    const { error } = await schedulePlanChange(planName);
+    setIsScheduling(false);
 
-    // Trigger immediate upgrade
-    setSurveyData(prev => {
-      if (!prev) return null;
-      
-      const updatedData = {
-        ...prev,
-        userProgress: {
-          ...prev.userProgress,
-          currentPlan: targetPlan.planName
-        }
-      };
-
-      // Save to localStorage
-      const storageKey = `surveyData_${surveyData?.userProgress?.currentPlan || 'default'}`;
-      localStorage.setItem(storageKey, JSON.stringify(updatedData));
-      
-      return updatedData;
-    });
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't change your plan",
+        description: error.message,
+      });
+      return;
+    }
 
+    setDowngradePlan(null);
+    await refreshUserProgress();
     toast({
-      title: "Upgrade Complete",
-      description: `Successfully upgraded to ${targetPlan.planName} plan!`,
+      title: planName ? "Plan change scheduled" : "Plan change cancelled",
+      description: planName
+        ? `You'll move to the ${planName} plan when your ${currentPlan} plan ends.`
+        : `You'll stay on the ${currentPlan} plan.`,
     });
   };
 
@@ -113,8 +224,54 @@ const PlanUpgrade = () => {
         <p className="text-muted-foreground mt-2 text-sm md:text-base">
           Upgrade your plan to earn more money daily
         </p>
+        {creditBalance > 0 && (
+          <Badge variant="secondary" className="mt-3 gap-1">
+            <Wallet className="h-3 w-3" />
+            Account credit: KSh {creditBalance.toLocaleString()}
+          </Badge>
+        )}
       </div>
 
+      {scheduledPlan && planExpiresAt && (
+        <div className="px-4">
+          <Alert>
+            <CalendarClock className="h-4 w-4" />
+            <AlertTitle>
+              Your plan changes to {scheduledPlan} on {formatDate(new Date(planExpiresAt))}
+            </AlertTitle>
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>You keep your {currentPlan} plan until then.</span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isScheduling}
+                onClick={() => handleScheduleChange(null)}
+              >
+                Keep {currentPlan}
+              </Button>
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      {subscription?.needsRenewal && (
+        <div className="px-4">
+          <Alert variant={subscription.state === 'expiring' ? 'default' : 'destructive'}>
+            <CalendarClock className="h-4 w-4" />
+            <AlertTitle>
+              {subscription.state === 'expiring' && `Your ${currentPlan} plan expires in ${subscription.daysLeft} day${subscription.daysLeft === 1 ? '' : 's'}`}
+              {subscription.state === 'grace' && `Your ${currentPlan} plan expired on ${formatDate(subscription.expiresAt!)}`}
+              {subscription.state === 'expired' && `Your paid plan ended on ${formatDate(subscription.graceEndsAt!)}`}
+            </AlertTitle>
+            <AlertDescription>
+              {subscription.state === 'expiring' && `Renew before ${formatDate(subscription.expiresAt!)} to keep your daily surveys. Renewing early adds a full month after your current expiry.`}
+              {subscription.state === 'grace' && `You'll move to the free ${planData.currentPlan.default} plan on ${formatDate(subscription.graceEndsAt!)} unless you renew.`}
+              {subscription.state === 'expired' && `You're back on the ${currentPlan} plan. Choose a plan below to get your surveys back.`}
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
       {/* Mobile: Vertical Scroll, Desktop: Grid */}
       <div className="md:hidden">
         <div className="space-y-4 px-4">
@@ -178,11 +335,10 @@ const PlanUpgrade = () => {
 
                 <Button 
                   className="w-full bg-gradient-primary hover:opacity-90 text-xs py-2"
-                  disabled={currentPlan === plan.planName}
+                  disabled={isPlanButtonDisabled(plan)}
                   onClick={() => handleUpgrade(plan)}
                 >
-                  {currentPlan === plan.planName ? 'Current Plan' : 
-                   plan.price === "0" ? 'Free Plan' : 'Upgrade Now'}
+                  {getPlanButtonLabel(plan)}
                 </Button>
               </CardContent>
             </Card>
@@ -252,11 +408,10 @@ const PlanUpgrade = () => {
 
               <Button 
                 className="w-full bg-gradient-primary hover:opacity-90"
-                disabled={currentPlan === plan.planName}
+                disabled={isPlanButtonDisabled(plan)}
                 onClick={() => handleUpgrade(plan)}
               >
-                {currentPlan === plan.planName ? 'Current Plan' : 
-                 plan.price === "0" ? 'Free Plan' : 'Upgrade Now'}
+                {getPlanButtonLabel(plan)}
               </Button>
             </CardContent>
           </Card>
@@ -264,98 +419,176 @@ const PlanUpgrade = () => {
       </div>
 
       {/* Payment Dialog */}
-      <Dialog open={!!selectedPlan} onOpenChange={() => setSelectedPlan(null)}>
+      <Dialog open={!!selectedPlan} onOpenChange={closePaymentDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Upgrade to {selectedPlan?.planName}</DialogTitle>
+            <DialogTitle>
+              {selectedPlan?.planName === currentPlan ? 'Renew' : 'Upgrade to'} {selectedPlan?.planName}
+            </DialogTitle>
             <DialogDescription>
-              Complete your payment to upgrade your plan
+              {quote?.changeType === "renewal" && `Adds another ${planData.subscription.periodDays} days to your plan`}
+              {quote?.changeType === "upgrade" && `You only pay the difference for the rest of your current period, which ends on ${formatDate(new Date(quote.periodEndsAt!))}`}
+              {quote?.changeType === "new" && `Runs for ${planData.subscription.periodDays} days from today`}
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4">
-            <div className="bg-muted p-4 rounded-lg">
-              <h4 className="font-semibold mb-2">Payment Details</h4>
-              <div className="space-y-2 text-sm">
+            {!quote && !quoteError && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {quoteError && (
+              <p className="text-sm text-destructive text-center py-2">{quoteError}</p>
+            )}
+
+            {quote && (quote.changeType === "upgrade" || quote.creditApplied > 0) && (
+              <div className="bg-muted p-4 rounded-lg space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span>Plan:</span>
-                  <span className="font-medium">{selectedPlan?.planName}</span>
+                  <span>{selectedPlan?.planName} plan</span>
+                  <span>KSh {quote.planPrice.toLocaleString()}/month</span>
                 </div>
-                <div className="flex justify-between">
-                  <span>Amount:</span>
-                  <span className="font-medium">KSh {selectedPlan?.price}</span>
+                {quote.changeType === "upgrade" && (
+                  <div className="flex justify-between">
+                    <span>Difference for the rest of this period</span>
+                    <span>KSh {quote.price.toLocaleString()}</span>
+                  </div>
+                )}
+                {quote.creditApplied > 0 && (
+                  <div className="flex justify-between text-success">
+                    <span>Account credit</span>
+                    <span>- KSh {quote.creditApplied.toLocaleString()}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold border-t pt-2">
+                  <span>To pay now</span>
+                  <span>KSh {quote.amountDue.toLocaleString()}</span>
                 </div>
-                <div className="flex justify-between items-center">
-                  <span>Till Number:</span>
-                  <div className="flex items-center gap-2">
-                    <span className="font-medium">{planData.mpesaPaymentDetails.tillNumber}</span>
+              </div>
+            )}
+
+            {selectedPlan && quote && quote.amountDue === 0 && (
+              <Button
+                className="w-full bg-gradient-primary hover:opacity-90"
+                disabled={isPayingWithCredit}
+                onClick={handlePayWithCredit}
+              >
+                {isPayingWithCredit ? <Loader2 className="h-4 w-4 animate-spin" /> : "Use my account credit"}
+              </Button>
+            )}
+
+            {selectedPlan && quote && quote.amountDue > 0 && (
+              <StkPushCheckout plan={selectedPlan} amount={quote.amountDue} onPaid={handleStkPaid} />
+            )}
+
+            {quote && quote.amountDue > 0 && <div className="text-center">
+              <Button variant="link" size="sm" onClick={() => setShowTillPayment(!showTillPayment)}>
+                {showTillPayment ? "Hide till payment" : "Already paid with the till number?"}
+              </Button>
+            </div>}
+
+            {quote && quote.amountDue > 0 && showTillPayment && (
+              <>
+                <div className="bg-muted p-4 rounded-lg">
+                  <h4 className="font-semibold mb-2">Payment Details</h4>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span>Plan:</span>
+                      <span className="font-medium">{selectedPlan?.planName}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Amount:</span>
+                      <span className="font-medium">KSh {quote.amountDue}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span>Till Number:</span>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{planData.mpesaPaymentDetails.tillNumber}</span>
+                        <Button 
+                          variant="ghost" 
+                          size="icon" 
+                          className="h-6 w-6"
+                          onClick={() => navigator.clipboard.writeText(planData.mpesaPaymentDetails.tillNumber.toString())}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Till Name:</span>
+                      <span className="font-medium">{planData.mpesaPaymentDetails.tillName}</span>
+                    </div>
+                  </div>
+                </div>
+            
+                <div className="bg-blue-50 border border-blue-200 p-4 rounded-lg">
+                  <h4 className="font-semibold text-blue-900 mb-2">Payment Instructions</h4>
+                  <ol className="text-sm text-blue-800 space-y-1">
+                    <li>1. Go to M-Pesa menu</li>
+                    <li>2. Select "Lipa na M-Pesa"</li>
+                    <li>3. Select "Buy Goods and Services"</li>
+                    <li>4. Enter Till Number: {planData.mpesaPaymentDetails.tillNumber}</li>
+                    <li>5. Enter Amount: KSh {quote.amountDue}</li>
+                    <li>6. Complete the transaction</li>
+                  </ol>
+                </div>
+
+                {!showPaymentConfirmation ? (
+                  <div className="flex gap-3">
+                    <Button variant="outline" onClick={closePaymentDialog} className="flex-1">
+                      Cancel
+                    </Button>
                     <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="h-6 w-6"
-                      onClick={() => navigator.clipboard.writeText(planData.mpesaPaymentDetails.tillNumber.toString())}
+                      onClick={() => setShowPaymentConfirmation(true)} 
+                      className="flex-1 bg-gradient-primary hover:opacity-90"
                     >
-                      <Copy className="h-4 w-4" />
+                      I've Made Payment
                     </Button>
                   </div>
-                </div>
-                <div className="flex justify-between">
-                  <span>Till Name:</span>
-                  <span className="font-medium">{planData.mpesaPaymentDetails.tillName}</span>
-                </div>
-              </div>
-            </div>
-            
-            <div className="bg-blue-50 border border-blue-200 p-4 rounded-lg">
-              <h4 className="font-semibold text-blue-900 mb-2">Payment Instructions</h4>
-              <ol className="text-sm text-blue-800 space-y-1">
-                <li>1. Go to M-Pesa menu</li>
-                <li>2. Select "Lipa na M-Pesa"</li>
-                <li>3. Select "Buy Goods and Services"</li>
-                <li>4. Enter Till Number: {planData.mpesaPaymentDetails.tillNumber}</li>
-                <li>5. Enter Amount: KSh {selectedPlan?.price}</li>
-                <li>6. Complete the transaction</li>
-              </ol>
-            </div>
-
-            {!showPaymentConfirmation ? (
-              <div className="flex gap-3">
-                <Button variant="outline" onClick={() => setSelectedPlan(null)} className="flex-1">
-                  Cancel
-                </Button>
-                <Button 
-                  onClick={() => setShowPaymentConfirmation(true)} 
-                  className="flex-1 bg-gradient-primary hover:opacity-90"
-                >
-                  I've Made Payment
-                </Button>
-              </div>
-            ) : (
-              <MpesaVerification
-                planName={selectedPlan?.planName}
-                amount={selectedPlan?.price}
-                onVerificationComplete={(verified, message, details) => {
-                  if (verified) {
-                    setSelectedPlan(null);
-                    setShowPaymentConfirmation(false);
-                    setMpesaMessage("");
-                    toast({
-                      title: "Payment Verified",
-                      description: "Your M-Pesa payment has been successfully verified! Your plan upgrade is being processed.",
-                    });
-                  } else {
-                    toast({
-                      variant: "destructive",
-                      title: "Verification Failed",
-                      description: "The payment message does not contain the required merchant verification. Please ensure you paid to the correct till number.",
-                    });
-                  }
-                }}
-              />
+                ) : (
+                  <MpesaVerification
+                    planName={selectedPlan?.planName}
+                    amount={String(quote.amountDue)}
+                    onVerificationComplete={(verified) => {
+                      // MpesaVerification already told the user how verification went
+                      if (verified) {
+                        closePaymentDialog();
+                        setMpesaMessage("");
+                      }
+                    }}
+                  />
+                )}
+              </>
             )}
           </div>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!downgradePlan} onOpenChange={(open) => !open && setDowngradePlan(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Switch to {downgradePlan?.planName}</DialogTitle>
+            <DialogDescription>
+              You keep your {currentPlan} plan until it ends
+              {planExpiresAt ? ` on ${formatDate(new Date(planExpiresAt))}` : ''}, then move
+              to {downgradePlan?.planName}. Nothing is charged now.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => setDowngradePlan(null)} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => downgradePlan && handleScheduleChange(downgradePlan.planName)}
+              disabled={isScheduling}
+              className="flex-1 bg-gradient-primary hover:opacity-90"
+            >
+              {isScheduling ? <Loader2 className="h-4 w-4 animate-spin" /> : "Schedule Change"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
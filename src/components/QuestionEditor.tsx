@@ -0,0 +1,267 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BranchAction, BranchRule, Question, QuestionType } from "@/hooks/useSurveyData";
+import { OPTION_QUESTION_TYPES, QUESTION_TYPES } from "@/schemas/surveySchema";
+
+interface QuestionEditorProps {
+  question: Question;
+  index: number;
+  questions: Question[];
+  onChange: (question: Question) => void;
+  onRemove: () => void;
+  onMove: (direction: -1 | 1) => void;
+}
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: "Multiple choice",
+  checkbox: "Checkboxes",
+  likert: "Likert scale",
+  rating: "Rating",
+  nps: "Net Promoter Score",
+  text: "Free text",
+  number: "Number",
+  dropdown: "Dropdown",
+  ranking: "Ranking"
+};
+
+const BRANCH_ACTION_LABELS: Record<BranchAction, string> = {
+  skip_to: "Skip to question",
+  end_survey: "End survey",
+  screen_out: "Screen out"
+};
+
+// Radix selects can't use an empty value, so "no attention check" gets a placeholder value
+const NO_CORRECT_ANSWER = "__none__";
+
+const toOptionalNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+const QuestionEditor = ({ question, index, questions, onChange, onRemove, onMove }: QuestionEditorProps) => {
+  const usesOptions = OPTION_QUESTION_TYPES.includes(question.type);
+  const laterQuestions = questions.slice(index + 1);
+  const rules = question.branching || [];
+
+  const update = (changes: Partial<Question>) => {
+    onChange({ ...question, ...changes });
+  };
+
+  const updateRule = (ruleIndex: number, changes: Partial<BranchRule>) => {
+    update({ branching: rules.map((rule, i) => (i === ruleIndex ? { ...rule, ...changes } : rule)) });
+  };
+
+  const numberField = (label: string, field: "min" | "max" | "minLength" | "maxLength" | "minSelections" | "maxSelections") => (
+    <div className="space-y-1">
+      <Label htmlFor={`${question.id}-${field}`} className="text-xs">{label}</Label>
+      <Input
+        id={`${question.id}-${field}`}
+        type="number"
+        value={question[field] ?? ""}
+        onChange={(e) => update({ [field]: toOptionalNumber(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Question {index + 1}</CardTitle>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="icon" onClick={() => onMove(-1)} disabled={index === 0} aria-label="Move up">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onMove(1)}
+              disabled={index === questions.length - 1}
+              aria-label="Move down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onRemove} aria-label="Remove question">
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor={`${question.id}-text`}>Question</Label>
+          <Input
+            id={`${question.id}-text`}
+            value={question.question}
+            onChange={(e) => update({ question: e.target.value })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select value={question.type} onValueChange={(type) => update({ type })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUESTION_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 md:pt-6">
+            <Switch
+              id={`${question.id}-free`}
+              checked={question.isFree !== false}
+              onCheckedChange={(checked) => update({ isFree: checked })}
+            />
+            <Label htmlFor={`${question.id}-free`}>Free question (off = premium plans only)</Label>
+          </div>
+        </div>
+
+        {(usesOptions || question.type === "rating") && (
+          <div className="space-y-1">
+            <Label htmlFor={`${question.id}-options`}>
+              {usesOptions ? "Options (one per line)" : "Scale labels (low, then high; one per line)"}
+            </Label>
+            <Textarea
+              id={`${question.id}-options`}
+              rows={4}
+              value={question.options.join("\n")}
+              onChange={(e) => update({ options: e.target.value === "" ? [] : e.target.value.split("\n") })}
+            />
+          </div>
+        )}
+
+        {usesOptions && (
+          <div className="space-y-1">
+            <Label>Attention check (required answer)</Label>
+            <Select
+              value={question.correctAnswer ?? NO_CORRECT_ANSWER}
+              onValueChange={(value) => update({ correctAnswer: value === NO_CORRECT_ANSWER ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CORRECT_ANSWER}>Not an attention check</SelectItem>
+                {question.options.filter(Boolean).map((option) => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {(question.type === "number" || question.type === "rating") && (
+          <div className="grid grid-cols-2 gap-4">
+            {numberField("Minimum", "min")}
+            {numberField("Maximum", "max")}
+          </div>
+        )}
+        {question.type === "text" && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor={`${question.id}-placeholder`} className="text-xs">Placeholder</Label>
+              <Input
+                id={`${question.id}-placeholder`}
+                value={question.placeholder || ""}
+                onChange={(e) => update({ placeholder: e.target.value || undefined })}
+              />
+            </div>
+            {numberField("Minimum length", "minLength")}
+            {numberField("Maximum length", "maxLength")}
+          </div>
+        )}
+        {question.type === "checkbox" && (
+          <div className="grid grid-cols-2 gap-4">
+            {numberField("Minimum selections", "minSelections")}
+            {numberField("Maximum selections", "maxSelections")}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Branching</Label>
+          {rules.map((rule, ruleIndex) => (
+            <div key={ruleIndex} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+              {usesOptions ? (
+                <Select value={rule.answer} onValueChange={(answer) => updateRule(ruleIndex, { answer })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="If answer is..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {question.options.filter(Boolean).map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  placeholder="If answer is..."
+                  value={rule.answer}
+                  onChange={(e) => updateRule(ruleIndex, { answer: e.target.value })}
+                />
+              )}
+              <Select
+                value={rule.action}
+                onValueChange={(action) => updateRule(ruleIndex, { action: action as BranchAction })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BRANCH_ACTION_LABELS) as BranchAction[]).map((action) => (
+                    <SelectItem key={action} value={action}>{BRANCH_ACTION_LABELS[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {rule.action === "skip_to" ? (
+                <Select value={rule.target} onValueChange={(target) => updateRule(ruleIndex, { target })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Target question" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {laterQuestions.map((later, laterIndex) => (
+                      <SelectItem key={later.id} value={later.id}>
+                        Question {index + laterIndex + 2}: {later.question || "Untitled"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  placeholder="Message shown to the user (optional)"
+                  value={rule.message || ""}
+                  onChange={(e) => updateRule(ruleIndex, { message: e.target.value || undefined })}
+                />
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => update({ branching: rules.filter((_, i) => i !== ruleIndex) })}
+                aria-label="Remove rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ branching: [...rules, { answer: "", action: "skip_to" }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuestionEditor;
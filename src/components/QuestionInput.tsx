@@ -0,0 +1,282 @@
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { AnswerValue, Question } from "@/hooks/useSurveyData";
+
+interface QuestionRendererProps {
+  question: Question;
+  value: AnswerValue | undefined;
+  onChange: (value: AnswerValue) => void;
+}
+
+const asString = (value: AnswerValue | undefined) => (typeof value === "string" ? value : "");
+const asList = (value: AnswerValue | undefined) => (Array.isArray(value) ? value : []);
+
+// Renders a row of numbered buttons from min to max (rating and NPS)
+const ScaleButtons = ({
+  min,
+  max,
+  value,
+  onChange,
+  lowLabel,
+  highLabel
+}: {
+  min: number;
+  max: number;
+  value: string;
+  onChange: (value: string) => void;
+  lowLabel?: string;
+  highLabel?: string;
+}) => {
+  const points = Array.from({ length: max - min + 1 }, (_, index) => (min + index).toString());
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {points.map(point => (
+          <Button
+            key={point}
+            type="button"
+            variant={value === point ? "default" : "outline"}
+            className={cn("h-10 w-10 p-0", value === point && "bg-gradient-primary")}
+            onClick={() => onChange(point)}
+          >
+            {point}
+          </Button>
+        ))}
+      </div>
+      {(lowLabel || highLabel) && (
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{lowLabel}</span>
+          <span>{highLabel}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const MultipleChoiceQuestion = ({ question, value, onChange }: QuestionRendererProps) => {
+  const selected = asString(value);
+
+  return (
+    <RadioGroup value={selected} onValueChange={onChange}>
+      {question.options.map((option, index) => (
+        <div
+          key={index}
+          className={`flex items-center space-x-2 mb-3 p-3 rounded-lg border transition-colors ${
+            selected === option
+              ? 'border-primary bg-primary/10'
+              : 'border-transparent hover:bg-gray-100'
+          }`}
+        >
+          <RadioGroupItem value={option} id={`option-${index}`} />
+          <Label htmlFor={`option-${index}`} className="cursor-pointer w-full">
+            {option}
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+};
+
+const CheckboxQuestion = ({ question, value, onChange }: QuestionRendererProps) => {
+  const selected = asList(value);
+
+  const toggleOption = (option: string, checked: boolean) => {
+    onChange(checked ? [...selected, option] : selected.filter(item => item !== option));
+  };
+
+  return (
+    <div>
+      {question.options.map((option, index) => (
+        <div
+          key={index}
+          className={`flex items-center space-x-2 mb-3 p-3 rounded-lg border transition-colors ${
+            selected.includes(option)
+              ? 'border-primary bg-primary/10'
+              : 'border-transparent hover:bg-gray-100'
+          }`}
+        >
+          <Checkbox
+            id={`option-${index}`}
+            checked={selected.includes(option)}
+            onCheckedChange={(checked) => toggleOption(option, checked === true)}
+          />
+          <Label htmlFor={`option-${index}`} className="cursor-pointer w-full">
+            {option}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const LikertQuestion = ({ question, value, onChange }: QuestionRendererProps) => {
+  const selected = asString(value);
+
+  return (
+    <RadioGroup
+      value={selected}
+      onValueChange={onChange}
+      className="grid gap-2"
+      style={{ gridTemplateColumns: `repeat(${question.options.length}, minmax(0, 1fr))` }}
+    >
+      {question.options.map((option, index) => (
+        <Label
+          key={index}
+          htmlFor={`option-${index}`}
+          className={`flex flex-col items-center gap-2 p-2 rounded-lg border text-center text-xs cursor-pointer transition-colors ${
+            selected === option
+              ? 'border-primary bg-primary/10'
+              : 'border-transparent hover:bg-gray-100'
+          }`}
+        >
+          <RadioGroupItem value={option} id={`option-${index}`} />
+          {option}
+        </Label>
+      ))}
+    </RadioGroup>
+  );
+};
+
+const RatingQuestion = ({ question, value, onChange }: QuestionRendererProps) => (
+  <ScaleButtons
+    min={question.min ?? 1}
+    max={question.max ?? 5}
+    value={asString(value)}
+    onChange={onChange}
+    lowLabel={question.options[0]}
+    highLabel={question.options[1]}
+  />
+);
+
+const NpsQuestion = ({ question, value, onChange }: QuestionRendererProps) => (
+  <ScaleButtons
+    min={0}
+    max={10}
+    value={asString(value)}
+    onChange={onChange}
+    lowLabel={question.options[0] || "Not at all likely"}
+    highLabel={question.options[1] || "Extremely likely"}
+  />
+);
+
+const TextQuestion = ({ question, value, onChange }: QuestionRendererProps) => {
+  const text = asString(value);
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={question.placeholder || "Type your answer here..."}
+        maxLength={question.maxLength}
+        className="min-h-[120px] bg-white"
+      />
+      <p className="text-xs text-muted-foreground text-right">
+        {text.trim().length}
+        {question.minLength ? ` / at least ${question.minLength}` : ""} characters
+      </p>
+    </div>
+  );
+};
+
+const NumberQuestion = ({ question, value, onChange }: QuestionRendererProps) => (
+  <Input
+    type="number"
+    inputMode="decimal"
+    value={asString(value)}
+    onChange={(e) => onChange(e.target.value)}
+    min={question.min}
+    max={question.max}
+    placeholder={question.placeholder || "Enter a number"}
+    className="bg-white"
+  />
+);
+
+const DropdownQuestion = ({ question, value, onChange }: QuestionRendererProps) => (
+  <Select value={asString(value)} onValueChange={onChange}>
+    <SelectTrigger className="bg-white">
+      <SelectValue placeholder={question.placeholder || "Select an option"} />
+    </SelectTrigger>
+    <SelectContent>
+      {question.options.map((option, index) => (
+        <SelectItem key={index} value={option}>
+          {option}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const RankingQuestion = ({ question, value, onChange }: QuestionRendererProps) => {
+  const ranking = asList(value).length ? asList(value) : question.options;
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= ranking.length) return;
+
+    const reordered = [...ranking];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <ol className="space-y-2">
+      {ranking.map((option, index) => (
+        <li key={option} className="flex items-center gap-3 p-3 rounded-lg border bg-white">
+          <span className="font-semibold text-primary w-6">{index + 1}.</span>
+          <span className="flex-1">{option}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            disabled={index === 0}
+            onClick={() => move(index, -1)}
+            aria-label={`Move ${option} up`}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            disabled={index === ranking.length - 1}
+            onClick={() => move(index, 1)}
+            aria-label={`Move ${option} down`}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+const questionRenderers: Record<string, React.FC<QuestionRendererProps>> = {
+  multiple_choice: MultipleChoiceQuestion,
+  checkbox: CheckboxQuestion,
+  likert: LikertQuestion,
+  rating: RatingQuestion,
+  nps: NpsQuestion,
+  text: TextQuestion,
+  number: NumberQuestion,
+  dropdown: DropdownQuestion,
+  ranking: RankingQuestion
+};
+
+// Renders the input for a question based on its type; unknown types fall back to multiple choice
+const QuestionInput = (props: QuestionRendererProps) => {
+  const Renderer = questionRenderers[props.question.type] || MultipleChoiceQuestion;
+  return <Renderer {...props} />;
+};
+
+export default QuestionInput;
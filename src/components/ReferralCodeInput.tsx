@@ -1,22 +1,60 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { Gift, CheckCircle, AlertCircle } from 'lucide-react';
+import { Gift, CheckCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useSurveyData } from '@/hooks/useSurveyData';
+import { useAuth } from '@/contexts/AuthContext';
+import { claimReferral, getReferredBy, Referral } from '@/lib/referralService';
+import { useReferralProgram } from '@/hooks/useReferralProgram';
 
 interface ReferralCodeInputProps {
   className?: string;
 }
 
+const welcomeBonusMessage = (referral: Referral) => {
+  switch (referral.status) {
+    case 'completed':
+      return `Your KSh ${referral.referee_reward_amount} welcome bonus has been added to your earnings.`;
+    case 'flagged':
+      return 'We are reviewing this referral. Your welcome bonus will follow if it is approved.';
+    case 'rejected':
+    case 'expired':
+      return 'This referral is not eligible for a welcome bonus.';
+    default:
+      return `Complete your first survey to get your KSh ${referral.referee_reward_amount} welcome bonus.`;
+  }
+};
+
 const ReferralCodeInput: React.FC<ReferralCodeInputProps> = ({ className }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
   const [referralCode, setReferralCode] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [isApplied, setIsApplied] = useState(false);
+  // The referral that brought this user in, once it has loaded
+  const [referredBy, setReferredBy] = useState<Referral | null>(null);
+  const [checked, setChecked] = useState(false);
   const { toast } = useToast();
-  const { surveyData } = useSurveyData();
+  const program = useReferralProgram();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    getReferredBy(userId).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error checking referral status:', error);
+      }
+      setReferredBy(data);
+      setChecked(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
 
   const handleApplyReferral = async () => {
     if (!referralCode.trim()) {
@@ -31,46 +69,24 @@ const ReferralCodeInput: React.FC<ReferralCodeInputProps> = ({ className }) => {
     setIsSubmitting(true);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Validate referral code (in real app, this would check against backend)
-      const validReferralCodes = ['FRIEND2024', 'WELCOME100', 'EARNMORE', 'SURVEYPRO'];
-      
-      if (validReferralCodes.includes(referralCode.toUpperCase())) {
-        // Get user ID
-        const { data: { user } } = await (await import('@/lib/supabaseClient')).supabase.auth.getUser();
-        if (!user) return;
-
-        // Save applied referral code
-        const storageKey = `appliedReferral_${user.id}`;
-        localStorage.setItem(storageKey, referralCode.toUpperCase());
+      const { data, error } = await claimReferral(referralCode.trim());
 
-        // Update user progress with bonus
-        const userProgressKey = `surveyData_${user.id}`;
-        const currentData = localStorage.getItem(userProgressKey);
-        if (currentData) {
-          const data = JSON.parse(currentData);
-          data.userProgress.pendingEarnings += 100; // Bonus for referral
-          data.userProgress.totalEarnings += 100;
-          localStorage.setItem(userProgressKey, JSON.stringify(data));
-        }
-
-        setIsApplied(true);
+      if (error) {
         toast({
-          title: "Success!",
-          description: "Referral code applied! You received KSh 100 bonus",
-        });
-
-        // Refresh page to show updated data
-        window.location.reload();
-      } else {
-        toast({
-          title: "Invalid Code",
-          description: "This referral code is not valid",
+          title: "Referral code not applied",
+          description: error.message,
           variant: "destructive",
         });
+        return;
       }
+
+      setReferredBy(data);
+      toast({
+        title: "Success!",
+        description: data
+          ? `Referral code applied! ${welcomeBonusMessage(data)}`
+          : "Referral code applied!",
+      });
     } catch (error) {
       toast({
         title: "Error",
@@ -82,34 +98,18 @@ const ReferralCodeInput: React.FC<ReferralCodeInputProps> = ({ className }) => {
     }
   };
 
-  const checkIfAlreadyApplied = async () => {
-    try {
-      const { data: { user } } = await (await import('@/lib/supabaseClient')).supabase.auth.getUser();
-      if (user) {
-        const storageKey = `appliedReferral_${user.id}`;
-        const appliedCode = localStorage.getItem(storageKey);
-        if (appliedCode) {
-          setIsApplied(true);
-          setReferralCode(appliedCode);
-        }
-      }
-    } catch (error) {
-      console.error('Error checking referral status:', error);
-    }
-  };
+  // Nothing to show until we know whether the user has already been referred
+  if (!checked) return null;
 
-  React.useEffect(() => {
-    checkIfAlreadyApplied();
-  }, []);
-
-  if (isApplied) {
+  if (referredBy) {
     return (
       <Card className={`${className} bg-success/10 border-success`}>
-        <CardContent className="pt-6">
+        <CardContent className="pt-6 space-y-1">
           <div className="flex items-center gap-2 text-success">
             <CheckCircle className="h-5 w-5" />
-            <span className="font-medium">Referral code applied successfully!</span>
+            <span className="font-medium">Referral code {referredBy.referral_code} applied</span>
           </div>
+          <p className="text-sm text-muted-foreground">{welcomeBonusMessage(referredBy)}</p>
         </CardContent>
       </Card>
     );
@@ -129,27 +129,25 @@ const ReferralCodeInput: React.FC<ReferralCodeInputProps> = ({ className }) => {
             <Label htmlFor="referral-code">Enter referral code</Label>
             <Input
               id="referral-code"
-              placeholder="e.g., FRIEND2024"
+              placeholder="e.g., REF1A2B3C4D"
               value={referralCode}
               onChange={(e) => setReferralCode(e.target.value.toUpperCase())}
               maxLength={20}
               className="mt-2"
             />
-            <p className="text-sm text-muted-foreground mt-1">
-              Get KSh 100 bonus for applying a valid referral code
-            </p>
+            {program && program.refereeWelcomeBonus > 0 && (
+              <p className="text-sm text-muted-foreground mt-1">
+                Get a KSh {program.refereeWelcomeBonus} bonus when you complete your first survey
+              </p>
+            )}
           </div>
-          <Button 
+          <Button
             onClick={handleApplyReferral}
             disabled={isSubmitting || !referralCode.trim()}
             className="w-full bg-gradient-primary hover:opacity-90"
           >
             {isSubmitting ? "Applying..." : "Apply Referral Code"}
           </Button>
-          
-          <div className="text-xs text-muted-foreground text-center">
-            <p>Valid codes: FRIEND2024, WELCOME100, EARNMORE, SURVEYPRO</p>
-          </div>
         </div>
       </CardContent>
     </Card>
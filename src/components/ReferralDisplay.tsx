@@ -7,6 +7,7 @@ import { toast } from '@/hooks/use-toast';
 
 export const ReferralStatsCard: React.FC = () => {
   const { referralStats } = useReferral();
+  if (!referralStats) return null;
 
   const copyReferralCode = () => {
     navigator.clipboard.writeText(referralStats.referral_code);
@@ -31,7 +32,7 @@ export const ReferralStatsCard: React.FC = () => {
             <div className="text-sm text-gray-600">Total Referrals</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-green-600">${referralStats.total_earned}</div>
+            <div className="text-2xl font-bold text-green-600">KSh {referralStats.total_earned}</div>
             <div className="text-sm text-gray-600">Total Earned</div>
           </div>
           <div className="text-center">
@@ -63,7 +64,13 @@ export const ReferralStatsCard: React.FC = () => {
 };
 
 export const ReferralEarningsCard: React.FC = () => {
-  const { referralStats } = useReferral();
+  const { referralStats, referrals } = useReferral();
+  if (!referralStats) return null;
+
+  // Each referral's signup bonus is fixed when the referral is made
+  const pendingRewards = referrals
+    .filter(referral => referral.status === 'pending' || referral.status === 'flagged')
+    .reduce((sum, referral) => sum + referral.reward_amount, 0);
 
   return (
     <Card className="w-full">
@@ -77,7 +84,7 @@ export const ReferralEarningsCard: React.FC = () => {
         <div className="space-y-4">
           <div className="flex justify-between items-center">
             <span className="text-gray-600">Total Earned from Referrals</span>
-            <span className="font-bold text-green-600">${referralStats.total_earned}</span>
+            <span className="font-bold text-green-600">KSh {referralStats.total_earned}</span>
           </div>
           <div className="flex justify-between items-center">
             <span className="text-gray-600">Completed Referrals</span>
@@ -85,7 +92,7 @@ export const ReferralEarningsCard: React.FC = () => {
           </div>
           <div className="flex justify-between items-center">
             <span className="text-gray-600">Pending Rewards</span>
-            <span className="font-bold text-orange-600">${referralStats.pending_referrals * 50}</span>
+            <span className="font-bold text-orange-600">KSh {pendingRewards}</span>
           </div>
         </div>
       </CardContent>
@@ -95,6 +102,7 @@ export const ReferralEarningsCard: React.FC = () => {
 
 export const ReferralCodeDisplay: React.FC = () => {
   const { referralStats } = useReferral();
+  if (!referralStats) return null;
 
   const copyReferralCode = () => {
     navigator.clipboard.writeText(referralStats.referral_code);
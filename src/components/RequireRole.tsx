@@ -0,0 +1,53 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { UserRole } from '@/lib/roleService';
+
+interface RequireRoleProps {
+  roles: UserRole[];
+  children: React.ReactNode;
+}
+
+// Like ProtectedRoute, but also requires one of the given roles. Admins are always let through.
+const RequireRole: React.FC<RequireRoleProps> = ({ roles, children }) => {
+  const { user, loading, hasRole } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Checking authentication...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  if (!hasRole(roles)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full text-center">
+          <CardHeader>
+            <ShieldAlert className="h-10 w-10 mx-auto mb-2 text-destructive" />
+            <CardTitle>Access restricted</CardTitle>
+            <CardDescription>You don't have permission to view this page.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <a href="/dashboard" className="text-primary hover:underline">Back to dashboard</a>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
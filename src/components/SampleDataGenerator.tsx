@@ -1,5 +1,7 @@
 import { useEffect } from 'react';
 import { supabase } from '@/lib/supabaseClient';
+import { readStoredJson } from '@/lib/dataValidation';
+import { surveyHistorySchema } from '@/schemas/userProgressSchema';
 
 interface SampleDataGeneratorProps {
   children: React.ReactNode;
@@ -13,9 +15,9 @@ export const SampleDataGenerator = ({ children }: SampleDataGeneratorProps) => {
 
       // Check if sample data already exists
       const storageKey = `surveyHistory_${user.id}`;
-      const existingData = localStorage.getItem(storageKey);
+      const existingData = readStoredJson(storageKey, surveyHistorySchema, []);
       
-      if (!existingData || JSON.parse(existingData).length === 0) {
+      if (existingData.length === 0) {
         // Generate sample survey completion data for the last 30 days
         const sampleData = [];
         const today = new Date();
@@ -8,7 +8,11 @@ import {
   LogOut,
   Menu,
   X,
-  Star
+  Star,
+  ClipboardList,
+  Wallet,
+  ShieldAlert,
+  ClipboardCheck
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -18,14 +22,29 @@ import { useSurveyData } from "@/hooks/useSurveyData";
 import { useLocation, useNavigate } from "react-router-dom";
 import { useSidebar } from "@/contexts/SidebarContext";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useAuth } from "@/contexts/AuthContext";
+import { useReferral } from "@/contexts/ReferralContext";
+import { UserRole } from "@/lib/roleService";
+
+interface MenuItem {
+  title: string;
+  icon: typeof LayoutDashboard;
+  href: string;
+  active: boolean;
+  badge?: string;
+  // Only shown to users with one of these roles
+  roles?: UserRole[];
+}
 
 const Sidebar = () => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [userName, setUserName] = useState<string>('User');
   const [userEmail, setUserEmail] = useState<string>('');
-  const { surveyData, planData } = useSurveyData();
+  const { surveyData, planData, getPlanSubscription } = useSurveyData();
   const { isSidebarOpen, closeSidebar } = useSidebar();
   const isMobile = useIsMobile();
+  const { hasRole } = useAuth();
+  const { notifications } = useReferral();
 
   useEffect(() => {
     const fetchUser = async () => {
@@ -38,18 +57,27 @@ const Sidebar = () => {
     fetchUser();
   }, []);
 
-  const currentPlan = surveyData?.userProgress?.currentPlan || 'Starter';
+  const currentPlan = surveyData?.userProgress?.currentPlan || planData?.currentPlan.default;
   const pendingEarnings = surveyData?.userProgress?.pendingEarnings || 0;
-  
-  // Get plan limits from centralized plan.json
-  const surveyLimit = planData?.limits?.survey?.[currentPlan] || 1;
-  const withdrawalLimit = planData?.limits?.withdrawal?.[currentPlan] || 4500;
+
+  // Renewal reminder shown next to the plan name
+  const subscription = getPlanSubscription();
+  const getRenewalReminder = () => {
+    if (!subscription?.needsRenewal) return null;
+    switch (subscription.state) {
+      case 'expiring': return `Expires in ${subscription.daysLeft}d`;
+      case 'grace': return 'Renew now';
+      case 'expired': return 'Expired';
+      default: return null;
+    }
+  };
+  const renewalReminder = getRenewalReminder();
   
   const location = useLocation();
   const navigate = useNavigate();
   const currentPath = location.pathname;
 
-  const menuItems = [
+  const menuItems: MenuItem[] = [
     {
       title: "Dashboard",
       icon: LayoutDashboard,
@@ -60,6 +88,7 @@ const Sidebar = () => {
       title: "Plans",
       icon: Star,
       href: "/plans",
+      badge: renewalReminder ? "Renew" : undefined,
       active: currentPath === "/plans"
     },
     {
@@ -79,7 +108,7 @@ const Sidebar = () => {
       title: "Referrals",
       icon: Users,
       href: "/referrals",
-      badge: "3",
+      badge: notifications.length > 0 ? String(notifications.length) : undefined,
       active: currentPath === "/referrals"
     },
     {
@@ -87,9 +116,39 @@ const Sidebar = () => {
       icon: Settings,
       href: "/settings",
       active: currentPath === "/settings"
+    },
+    {
+      title: "Survey Admin",
+      icon: ClipboardList,
+      href: "/admin/surveys",
+      active: currentPath.startsWith("/admin/surveys"),
+      roles: ["admin"]
+    },
+    {
+      title: "Withdrawals",
+      icon: Wallet,
+      href: "/admin/withdrawals",
+      active: currentPath === "/admin/withdrawals",
+      roles: ["admin"]
+    },
+    {
+      title: "Referral Review",
+      icon: ShieldAlert,
+      href: "/admin/referrals",
+      active: currentPath === "/admin/referrals",
+      roles: ["admin"]
+    },
+    {
+      title: "Response Review",
+      icon: ClipboardCheck,
+      href: "/admin/responses",
+      active: currentPath === "/admin/responses",
+      roles: ["reviewer"]
     }
   ];
 
+  const visibleMenuItems = menuItems.filter(item => !item.roles || hasRole(item.roles));
+
   // Handle body scroll lock on mobile
   useEffect(() => {
     if (isMobile && isSidebarOpen) {
@@ -168,7 +227,17 @@ const Sidebar = () => {
               </div>
               <div className="flex-1">
                 <p className="font-semibold text-sm">{userName}</p>
-                <p className="text-xs text-muted-foreground">{currentPlan} Plan</p>
+                <div className="flex items-center gap-2">
+                  {currentPlan && <p className="text-xs text-muted-foreground">{currentPlan} Plan</p>}
+                  {renewalReminder && (
+                    <Badge
+                      variant={subscription?.state === 'expiring' ? 'secondary' : 'destructive'}
+                      className="text-[10px] px-1.5 py-0"
+                    >
+                      {renewalReminder}
+                    </Badge>
+                  )}
+                </div>
               </div>
             </div>
             <div className="sidebar-earnings mt-3 p-2 rounded-lg">
@@ -183,7 +252,7 @@ const Sidebar = () => {
         {/* Navigation */}
         <nav className="flex-1 p-4">
           <ul className="space-y-2">
-            {menuItems.map((item, index) => (
+            {visibleMenuItems.map((item, index) => (
               <li key={index}>
                 <Button
                   variant="ghost"
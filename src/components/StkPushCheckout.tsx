@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from "react";
+import { CheckCircle, Loader2, Phone, Smartphone, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SurveyPlan } from "@/hooks/useSurveyData";
+import { initiatePlanPayment, getPlanPaymentStatus, waitForPlanPayment, PlanPayment } from "@/lib/paymentService";
+import { normalizeMpesaNumber } from "@/lib/withdrawalService";
+
+interface StkPushCheckoutProps {
+  plan: SurveyPlan;
+  // Amount due from the plan quote, which may be prorated or reduced by credit
+  amount: number;
+  onPaid: (payment: PlanPayment) => void;
+}
+
+type CheckoutStep = "phone" | "waiting" | "paid" | "failed" | "timeout";
+
+const StkPushCheckout = ({ plan, amount, onPaid }: StkPushCheckoutProps) => {
+  const [phoneNumber, setPhoneNumber] = useState(() => localStorage.getItem("savedWithdrawalPhone") || "");
+  const [step, setStep] = useState<CheckoutStep>("phone");
+  const [payment, setPayment] = useState<PlanPayment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop polling if the dialog closes while we wait
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const normalizedPhone = normalizeMpesaNumber(phoneNumber);
+  const isValidPhone = /^254[17]\d{8}$/.test(normalizedPhone);
+
+  const finish = (latest: PlanPayment | null) => {
+    if (!latest || latest.status === "pending") {
+      setStep("timeout");
+    } else if (latest.status === "paid") {
+      setStep("paid");
+      onPaid(latest);
+    } else {
+      setError(latest.result_desc || "The payment was not completed.");
+      setStep("failed");
+    }
+  };
+
+  const waitForResult = async (paymentId: string) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setStep("waiting");
+    const latest = await waitForPlanPayment(paymentId, setPayment, controller.signal);
+    if (!controller.signal.aborted) {
+      finish(latest);
+    }
+  };
+
+  const handlePay = async () => {
+    setError(null);
+    setStep("waiting");
+    const { data, error: initiateError } = await initiatePlanPayment(
+      plan.planName,
+      amount,
+      normalizedPhone
+    );
+
+    if (initiateError || !data) {
+      setError(initiateError?.message || "We couldn't send the payment request. Please try again.");
+      setStep("failed");
+      return;
+    }
+
+    setPayment(data);
+    await waitForResult(data.id);
+  };
+
+  const handleCheckAgain = async () => {
+    if (!payment) return;
+
+    const { data } = await getPlanPaymentStatus(payment.id);
+    if (data?.status === "pending") {
+      await waitForResult(payment.id);
+    } else {
+      finish(data);
+    }
+  };
+
+  if (step === "waiting") {
+    return (
+      <div className="text-center space-y-3 py-4">
+        <Smartphone className="h-10 w-10 mx-auto text-primary" />
+        <h4 className="font-semibold">Check your phone</h4>
+        <p className="text-sm text-muted-foreground">
+          Enter your M-Pesa PIN on {payment?.phone_number || normalizedPhone} to pay KSh {amount}.
+        </p>
+        <Loader2 className="h-5 w-5 animate-spin mx-auto text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (step === "paid") {
+    return (
+      <div className="text-center space-y-2 py-4">
+        <CheckCircle className="h-10 w-10 mx-auto text-success" />
+        <h4 className="font-semibold">Payment confirmed</h4>
+        <p className="text-sm text-muted-foreground">
+          You're now on the {plan.planName} plan.
+          {payment?.mpesa_receipt && <> M-Pesa receipt {payment.mpesa_receipt}.</>}
+        </p>
+      </div>
+    );
+  }
+
+  if (step === "timeout") {
+    return (
+      <div className="text-center space-y-3 py-4">
+        <Loader2 className="h-10 w-10 mx-auto text-muted-foreground" />
+        <h4 className="font-semibold">Still waiting for M-Pesa</h4>
+        <p className="text-sm text-muted-foreground">
+          If you entered your PIN, your plan will update as soon as M-Pesa confirms the payment.
+        </p>
+        <Button variant="outline" onClick={handleCheckAgain}>Check again</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {step === "failed" && error && (
+        <div className="flex items-start gap-2 text-sm text-destructive">
+          <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="stk-phone" className="flex items-center gap-2">
+          <Phone className="h-4 w-4" />
+          M-Pesa number
+        </Label>
+        <Input
+          id="stk-phone"
+          type="tel"
+          placeholder="07XXXXXXXX"
+          value={phoneNumber}
+          onChange={(e) => setPhoneNumber(e.target.value)}
+          maxLength={13}
+        />
+        <p className="text-xs text-muted-foreground">
+          We'll send a payment request to this phone. Your plan changes once you approve it.
+        </p>
+      </div>
+      <Button
+        className="w-full bg-gradient-primary hover:opacity-90"
+        disabled={!isValidPhone}
+        onClick={handlePay}
+      >
+        {step === "failed" ? "Try again" : `Pay KSh ${amount} with M-Pesa`}
+      </Button>
+    </div>
+  );
+};
+
+export default StkPushCheckout;
@@ -4,6 +4,8 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import { Calendar, TrendingUp } from 'lucide-react';
 import { useSurveyData } from '@/hooks/useSurveyData';
 import { supabase } from '@/lib/supabaseClient';
+import { readStoredJson } from '@/lib/dataValidation';
+import { surveyHistorySchema } from '@/schemas/userProgressSchema';
 
 interface SurveyEarningsChartProps {
   className?: string;
@@ -45,12 +47,7 @@ const SurveyEarningsChart: React.FC<SurveyEarningsChartProps> = ({ className })
 
       // Load survey completion data from localStorage
       const storageKey = `surveyHistory_${user.id}`;
-      const storedData = localStorage.getItem(storageKey);
-      
-      let surveyRecords: SurveyRecord[] = [];
-      if (storedData) {
-        surveyRecords = JSON.parse(storedData);
-      }
+      const surveyRecords = readStoredJson<SurveyRecord[]>(storageKey, surveyHistorySchema, []);
 
       // Generate date range
       const days = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : 90;
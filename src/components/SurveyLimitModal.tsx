@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { X, TrendingUp, Lock, CheckCircle2 } from "lucide-react";
+import { X, TrendingUp, Lock, CheckCircle2, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -15,17 +15,29 @@ interface SurveyLimitModalProps {
   currentPlanName: string;
   dailyLimit: number;
   surveysCompletedToday: number;
+  resetsAt?: Date;
 }
 
+// Format the time left until the quota resets as HH:MM:SS
+const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(unit => unit.toString().padStart(2, "0")).join(":");
+};
+
 const SurveyLimitModal = ({ 
   isOpen, 
   onClose, 
   currentPlanName, 
   dailyLimit, 
-  surveysCompletedToday 
+  surveysCompletedToday,
+  resetsAt
 }: SurveyLimitModalProps) => {
   const [isVisible, setIsVisible] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
 
   useEffect(() => {
     if (isOpen) {
@@ -37,6 +49,16 @@ const SurveyLimitModal = ({
     }
   }, [isOpen, surveysCompletedToday, dailyLimit]);
 
+  // Tick the reset countdown while the modal is open
+  const resetsAtTime = resetsAt?.getTime();
+  useEffect(() => {
+    if (!isOpen || !resetsAtTime) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, resetsAtTime]);
+
   const handleUpgrade = () => {
     window.location.href = '/plans';
   };
@@ -119,6 +141,17 @@ const SurveyLimitModal = ({
                   <span className="survey-limit-text-highlight">Completed</span>
                   <span className="survey-limit-text-white">{surveysCompletedToday}</span>
                 </div>
+                {resetsAt && (
+                  <div className="flex justify-between">
+                    <span className="survey-limit-text-highlight flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      Resets in
+                    </span>
+                    <span className="survey-limit-text-white font-mono">
+                      {formatCountdown(resetsAt.getTime() - now)}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
 
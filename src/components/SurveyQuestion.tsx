@@ -1,19 +1,17 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Lock, Flag, UserX } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface Question {
-  id: string;
-  question: string;
-  type: string;
-  options: string[];
-  correctAnswer: string | null;
-}
+import { Question, AnswerValue, SurveyAnswers } from "@/hooks/useSurveyData";
+import { SurveyAccessService } from "@/utils/surveyAccessService";
+import { QuestionTypeService } from "@/utils/questionTypeService";
+import { SurveyBranchingService, SurveyStep } from "@/utils/surveyBranchingService";
+import { createAttemptId, startSurveyAttempt, AnswerTiming, SurveySubmission } from "@/lib/surveyResponseService";
+import { SurveyCheckpoint } from "@/hooks/useSurveyProgress";
+import QuestionInput from "@/components/QuestionInput";
 
 interface SurveyQuestionProps {
   questions: Question[];
@@ -21,7 +19,11 @@ interface SurveyQuestionProps {
   reward: number;
   title: string;
   duration: string;
-  onComplete: (surveyId: string, answers: Record<string, string>) => void;
+  hasPremiumAccess?: boolean;
+  checkpoint?: SurveyCheckpoint;
+  // Called with the attempt's progress after each step; null means discard it
+  onCheckpoint?: (surveyId: string, checkpoint: SurveyCheckpoint | null) => void;
+  onComplete: (surveyId: string, submission: SurveySubmission) => void;
   onCancel: () => void;
 }
 
@@ -31,55 +33,280 @@ const SurveyQuestion = ({
   reward,
   title,
   duration,
+  hasPremiumAccess = true,
+  checkpoint,
+  onCheckpoint,
   onComplete, 
   onCancel 
 }: SurveyQuestionProps) => {
   const { toast } = useToast();
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
-  const [selectedAnswer, setSelectedAnswer] = useState("");
+  const answerableQuestions = SurveyAccessService.getAnswerableQuestions(questions, hasPremiumAccess);
+  const lockedQuestionCount = questions.length - answerableQuestions.length;
+  // Indexes of the questions visited, so Previous retraces the branch taken.
+  // A resumed attempt keeps whatever part of its saved path is still answerable.
+  const [path, setPath] = useState<number[]>(() => {
+    const restoredPath = (checkpoint?.path || [])
+      .map(questionId => answerableQuestions.findIndex(question => question.id === questionId))
+      .filter(index => index >= 0);
+    return restoredPath.length > 0 ? restoredPath : [0];
+  });
+  const [answers, setAnswers] = useState<SurveyAnswers>(() => checkpoint?.answers || {});
+  // Kept for the whole attempt so a repeated submit is recognised by the server
+  const [attemptId] = useState(() => checkpoint?.attemptId || createAttemptId());
+  const [startedAt] = useState(() => checkpoint?.startedAt || new Date().toISOString());
+  const [timings, setTimings] = useState<Record<string, AnswerTiming>>(() => checkpoint?.timings || {});
+
+  // Start the attempt's clock on the server. If this fails the attempt is timed from
+  // its submission instead, which holds it for review rather than losing it.
+  useEffect(() => {
+    startSurveyAttempt(surveyId, attemptId).then(({ error }) => {
+      if (error) {
+        console.error("Error starting survey attempt:", error);
+      }
+    });
+  }, [surveyId, attemptId]);
+  const questionShownAt = useRef(Date.now());
+  const [selectedAnswer, setSelectedAnswer] = useState<AnswerValue | undefined>(() => {
+    const question = answerableQuestions[path[path.length - 1]];
+    return (question && answers[question.id]) ?? QuestionTypeService.getInitialValue(question);
+  });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showPaywall, setShowPaywall] = useState(answerableQuestions.length === 0);
+  const [endStep, setEndStep] = useState<SurveyStep | null>(null);
+  // What submitting now pays: the share of the survey answered on the path taken
+  const answeredCount = path.filter(index => answerableQuestions[index]?.id in answers).length;
+  const earnedReward = SurveyAccessService.getProratedReward(reward, answeredCount, questions.length);
 
-  const currentQuestion = questions[currentQuestionIndex];
-  const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
+  const currentQuestionIndex = path[path.length - 1];
+  const currentQuestion = answerableQuestions[currentQuestionIndex];
+  const nextStep: SurveyStep = currentQuestion
+    ? SurveyBranchingService.getNextStep(answerableQuestions, currentQuestionIndex, selectedAnswer)
+    : { type: "complete" };
+  const isLastQuestion = nextStep.type !== "question";
+  const progress = SurveyBranchingService.getPathProgress(path, answerableQuestions.length);
+  const validationError = currentQuestion ? QuestionTypeService.validate(currentQuestion, selectedAnswer) : null;
 
-  const handleAnswerSelect = (answer: string) => {
+  const handleAnswerSelect = (answer: AnswerValue) => {
     setSelectedAnswer(answer);
   };
 
   const handleNext = async () => {
-    if (!selectedAnswer) {
+    if (validationError) {
       toast({
         title: "Answer required",
-        description: "Please select an answer before continuing",
+        description: validationError,
         variant: "destructive"
       });
       return;
     }
 
+    const now = Date.now();
     const newAnswers = { ...answers, [currentQuestion.id]: selectedAnswer };
+    const newTimings = {
+      ...timings,
+      [currentQuestion.id]: {
+        answeredAt: new Date(now).toISOString(),
+        timeSpentMs: (timings[currentQuestion.id]?.timeSpentMs || 0) + now - questionShownAt.current
+      }
+    };
     setAnswers(newAnswers);
+    setTimings(newTimings);
+    questionShownAt.current = now;
 
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(currentQuestionIndex + 1);
-      setSelectedAnswer("");
+    if (nextStep.type === "question") {
+      const nextQuestion = answerableQuestions[nextStep.index];
+      const nextPath = [...path, nextStep.index];
+      setPath(nextPath);
+      saveProgress(nextPath, newAnswers, newTimings);
+      setSelectedAnswer(answers[nextQuestion.id] ?? QuestionTypeService.getInitialValue(nextQuestion));
+    } else if (nextStep.type === "screen_out") {
+      onCheckpoint?.(surveyId, null);
+      setEndStep(nextStep);
+    } else if (nextStep.type === "end") {
+      saveProgress(path, newAnswers, newTimings);
+      setEndStep(nextStep);
+    } else if (lockedQuestionCount > 0) {
+      saveProgress(path, newAnswers, newTimings);
+      setShowPaywall(true);
     } else {
-      setIsSubmitting(true);
-      try {
-        await onComplete(surveyId, newAnswers);
-      } finally {
-        setIsSubmitting(false);
-      }
+      await submitAnswers(buildSubmission(newAnswers, newTimings));
+    }
+  };
+
+  const saveProgress = (
+    progressPath: number[],
+    progressAnswers: SurveyAnswers,
+    progressTimings: Record<string, AnswerTiming>
+  ) => {
+    onCheckpoint?.(surveyId, {
+      surveyId,
+      attemptId,
+      startedAt,
+      savedAt: new Date().toISOString(),
+      path: progressPath.map(index => answerableQuestions[index].id),
+      answers: progressAnswers,
+      timings: progressTimings
+    });
+  };
+
+  // Only submit answers on the path taken, not ones left on branches the user backed out of
+  const buildSubmission = (allAnswers: SurveyAnswers, allTimings = timings): SurveySubmission => ({
+    attemptId,
+    answers: path
+      .map(index => answerableQuestions[index].id)
+      .filter(questionId => questionId in allAnswers)
+      .map(questionId => ({
+        questionId,
+        answer: allAnswers[questionId],
+        answeredAt: allTimings[questionId]?.answeredAt || new Date().toISOString(),
+        timeSpentMs: allTimings[questionId]?.timeSpentMs || 0
+      }))
+  });
+
+  const submitAnswers = async (submission: SurveySubmission) => {
+    setIsSubmitting(true);
+    try {
+      await onComplete(surveyId, submission);
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
   const handlePrevious = () => {
-    if (currentQuestionIndex > 0) {
-      setCurrentQuestionIndex(currentQuestionIndex - 1);
-      setSelectedAnswer(answers[questions[currentQuestionIndex - 1].id] || "");
+    if (path.length > 1) {
+      const previousPath = path.slice(0, -1);
+      setPath(previousPath);
+      saveProgress(previousPath, answers, timings);
+      questionShownAt.current = Date.now();
+      setSelectedAnswer(answers[answerableQuestions[previousPath[previousPath.length - 1]].id]);
     }
   };
 
+  if (endStep?.type === "screen_out") {
+    return (
+      <div className="max-w-2xl mx-auto p-4">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-xl">{title}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              <div className="bg-gray-50 p-4 rounded-lg text-center">
+                <UserX className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
+                <h3 className="text-lg font-semibold mb-2">This survey isn't a match for you</h3>
+                <p className="text-sm text-muted-foreground">
+                  {endStep.message || "Based on your answers, you don't qualify for this survey. No reward is paid for it, but there are plenty of other surveys waiting for you."}
+                </p>
+              </div>
+
+              <div className="flex justify-end pt-4">
+                <Button onClick={onCancel} className="bg-gradient-primary hover:opacity-90">
+                  Back to Surveys
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (endStep?.type === "end") {
+    return (
+      <div className="max-w-2xl mx-auto p-4">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle className="text-xl">{title}</CardTitle>
+              <Badge variant="secondary">Reward: KSh {earnedReward}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              <div className="bg-gray-50 p-4 rounded-lg text-center">
+                <Flag className="h-8 w-8 mx-auto mb-3 text-primary" />
+                <h3 className="text-lg font-semibold mb-2">That's the end of this survey</h3>
+                <p className="text-sm text-muted-foreground">
+                  {endStep.message || "Based on your answers, there are no more questions for you. Thanks for taking part!"}
+                </p>
+              </div>
+
+              <div className="flex justify-between pt-4">
+                <Button variant="outline" onClick={() => setEndStep(null)}>
+                  Previous
+                </Button>
+                <Button
+                  onClick={() => submitAnswers(buildSubmission(answers))}
+                  disabled={isSubmitting}
+                  className="bg-gradient-primary hover:opacity-90"
+                >
+                  {isSubmitting ? "Submitting..." : "Complete Survey"}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (showPaywall) {
+    return (
+      <div className="max-w-2xl mx-auto p-4">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle className="text-xl">{title}</CardTitle>
+              <Badge variant="secondary">Reward: KSh {earnedReward} of {reward}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              <div className="bg-gray-50 p-4 rounded-lg text-center">
+                <Lock className="h-8 w-8 mx-auto mb-3 text-primary" />
+                <h3 className="text-lg font-semibold mb-2">
+                  {lockedQuestionCount} premium {lockedQuestionCount === 1 ? "question" : "questions"} left
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  {earnedReward > 0
+                    ? `You've answered all the free questions. Submit now to earn KSh ${earnedReward}, or upgrade your plan to answer every question and earn the full KSh ${reward}.`
+                    : `This survey is only available on paid plans. Upgrade to answer it and earn KSh ${reward}.`}
+                </p>
+              </div>
+
+              <div className="flex justify-between pt-4">
+                <Button
+                  variant="outline"
+                  onClick={onCancel}
+                  className="bg-gray-100 hover:bg-gray-200"
+                >
+                  Cancel Survey
+                </Button>
+                <div className="space-x-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => window.location.href = '/plans'}
+                  >
+                    Upgrade Plan
+                  </Button>
+                  {earnedReward > 0 && (
+                    <Button
+                      onClick={() => submitAnswers(buildSubmission(answers))}
+                      disabled={isSubmitting}
+                      className="bg-gradient-primary hover:opacity-90"
+                    >
+                      {isSubmitting ? "Submitting..." : `Submit for KSh ${earnedReward}`}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-2xl mx-auto p-4">
       <Card className="shadow-lg">
@@ -88,7 +315,7 @@ const SurveyQuestion = ({
             <div>
               <CardTitle className="text-xl">{title}</CardTitle>
               <p className="text-sm text-muted-foreground">
-                Question {currentQuestionIndex + 1} of {questions.length}
+                Question {path.length} of {path.length + answerableQuestions.length - currentQuestionIndex - 1}
               </p>
             </div>
             <div className="flex gap-2">
@@ -102,23 +329,13 @@ const SurveyQuestion = ({
           <div className="space-y-6">
             <div className="bg-gray-50 p-4 rounded-lg">
               <h3 className="text-lg font-semibold mb-4">{currentQuestion.question}</h3>
-              <RadioGroup value={selectedAnswer} onValueChange={handleAnswerSelect}>
-                {currentQuestion.options.map((option, index) => (
-                  <div 
-                    key={index} 
-                    className={`flex items-center space-x-2 mb-3 p-3 rounded-lg border transition-colors ${
-                      selectedAnswer === option 
-                        ? 'border-primary bg-primary/10' 
-                        : 'border-transparent hover:bg-gray-100'
-                    }`}
-                  >
-                    <RadioGroupItem value={option} id={`option-${index}`} />
-                    <Label htmlFor={`option-${index}`} className="cursor-pointer w-full">
-                      {option}
-                    </Label>
-                  </div>
-                ))}
-              </RadioGroup>
+              <Progress value={progress} className="mb-4" />
+              <QuestionInput
+                key={currentQuestion.id}
+                question={currentQuestion}
+                value={selectedAnswer}
+                onChange={handleAnswerSelect}
+              />
             </div>
 
             <div className="flex justify-between pt-4">
@@ -130,7 +347,7 @@ const SurveyQuestion = ({
                 Cancel Survey
               </Button>
               <div className="space-x-2">
-                {currentQuestionIndex > 0 && (
+                {path.length > 1 && (
                   <Button
                     variant="outline"
                     onClick={handlePrevious}
@@ -140,7 +357,7 @@ const SurveyQuestion = ({
                 )}
               <Button
                 onClick={handleNext}
-                disabled={!selectedAnswer || isSubmitting}
+                disabled={!!validationError || isSubmitting}
                 className="bg-gradient-primary hover:opacity-90"
               >
                 {isSubmitting ? (
@@ -149,9 +366,9 @@ const SurveyQuestion = ({
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    {currentQuestionIndex === questions.length - 1 ? "Submitting..." : "Loading..."}
+                    {isLastQuestion ? "Submitting..." : "Loading..."}
                   </>
-                ) : currentQuestionIndex === questions.length - 1 ? "Complete Survey" : "Next"}
+                ) : nextStep.type === "complete" && lockedQuestionCount === 0 ? "Complete Survey" : isLastQuestion ? "Continue" : "Next"}
               </Button>
 
               </div>
@@ -10,6 +10,13 @@ import { useToast } from '@/hooks/use-toast';
 import { useSurveyData } from '@/hooks/useSurveyData';
 import { useReferral } from '../contexts/ReferralContext';
 import { supabase } from '../lib/supabaseClient';
+import {
+  getWithdrawals,
+  parseWithdrawalAmount,
+  requestWithdrawal,
+  Withdrawal,
+  WithdrawalStatus
+} from '@/lib/withdrawalService';
 
 interface WithdrawalContainerProps {
   className?: string;
@@ -21,16 +28,18 @@ const WithdrawalContainer: React.FC<WithdrawalContainerProps> = ({ className })
   });
   const [withdrawalAmount, setWithdrawalAmount] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
   const { toast } = useToast();
-  const { surveyData, getCurrentPlan } = useSurveyData();
+  const { surveyData, getCurrentPlan, refreshUserProgress } = useSurveyData();
   const { referralStats, getReferralCode, getReferralEarnings } = useReferral();
 
-  if (!surveyData) return null;
-
   const currentPlan = getCurrentPlan();
+  if (!surveyData || !currentPlan) return null;
+
   const userProgress = surveyData.userProgress;
   const availableBalance = userProgress.pendingEarnings;
-  const minimumWithdrawal = currentPlan?.minimumWithdrawal || 4500;
+  const minimumWithdrawal = currentPlan.minimumWithdrawal;
+  const amount = parseWithdrawalAmount(withdrawalAmount);
 
     const handleWithdrawal = async () => {
     if (!mpesaNumber.trim()) {
@@ -42,16 +51,16 @@ const WithdrawalContainer: React.FC<WithdrawalContainerProps> = ({ className })
       return;
     }
 
-    if (!withdrawalAmount || parseFloat(withdrawalAmount) <= 0) {
+    if (amount === null) {
       toast({
         title: "Invalid Amount",
-        description: "Please enter a valid withdrawal amount greater than zero",
+        description: "Please enter a whole number of shillings greater than zero",
         variant: "destructive",
       });
       return;
     }
 
-    if (parseFloat(withdrawalAmount) > availableBalance) {
+    if (amount > availableBalance) {
       toast({
         title: "Insufficient Balance",
         description: `You only have KSh ${availableBalance.toLocaleString()} available for withdrawal`,
@@ -60,8 +69,8 @@ const WithdrawalContainer: React.FC<WithdrawalContainerProps> = ({ className })
       return;
     }
 
-    if (parseFloat(withdrawalAmount) < minimumWithdrawal) {
-      const neededAmount = minimumWithdrawal - parseFloat(withdrawalAmount);
+    if (amount < minimumWithdrawal) {
+      const neededAmount = minimumWithdrawal - amount;
       toast({
         title: "Amount Below Minimum",
         description: `Your current plan requires a minimum of KSh ${minimumWithdrawal.toLocaleString()} to withdraw. You need KSh ${neededAmount.toLocaleString()} more to reach the minimum.`,
@@ -86,42 +95,19 @@ const WithdrawalContainer: React.FC<WithdrawalContainerProps> = ({ className })
     setIsProcessing(true);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // The server debits the balance and queues the request for admin approval;
+      // it rejects amounts above the real balance or below the plan's minimum
+      const { error: withdrawalError } = await requestWithdrawal(amount, cleanNumber);
+      if (withdrawalError) {
+        throw withdrawalError;
+      }
 
-      // Get user ID from localStorage (similar to useSurveyData hook)
-      const { data: { user } } = await supabase.auth.getUser();
-      const userId = user?.id || 'default';
-
-      // Save withdrawal request
-      const withdrawalRequest = {
-        id: Date.now().toString(),
-        amount: parseFloat(withdrawalAmount),
-        mpesaNumber: cleanNumber,
-        status: 'pending',
-        requestedAt: new Date().toISOString(),
-        planName: currentPlan?.planName || 'Unknown',
-      };
-
-      // Save to localStorage
-      const storageKey = `withdrawalRequests_${userId}`;
-      const existingRequests = JSON.parse(localStorage.getItem(storageKey) || '[]');
-      localStorage.setItem(storageKey, JSON.stringify([...existingRequests, withdrawalRequest]));
-
-      // Update user progress
-      const surveyStorageKey = `surveyData_${userId}`;
-      const updatedSurveyData = {
-        ...surveyData,
-        userProgress: {
-          ...surveyData.userProgress,
-          pendingEarnings: surveyData.userProgress.pendingEarnings - parseFloat(withdrawalAmount),
-        }
-      };
-      localStorage.setItem(surveyStorageKey, JSON.stringify(updatedSurveyData));
+      await refreshUserProgress();
+      setHistoryVersion(version => version + 1);
 
       toast({
         title: "Withdrawal Request Submitted",
-        description: `KSh ${withdrawalAmount} will be sent to ${cleanNumber} within 24 hours`,
+        description: `KSh ${amount.toLocaleString()} will be sent to ${cleanNumber} once it's approved, usually within 24 hours`,
       });
 
       // Reset form
@@ -129,9 +115,11 @@ const WithdrawalContainer: React.FC<WithdrawalContainerProps> = ({ className })
       setWithdrawalAmount('');
       
     } catch (error) {
+      // The server says why it turned the request down, e.g. the amount is below the
+      // plan's minimum or above the balance
       toast({
-        title: "Error",
-        description: "Failed to process withdrawal request. Please try again.",
+        title: "Withdrawal not submitted",
+        description: (error as Error).message || "Failed to process withdrawal request. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -245,6 +233,7 @@ const WithdrawalContainer: React.FC<WithdrawalContainerProps> = ({ className })
                   onChange={(e) => setWithdrawalAmount(e.target.value)}
                   min={0}
                   max={availableBalance}
+                  step={1}
                   disabled={isProcessing}
                   className="border-2 focus:border-primary text-sm md:text-base"
                 />
@@ -254,9 +243,11 @@ const WithdrawalContainer: React.FC<WithdrawalContainerProps> = ({ className })
                 </div>
                 {withdrawalAmount && (
                   <p className="text-xs mt-1">
-                    {parseFloat(withdrawalAmount) >= minimumWithdrawal && parseFloat(withdrawalAmount) <= availableBalance ? (
+                    {amount === null ? (
+                      <span className="text-destructive">Enter a whole number of shillings</span>
+                    ) : amount >= minimumWithdrawal && amount <= availableBalance ? (
                       <span className="text-success">✓ Valid withdrawal amount</span>
-                    ) : parseFloat(withdrawalAmount) > availableBalance ? (
+                    ) : amount > availableBalance ? (
                       <span className="text-destructive">Amount exceeds available balance</span>
                     ) : (
                       <span className="text-muted-foreground">Amount below minimum withdrawal</span>
@@ -325,7 +316,7 @@ const WithdrawalContainer: React.FC<WithdrawalContainerProps> = ({ className })
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Total Referrals:</span>
                   <span className="font-semibold text-primary">
-                    {referralStats.total_referrals}
+                    {referralStats?.total_referrals || 0}
                   </span>
                 </div>
               </div>
@@ -334,7 +325,7 @@ const WithdrawalContainer: React.FC<WithdrawalContainerProps> = ({ className })
             {/* Withdrawal History - Mobile Optimized */}
             <div className="border-t pt-3 md:pt-4 pb-3 md:pb-4 bg-background rounded-lg border p-3 md:p-4">
               <h4 className="font-medium mb-2 text-sm md:text-base">Recent Withdrawals</h4>
-              <WithdrawalHistory />
+              <WithdrawalHistory key={historyVersion} />
             </div>
           </div>
         </div>
@@ -391,25 +382,51 @@ const ReferralCodeSection: React.FC<{ referralCode: string }> = ({ referralCode
   );
 };
 
+const WITHDRAWAL_STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  pending: 'Pending approval',
+  approved: 'Approved',
+  processing: 'Sending',
+  paid: 'Paid',
+  rejected: 'Rejected',
+  failed: 'Payout failed',
+  timed_out: 'Sending'
+};
+
+const WITHDRAWAL_STATUS_VARIANTS: Record<WithdrawalStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  approved: 'secondary',
+  processing: 'secondary',
+  paid: 'default',
+  rejected: 'destructive',
+  failed: 'outline',
+  timed_out: 'secondary'
+};
+
 // Helper component for withdrawal history
 const WithdrawalHistory: React.FC = () => {
-  const [withdrawals, setWithdrawals] = useState<any[]>([]);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [loadFailed, setLoadFailed] = useState(false);
 
   useEffect(() => {
     const fetchUserAndWithdrawals = async () => {
       const { data: { user } } = await supabase.auth.getUser();
-      const userId = user?.id || 'default';
-      
-      const storageKey = `withdrawalRequests_${userId}`;
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        setWithdrawals(JSON.parse(stored).slice(-3));
+      if (!user) return;
+
+      const { data, error } = await getWithdrawals(user.id, 3);
+      if (error) {
+        console.error('Error fetching withdrawals:', error);
       }
+      setLoadFailed(!!error);
+      setWithdrawals(data);
     };
     
     fetchUserAndWithdrawals();
   }, []);
 
+  if (loadFailed) {
+    return <p className="text-sm text-destructive">Couldn't load your recent withdrawals</p>;
+  }
+
   if (withdrawals.length === 0) {
     return <p className="text-sm text-muted-foreground">No recent withdrawals</p>;
   }
@@ -417,14 +434,24 @@ const WithdrawalHistory: React.FC = () => {
   return (
     <div className="space-y-2">
       {withdrawals.map((withdrawal) => (
-        <div key={withdrawal.id} className="flex justify-between items-center text-sm">
-          <div>
-            <span className="font-medium">KSh {withdrawal.amount.toLocaleString()}</span>
-            <span className="text-muted-foreground ml-2">to {withdrawal.mpesaNumber}</span>
+        <div key={withdrawal.id} className="text-sm">
+          <div className="flex justify-between items-center">
+            <div>
+              <span className="font-medium">KSh {withdrawal.amount.toLocaleString()}</span>
+              <span className="text-muted-foreground ml-2">to {withdrawal.mpesa_number}</span>
+            </div>
+            <Badge variant={WITHDRAWAL_STATUS_VARIANTS[withdrawal.status]}>
+              {WITHDRAWAL_STATUS_LABELS[withdrawal.status]}
+            </Badge>
           </div>
-          <Badge variant={withdrawal.status === 'pending' ? 'secondary' : 'default'}>
-            {withdrawal.status}
-          </Badge>
+          {withdrawal.status === 'rejected' && withdrawal.rejection_reason && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {withdrawal.rejection_reason} — KSh {withdrawal.amount.toLocaleString()} returned to your balance
+            </p>
+          )}
+          {withdrawal.status === 'paid' && withdrawal.payout_reference && (
+            <p className="text-xs text-muted-foreground mt-1">M-Pesa receipt {withdrawal.payout_reference}</p>
+          )}
         </div>
       ))}
     </div>
@@ -1,10 +1,13 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { User } from '@supabase/supabase-js';
+import { getUserRole, roleAllows, UserRole } from '@/lib/roleService';
 
 interface AuthContextType {
   user: User | null;
+  role: UserRole;
   loading: boolean;
+  hasRole: (roles: UserRole[]) => boolean;
   signOut: () => Promise<void>;
 }
 
@@ -25,6 +28,9 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<UserRole>('user');
+  const [roleUserId, setRoleUserId] = useState<string | null>(null);
+  const userId = user?.id ?? null;
 
   useEffect(() => {
     // Check active sessions and sets the user
@@ -50,12 +56,45 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Load the role from the user's profile whenever a different user signs in
+  useEffect(() => {
+    if (!userId) {
+      setRole('user');
+      setRoleUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadRole = async () => {
+      const { data, error } = await getUserRole(userId);
+      if (error) {
+        console.error('Error fetching user role:', error);
+      }
+      if (!cancelled) {
+        setRole(data);
+        setRoleUserId(userId);
+      }
+    };
+
+    loadRole();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Still loading until the role belongs to the signed-in user, so guards never act on a stale role
+  const isLoading = loading || (userId !== null && roleUserId !== userId);
+
+  const hasRole = (roles: UserRole[]) => {
+    return !!user && roleUserId === userId && roleAllows(role, roles);
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, signOut }}>
+    <AuthContext.Provider value={{ user, role, loading: isLoading, hasRole, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,15 +1,31 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { 
-  getReferralStats, 
-  getReferrals, 
-  ReferralStats, 
-  Referral 
-} from '../lib/localReferralService';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  getReferralCommissions,
+  getReferralStats,
+  getReferrals,
+  ReferralCommission,
+  ReferralStats,
+  Referral
+} from '../lib/referralService';
+import {
+  getUnreadNotifications,
+  markNotificationsRead,
+  UserNotification
+} from '../lib/notificationService';
 
 interface ReferralContextType {
-  referralStats: ReferralStats;
+  // Null until the signed-in user's stats have loaded
+  referralStats: ReferralStats | null;
   referrals: Referral[];
-  refreshReferralData: () => void;
+  // What the user's referrals earned them, at every level
+  commissions: ReferralCommission[];
+  // Unread news about the user's referrals, e.g. ones that expired
+  notifications: UserNotification[];
+  loading: boolean;
+  error: Error | null;
+  refreshReferralData: () => Promise<void>;
+  dismissNotifications: () => Promise<void>;
   getReferralCode: () => string;
   getReferralEarnings: () => number;
 }
@@ -29,40 +45,83 @@ interface ReferralProviderProps {
 }
 
 export const ReferralProvider: React.FC<ReferralProviderProps> = ({ children }) => {
-  const [referralStats, setReferralStats] = useState<ReferralStats>(getReferralStats());
-  const [referrals, setReferrals] = useState<Referral[]>(getReferrals());
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [referralStats, setReferralStats] = useState<ReferralStats | null>(null);
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [commissions, setCommissions] = useState<ReferralCommission[]>([]);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
 
-  const refreshReferralData = () => {
-    setReferralStats(getReferralStats());
-    setReferrals(getReferrals());
-  };
+  const refreshReferralData = useCallback(async () => {
+    if (!userId) {
+      setReferralStats(null);
+      setReferrals([]);
+      setCommissions([]);
+      setNotifications([]);
+      return;
+    }
+
+    setLoading(true);
+    const [stats, list, earned] = await Promise.all([
+      getReferralStats(userId),
+      getReferrals(userId),
+      getReferralCommissions(userId)
+    ]);
+    const loadError = stats.error || list.error || earned.error;
+    if (loadError) {
+      console.error('Error loading referrals:', loadError);
+    }
+
+    setReferralStats(stats.data);
+    setReferrals(list.data);
+    setCommissions(earned.data);
+    setError(loadError || null);
+    setLoading(false);
+
+    // Notifications are extra; failing to load them shouldn't hide the referrals
+    const unread = await getUnreadNotifications(userId);
+    if (unread.error) {
+      console.error('Error loading notifications:', unread.error);
+    }
+    setNotifications(unread.data);
+  }, [userId]);
+
+  const dismissNotifications = useCallback(async () => {
+    if (notifications.length === 0) return;
+
+    const { error: markError } = await markNotificationsRead(notifications.map(notification => notification.id));
+    if (markError) {
+      console.error('Error dismissing notifications:', markError);
+      return;
+    }
+    setNotifications([]);
+  }, [notifications]);
 
   const getReferralCode = () => {
-    return referralStats.referral_code;
+    return referralStats?.referral_code || '';
   };
 
   const getReferralEarnings = () => {
-    return referralStats.total_earned;
+    return referralStats?.total_earned || 0;
   };
 
+  // Stats belong to the signed-in user, so reload whenever a different user signs in
   useEffect(() => {
-    // Refresh data on mount and when localStorage changes
     refreshReferralData();
-    
-    // Listen for storage changes (in case other tabs update the data)
-    const handleStorageChange = () => {
-      refreshReferralData();
-    };
-    
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+  }, [refreshReferralData]);
 
   return (
     <ReferralContext.Provider value={{
       referralStats,
       referrals,
+      commissions,
+      notifications,
+      loading,
+      error,
       refreshReferralData,
+      dismissNotifications,
       getReferralCode,
       getReferralEarnings
     }}>
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { getPlanConfig } from '@/lib/planConfigService';
+import { ReferralProgram } from './useSurveyData';
+
+// The referral rewards from the plan config, or null until they have loaded.
+// Works on signed-out pages too, unlike useSurveyData.
+export const useReferralProgram = () => {
+  const [program, setProgram] = useState<ReferralProgram | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPlanConfig().then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading referral program:', error);
+      }
+      setProgram(data?.referral ?? null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return program;
+};
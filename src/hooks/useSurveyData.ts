@@ -1,5 +1,27 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabaseClient';
+import { computeBalances, getLedgerEntries, LedgerEntry } from '@/lib/ledgerService';
+import {
+  getSurveyResponses,
+  submitSurveyResponse,
+  SurveyResponse,
+  SurveySubmission
+} from '@/lib/surveyResponseService';
+import { SurveyQuotaService } from '@/utils/surveyQuotaService';
+import { PlanTierService } from '@/utils/planTierService';
+import { SurveyAccessService } from '@/utils/surveyAccessService';
+import { SubscriptionService } from '@/utils/subscriptionService';
+import { getPublishedSurveys, toSurvey } from '@/lib/surveyCatalogService';
+import { PlanPayment, verifyPlanPaymentSms } from '@/lib/paymentService';
+import { findPlan, getPlanConfig } from '@/lib/planConfigService';
+import { validateData } from '@/lib/dataValidation';
+import { surveySchema } from '@/schemas/surveySchema';
+import { planProfileSchema } from '@/schemas/userProgressSchema';
+import {
+  getSurveyCompletions,
+  getCompletionStatus,
+  SurveyCompletion
+} from '@/lib/surveyCompletionService';
 
 export interface SurveyPlan {
   planName: string;
@@ -13,14 +35,52 @@ export interface SurveyPlan {
   features?: string[];
 }
 
-interface Question {
+export type QuestionType =
+  | 'multiple_choice'
+  | 'checkbox'
+  | 'likert'
+  | 'rating'
+  | 'nps'
+  | 'text'
+  | 'number'
+  | 'dropdown'
+  | 'ranking';
+
+export interface Question {
   id: string;
   question: string;
-  type: string;
+  type: QuestionType | string;
   options: string[];
   correctAnswer: string | null;
+  isFree?: boolean;
+  // Type-specific settings; each question type reads only the ones it needs
+  placeholder?: string;
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  minSelections?: number;
+  maxSelections?: number;
+  // Branching rules, checked in order after the question is answered
+  branching?: BranchRule[];
 }
 
+export type BranchAction = 'skip_to' | 'end_survey' | 'screen_out';
+
+export interface BranchRule {
+  // Option that triggers the rule; list answers match if they include it
+  answer: string;
+  action: BranchAction;
+  // Question id to jump to for skip_to
+  target?: string;
+  // Shown on the end or screen-out screen
+  message?: string;
+}
+
+// Multi-select and ranking questions answer with a list, everything else with a string
+export type AnswerValue = string | string[];
+export type SurveyAnswers = Record<string, AnswerValue>;
+
 export interface Survey {
   id: string;
   title: string;
@@ -31,14 +91,22 @@ export interface Survey {
   status: string;
   description: string;
   requiredPlan: string;
+  repeatable?: boolean;
+  cooldownDays?: number;
   questions?: Question[];
 }
 
 export interface UserProgress {
   currentPlan: string;
+  // End of the current paid period, or null if the user has never paid
+  planExpiresAt: string | null;
+  // Lower plan the user moves to when the current period ends
+  scheduledPlan: string | null;
   surveysCompletedToday: number;
   totalEarnings: number;
   pendingEarnings: number;
+  // Rewards held back while flagged responses are reviewed
+  underReviewEarnings: number;
   completedSurveys: string[];
   referrals: {
     totalReferrals: number;
@@ -47,18 +115,45 @@ export interface UserProgress {
   };
 }
 
+// Paid plans run for periodDays, then stay usable for graceDays before falling back
+// to the free plan. Reminders start reminderDays before expiry.
+export interface SubscriptionPolicy {
+  periodDays: number;
+  graceDays: number;
+  reminderDays: number;
+}
+
+// What a referral earns at one level of the referral chain
+export interface ReferralLevel {
+  signupBonus: number;
+  // Share of the referred user's survey rewards during their first earningsShareDays
+  surveyEarningsPercent: number;
+  // Paid once, when the referred user first buys a paid plan
+  upgradeBonus: number;
+}
+
+// Referral rewards. levels[0] is paid to the referrer and the optional levels[1]
+// to whoever referred them.
+export interface ReferralProgram {
+  refereeWelcomeBonus: number;
+  expiryDays: number;
+  earningsShareDays: number;
+  levels: ReferralLevel[];
+}
+
+// Shape of the plan config document in the plan_config table; planConfigSchema
+// validates it when it is loaded
 export interface PlanData {
+  version: number;
   visibility: boolean;
   surveyPlans: SurveyPlan[];
+  subscription: SubscriptionPolicy;
+  referral: ReferralProgram;
   mpesaPaymentDetails: {
     tillName: string;
     tillNumber: number;
   };
   moneyMaking: any[];
-  limits: {
-    withdrawal: Record<string, number>;
-    survey: Record<string, number>;
-  };
   currentPlan: {
     default: string;
     displayName: string;
@@ -71,158 +166,236 @@ export interface SurveyData {
   userProgress: UserProgress;
 }
 
+// Build the user's progress from their ledger; nothing here is stored client-side
+const deriveUserProgress = (
+  entries: LedgerEntry[],
+  responses: SurveyResponse[],
+  currentPlan: string,
+  planExpiresAt: string | null,
+  scheduledPlan: string | null,
+  referralCode: string
+): UserProgress => {
+  const balances = computeBalances(entries);
+  const surveyRewards = entries.filter(entry => entry.entry_type === 'survey_reward');
+  // One referral_reward per completed referral; commissions come on top of it
+  const referralRewards = entries.filter(entry => entry.entry_type === 'referral_reward');
+  const referralCommissions = entries.filter(entry => entry.entry_type === 'referral_commission');
+
+  return {
+    currentPlan,
+    planExpiresAt,
+    scheduledPlan,
+    // Held responses count towards the daily quota even though they aren't paid yet
+    surveysCompletedToday: SurveyQuotaService.countCompletedToday(
+      responses.map(response => response.submitted_at)
+    ),
+    totalEarnings: balances.totalEarned,
+    pendingEarnings: balances.availableBalance,
+    underReviewEarnings: responses
+      .filter(response => response.status === 'under_review')
+      .reduce((sum, response) => sum + (response.reward_amount || 0), 0),
+    completedSurveys: surveyRewards.map(entry => entry.reference_id || ''),
+    referrals: {
+      totalReferrals: referralRewards.length,
+      referralEarnings: [...referralRewards, ...referralCommissions].reduce((sum, entry) => sum + entry.amount, 0),
+      referralCode
+    }
+  };
+};
+
+// Fetch the user's plan, ledger, completions and responses, and derive their progress from them
+const fetchUserProgress = async (userId: string, defaultPlan: string, referralCode: string, plans: PlanData | null) => {
+  const [ledger, completions, responses, profile] = await Promise.all([
+    getLedgerEntries(userId),
+    getSurveyCompletions(userId),
+    getSurveyResponses(userId),
+    supabase.from('user_profiles').select('current_plan, plan_expires_at, scheduled_plan').eq('id', userId).single()
+  ]);
+
+  // Progress built from a ledger or history we couldn't read would show a zero
+  // balance and let finished surveys be taken again, so show the error instead
+  const loadError = ledger.error || completions.error || responses.error;
+  if (loadError) throw loadError;
+
+  // Don't guess a plan from a profile row we can't read
+  const { data: planProfile, error: profileError } = profile.data
+    ? validateData(planProfileSchema, profile.data, 'user profile')
+    : { data: null, error: null };
+  if (profileError) throw profileError;
+
+  const storedPlan: string = planProfile?.current_plan || defaultPlan;
+  const planExpiresAt: string | null = planProfile?.plan_expires_at ?? null;
+  const scheduledPlan: string | null = planProfile?.scheduled_plan ?? null;
+  const currentPlan = plans
+    ? SubscriptionService.getEffectivePlan(
+        storedPlan,
+        planExpiresAt,
+        scheduledPlan,
+        plans.currentPlan.default,
+        plans.subscription
+      )
+    : storedPlan;
+
+  return {
+    completions: completions.data,
+    responses: responses.data,
+    userProgress: deriveUserProgress(
+      ledger.data,
+      responses.data,
+      currentPlan,
+      planExpiresAt,
+      scheduledPlan,
+      referralCode
+    )
+  };
+};
+
+// Keep the surveys that pass validation; a broken survey is left out rather than
+// shown half-working
+const keepValidSurveys = (surveys: unknown[], source: string): Survey[] => {
+  return surveys.flatMap(survey => {
+    const { data, error } = validateData(surveySchema, survey, source);
+    if (error) {
+      console.warn('Skipping survey:', error.message);
+      return [];
+    }
+    return [data as Survey];
+  });
+};
+
+// Load the published surveys. The bundled ones are seeded into the surveys table
+// (npm run surveys:seed), so the server can price and check every submission.
+const fetchSurveyCatalogue = async () => {
+  const { data: published, error } = await getPublishedSurveys();
+  if (error) throw error;
+
+  return { surveys: keepValidSurveys(published.map(toSurvey), 'published survey') };
+};
+
 export const useSurveyData = () => {
   const [planData, setPlanData] = useState<PlanData | null>(null);
   const [surveyData, setSurveyData] = useState<SurveyData | null>(null);
   const [loading, setLoading] = useState(true);
   const [userId, setUserId] = useState<string | null>(null);
   const [verifiedPlan, setVerifiedPlan] = useState<string | null>(null);
+  const [completions, setCompletions] = useState<SurveyCompletion[]>([]);
+  const [responses, setResponses] = useState<SurveyResponse[]>([]);
+  // Why plans or surveys couldn't be loaded; pages show a degraded state instead of a blank screen
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
 
-  // Fetch plan data from centralized source
+  // Fetch the validated plan config
   const fetchPlanData = async () => {
-    try {
-      const response = await fetch('/plan.json');
-      if (!response.ok) throw new Error('Failed to fetch plan data');
-      const data = await response.json();
-      setPlanData(data);
-      return data;
-    } catch (error) {
+    const { data, error } = await getPlanConfig();
+    if (error) {
       console.error('Error fetching plan data:', error);
+      setLoadError(error);
       return null;
     }
+
+    setPlanData(data);
+    return data;
   };
 
   // Fetch user-specific survey data
-  const fetchSurveyData = async (userId: string) => {
+  const fetchSurveyData = async (userId: string, plans: PlanData | null) => {
     try {
-      const response = await fetch('/data/survey.json');
-      if (!response.ok) throw new Error('Failed to fetch survey data');
-      const data = await response.json();
-      
-      // Load user-specific data from localStorage
-      const storageKey = `surveyData_${userId}`;
-      const storedData = localStorage.getItem(storageKey);
-      
-      if (storedData) {
-        const userData = JSON.parse(storedData);
-        return { ...data, userProgress: userData.userProgress };
-      }
-      
-      return data;
+      const data = await fetchSurveyCatalogue();
+
+      const { completions, responses, userProgress } = await fetchUserProgress(
+        userId,
+        plans?.currentPlan?.default || "Starter",
+        '',
+        plans
+      );
+      setCompletions(completions);
+      setResponses(responses);
+      return { surveys: data.surveys, userProgress };
     } catch (error) {
       console.error('Error fetching survey data:', error);
+      setLoadError(error as Error);
       return null;
     }
   };
 
-  // Handle payment verification and plan upgrade
-  const verifyPaymentAndUpgradePlan = async (paymentAmount: number, transactionId: string) => {
-    if (!planData || !userId) return false;
-
-    // Find matching plan based on payment amount
-    const targetPlan = planData.surveyPlans.find(
-      plan => parseInt(plan.price) === paymentAmount
-    );
-
-    if (!targetPlan) {
-      console.error('No matching plan found for payment amount:', paymentAmount);
-      return false;
-    }
+  // Re-read the ledger after a balance change made elsewhere (e.g. a withdrawal)
+  const refreshUserProgress = async () => {
+    if (!userId || !surveyData) return;
 
+    let progress: Awaited<ReturnType<typeof fetchUserProgress>>;
     try {
-      // Update user plan in Supabase
-      const { data, error } = await supabase
-        .from('user_profiles')
-        .update({ 
-          current_plan: targetPlan.planName,
-          plan_updated_at: new Date().toISOString(),
-          last_payment_amount: paymentAmount,
-          last_payment_transaction_id: transactionId
-        })
-        .eq('id', userId);
-
-      if (error) {
-        console.error('Error updating plan in database:', error);
-        return false;
-      }
-
-      // Update local state
-      setSurveyData(prev => {
-        if (!prev) return null;
-        
-        const updatedData = {
-          ...prev,
-          userProgress: {
-            ...prev.userProgress,
-            currentPlan: targetPlan.planName
-          }
-        };
-
-        // Save to user-specific localStorage as backup
-        const storageKey = `surveyData_${userId}`;
-        localStorage.setItem(storageKey, JSON.stringify(updatedData));
-        
-        return updatedData;
-      });
-
-      setVerifiedPlan(targetPlan.planName);
-      
-      // Dispatch custom event for other components
-      window.dispatchEvent(new CustomEvent('plan-upgraded', {
-        detail: { newPlan: targetPlan.planName, amount: paymentAmount }
-      }));
-      
-      return true;
-      
+      progress = await fetchUserProgress(
+        userId,
+        surveyData.userProgress.currentPlan,
+        surveyData.userProgress.referrals.referralCode,
+        planData
+      );
     } catch (error) {
-      console.error('Failed to process plan upgrade:', error);
-      return false;
+      console.error('Error refreshing user progress:', error);
+      setLoadError(error as Error);
+      return;
     }
+
+    const { completions, responses, userProgress } = progress;
+    setCompletions(completions);
+    setResponses(responses);
+    setSurveyData(prev => prev ? { ...prev, userProgress } : prev);
+    return userProgress;
   };
 
-  // Initialize data on mount
+  // Load plans, surveys and the user's progress on mount, and again on reload
   useEffect(() => {
     const initializeData = async () => {
       setLoading(true);
-      
+      setLoadError(null);
+
       // Fetch plan data
       const plan = await fetchPlanData();
-      
+
       // Fetch user data
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
         setUserId(user.id);
-        const survey = await fetchSurveyData(user.id);
+        const survey = await fetchSurveyData(user.id, plan);
         setSurveyData(survey);
       } else {
         // Use fallback data for demo
-        const surveyResponse = await fetch('/data/survey.json');
-        const survey = await surveyResponse.json();
-        survey.userProgress = {
-          currentPlan: plan?.currentPlan?.default || "Starter",
-          surveysCompletedToday: 0,
-          totalEarnings: 0,
-          pendingEarnings: 0,
-          completedSurveys: [],
-          referrals: {
-            totalReferrals: 0,
-            referralEarnings: 0,
-            referralCode: "REF_DEMO123"
-          }
-        };
-        setSurveyData(survey);
+        try {
+          const { surveys } = await fetchSurveyCatalogue();
+          setSurveyData({
+            surveys,
+            userProgress: {
+              currentPlan: plan?.currentPlan?.default || "Starter",
+              planExpiresAt: null,
+              scheduledPlan: null,
+              surveysCompletedToday: 0,
+              totalEarnings: 0,
+              pendingEarnings: 0,
+              underReviewEarnings: 0,
+              completedSurveys: [],
+              referrals: {
+                totalReferrals: 0,
+                referralEarnings: 0,
+                referralCode: "REF_DEMO123"
+              }
+            }
+          });
+        } catch (error) {
+          console.error('Error fetching survey data:', error);
+          setLoadError(error as Error);
+        }
       }
-      
+
       setLoading(false);
     };
 
     initializeData();
-  }, []);
+  }, [loadAttempt]);
 
   // Handle real-time updates
   useEffect(() => {
     const handlePlanUpdate = (event: CustomEvent) => {
-      const { newPlan } = event.detail;
+      const { newPlan, planExpiresAt } = event.detail;
       if (newPlan && planData) {
         setSurveyData(prev => {
           if (!prev) return null;
@@ -230,7 +403,8 @@ export const useSurveyData = () => {
             ...prev,
             userProgress: {
               ...prev.userProgress,
-              currentPlan: newPlan
+              currentPlan: newPlan,
+              planExpiresAt: planExpiresAt ?? prev.userProgress.planExpiresAt
             }
           };
         });
@@ -243,103 +417,134 @@ export const useSurveyData = () => {
 
   const getCurrentPlan = () => {
     if (!planData || !surveyData) return null;
-    return planData.surveyPlans.find(
-      plan => plan.planName === surveyData.userProgress.currentPlan
+    return findPlan(planData, surveyData.userProgress.currentPlan);
+  };
+
+  // Where the user's paid plan is in its period, for renewal reminders
+  const getPlanSubscription = () => {
+    if (!planData?.subscription || !surveyData) return null;
+
+    // Users stepping down at the end of the period don't need renewal reminders
+    const { planExpiresAt, scheduledPlan } = surveyData.userProgress;
+    const expiresAt = scheduledPlan === planData.currentPlan.default ? null : planExpiresAt;
+    const status = SubscriptionService.getStatus(expiresAt, planData.subscription);
+    return scheduledPlan && status.state === 'expiring' ? { ...status, needsRenewal: false } : status;
+  };
+
+  // Today's quota is recomputed on every call so it rolls over at Nairobi midnight
+  const getSurveyQuota = () => {
+    const completedAt = responses.map(response => response.submitted_at);
+    return SurveyQuotaService.getQuota(completedAt, getCurrentPlan()?.dailySurvey || 0);
+  };
+
+  const canAccessSurvey = (survey: Survey) => {
+    if (!planData || !surveyData) return false;
+    return PlanTierService.hasAccess(
+      surveyData.userProgress.currentPlan,
+      survey.requiredPlan,
+      planData.surveyPlans
+    );
+  };
+
+  // Premium questions are open to any plan above the free tier
+  const hasPremiumAccess = () => {
+    const currentPlan = getCurrentPlan();
+    return !!currentPlan && parseFloat(currentPlan.price) > 0;
+  };
+
+  const getSurveyCompletionStatus = (survey: Survey) => {
+    return getCompletionStatus(
+      survey,
+      completions.find(completion => completion.survey_id === survey.id)
     );
   };
 
   const getAvailableSurveys = () => {
     if (!surveyData) return [];
-    return surveyData.surveys;
+    return surveyData.surveys.filter(
+      survey => canAccessSurvey(survey) && getSurveyCompletionStatus(survey).state === 'available'
+    );
+  };
+
+  // Surveys already taken that are either done for good or cooling down
+  const getCompletedSurveys = () => {
+    if (!surveyData) return [];
+    return surveyData.surveys.filter(
+      survey => canAccessSurvey(survey) && getSurveyCompletionStatus(survey).state !== 'available'
+    );
   };
 
-  const upgradePlan = async (newPlanName: string) => {
-    if (!planData || !surveyData || !userId) return false;
+  // Surveys above the user's tier, shown locked with an upgrade prompt
+  const getLockedSurveys = () => {
+    if (!surveyData) return [];
+    return surveyData.surveys.filter(survey => !canAccessSurvey(survey));
+  };
 
-    const targetPlan = planData.surveyPlans.find(plan => plan.planName === newPlanName);
-    if (!targetPlan) return false;
+  // Pick up a plan the server switched after a confirmed M-Pesa payment
+  const applyPaidPlan = async (payment: PlanPayment) => {
+    if (payment.status !== 'paid') return;
 
-    try {
-      // Update user plan in Supabase
-      const { error } = await supabase
-        .from('user_profiles')
-        .update({ 
-          current_plan: newPlanName,
-          plan_updated_at: new Date().toISOString()
-        })
-        .eq('id', userId);
-
-      if (error) {
-        console.error('Error updating plan in database:', error);
-        return false;
-      }
+    const userProgress = await refreshUserProgress();
+    setVerifiedPlan(payment.plan_name);
 
-      // Update local state
-      setSurveyData(prev => {
-        if (!prev) return null;
-        
-        const updatedData = {
-          ...prev,
-          userProgress: {
-            ...prev.userProgress,
-            currentPlan: newPlanName
-          }
-        };
-
-        const storageKey = `surveyData_${userId}`;
-        localStorage.setItem(storageKey, JSON.stringify(updatedData));
-        
-        return updatedData;
-      });
-
-      setVerifiedPlan(newPlanName);
-      
-      // Dispatch custom event for other components
-      window.dispatchEvent(new CustomEvent('plan-upgraded', {
-        detail: { newPlan: newPlanName }
-      }));
-      
-      return true;
-      
-    } catch (error) {
-      console.error('Failed to process plan upgrade:', error);
-      return false;
+    window.dispatchEvent(new CustomEvent('plan-upgraded', {
+      detail: { newPlan: payment.plan_name, amount: payment.amount, planExpiresAt: userProgress?.planExpiresAt }
+    }));
+  };
+
+  // Verify a pasted M-Pesa till payment SMS on the server, which records the payment
+  // and moves the user onto the plan
+  const verifyPaymentAndUpgradePlan = async (message: string, planName?: string) => {
+    const { data: payment, error } = await verifyPlanPaymentSms(message, planName);
+    if (payment?.status === 'paid') {
+      await applyPaidPlan(payment);
     }
+
+    return { payment, error };
   };
 
-  const completeSurvey = async (surveyId: string) => {
-    if (!surveyData || !userId) return false;
+  // Returns the stored response, whose status says whether the reward was credited
+  // or held for review. If the submission failed, error says why, e.g. the server
+  // turned it down because the daily quota is used up.
+  const completeSurvey = async (
+    surveyId: string,
+    submission: SurveySubmission
+  ): Promise<{ response: SurveyResponse | null; error: string | null }> => {
+    if (!surveyData || !userId) {
+      return { response: null, error: 'Your account is still loading. Please try again.' };
+    }
 
     try {
       const survey = surveyData.surveys.find(s => s.id === surveyId);
-      if (!survey) return false;
-
-      // Update user progress
-      setSurveyData(prev => {
-        if (!prev) return null;
-        
-        const updatedData = {
-          ...prev,
-          userProgress: {
-            ...prev.userProgress,
-            surveysCompletedToday: prev.userProgress.surveysCompletedToday + 1,
-            totalEarnings: prev.userProgress.totalEarnings + survey.reward,
-            pendingEarnings: prev.userProgress.pendingEarnings + survey.reward,
-            completedSurveys: [...prev.userProgress.completedSurveys, surveyId]
-          }
-        };
-
-        // Save to user-specific localStorage
-        const storageKey = `surveyData_${userId}`;
-        localStorage.setItem(storageKey, JSON.stringify(updatedData));
-        
-        return updatedData;
-      });
-
-      return true;
+      if (!survey) {
+        return { response: null, error: 'This survey is no longer available.' };
+      }
+
+      // Users are paid for the share of the survey they answered, so free-plan users
+      // who stop at the paywall get the free share. The server works the reward out
+      // again; this only saves a submission that would pay nothing.
+      const reward = SurveyAccessService.getSurveyReward(
+        survey,
+        submission.answers.map(answer => answer.questionId)
+      );
+      if (reward <= 0) {
+        return { response: null, error: 'None of your answers are to questions on your plan.' };
+      }
+
+      // Rushed or careless responses are held for review instead of being credited;
+      // the server runs the quality checks on the stored answers
+      const { data: response, error } = await submitSurveyResponse(surveyId, submission);
+      if (error || !response) {
+        console.error('Error submitting survey response:', error);
+        return { response: null, error: error?.message || "We couldn't save your answers. Please try again." };
+      }
+
+      // The server decides what was credited, so re-read the ledger rather than guess
+      await refreshUserProgress();
+      return { response, error: null };
     } catch (error) {
       console.error('Failed to complete survey:', error);
-      return false;
+      return { response: null, error: "We couldn't save your answers. Please try again." };
     }
   };
 
@@ -347,11 +552,21 @@ export const useSurveyData = () => {
     planData,
     surveyData,
     loading,
+    loadError,
+    reload: () => setLoadAttempt(attempt => attempt + 1),
     getCurrentPlan,
+    getPlanSubscription,
+    getSurveyQuota,
     getAvailableSurveys,
+    getLockedSurveys,
+    getCompletedSurveys,
+    getSurveyCompletionStatus,
+    canAccessSurvey,
+    hasPremiumAccess,
     completeSurvey,
     verifyPaymentAndUpgradePlan,
-    upgradePlan,
+    applyPaidPlan,
+    refreshUserProgress,
     verifiedPlan
   };
 };
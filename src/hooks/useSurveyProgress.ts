@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { AnswerTiming } from '@/lib/surveyResponseService';
+import { readStoredJson } from '@/lib/dataValidation';
+import { surveyCheckpointsSchema } from '@/schemas/userProgressSchema';
+import { SurveyAnswers } from './useSurveyData';
+
+// A saved point in an unfinished survey attempt. The path is stored as question
+// ids rather than indexes so it still lines up if the user's plan changes.
+export interface SurveyCheckpoint {
+  surveyId: string;
+  attemptId: string;
+  startedAt: string;
+  savedAt: string;
+  path: string[];
+  answers: SurveyAnswers;
+  timings: Record<string, AnswerTiming>;
+}
+
+const getStorageKey = (userId: string) => `surveyProgress_${userId}`;
+
+export const useSurveyProgress = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [checkpoints, setCheckpoints] = useState<Record<string, SurveyCheckpoint>>({});
+
+  useEffect(() => {
+    const loadCheckpoints = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setUserId(user.id);
+      setCheckpoints(readStoredJson(getStorageKey(user.id), surveyCheckpointsSchema, {}));
+    };
+    loadCheckpoints();
+  }, []);
+
+  const writeCheckpoints = (updated: Record<string, SurveyCheckpoint>) => {
+    setCheckpoints(updated);
+    if (userId) {
+      localStorage.setItem(getStorageKey(userId), JSON.stringify(updated));
+    }
+  };
+
+  const saveCheckpoint = (checkpoint: SurveyCheckpoint) => {
+    writeCheckpoints({ ...checkpoints, [checkpoint.surveyId]: checkpoint });
+  };
+
+  const clearCheckpoint = (surveyId: string) => {
+    if (!(surveyId in checkpoints)) return;
+    const { [surveyId]: _removed, ...rest } = checkpoints;
+    writeCheckpoints(rest);
+  };
+
+  const getCheckpoint = (surveyId: string): SurveyCheckpoint | undefined => {
+    return checkpoints[surveyId];
+  };
+
+  return {
+    checkpoints,
+    getCheckpoint,
+    saveCheckpoint,
+    clearCheckpoint
+  };
+};
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+// Raised when data from outside the app (a JSON file, a Supabase row, localStorage)
+// doesn't have the shape the app expects. source says where it came from.
+export class DataValidationError extends Error {
+  source: string;
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid ${source}: ${issues.join('; ')}`);
+    this.name = 'DataValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+// Turn zod issues into "path: message" strings
+export const formatIssues = (error: z.ZodError): string[] => {
+  return error.issues.map(issue => {
+    return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+  });
+};
+
+// Check a value against a schema, returning it typed or a DataValidationError
+export const validateData = <S extends z.ZodTypeAny>(schema: S, value: unknown, source: string) => {
+  const validation = schema.safeParse(value);
+  if (!validation.success) {
+    return { data: null, error: new DataValidationError(source, formatIssues(validation.error)) };
+  }
+
+  return { data: validation.data as z.infer<S>, error: null };
+};
+
+// Read a JSON blob from localStorage. Anything unreadable or the wrong shape is
+// dropped so one bad write can't keep breaking the page.
+export const readStoredJson = <T>(key: string, schema: z.ZodTypeAny, fallback: T): T => {
+  const stored = localStorage.getItem(key);
+  if (stored === null) return fallback;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(stored);
+  } catch {
+    value = undefined;
+  }
+
+  const { data, error } = validateData(schema, value, `localStorage "${key}"`);
+  if (error) {
+    console.warn(`Discarding stored data: ${error.message}`);
+    localStorage.removeItem(key);
+    return fallback;
+  }
+
+  return data as T;
+};
@@ -0,0 +1,26 @@
+// A hash of browser and device traits that stay the same across accounts on one
+// device. It is only a signal for spotting self-referrals, not an identifier: two
+// people on the same phone model and browser can share one. It is also computed in
+// the browser, so the server treats it as advisory (see record-signup-signals).
+// Null when it can't be computed.
+export const getDeviceFingerprint = async (): Promise<string | null> => {
+  try {
+    const traits = [
+      navigator.userAgent,
+      navigator.language,
+      navigator.platform,
+      navigator.hardwareConcurrency,
+      `${screen.width}x${screen.height}x${screen.colorDepth}`,
+      window.devicePixelRatio,
+      Intl.DateTimeFormat().resolvedOptions().timeZone
+    ].join('|');
+
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(traits));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  } catch {
+    // crypto.subtle is missing outside secure contexts; signup goes ahead without it
+    return null;
+  }
+};
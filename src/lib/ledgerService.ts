@@ -0,0 +1,78 @@
+import { supabase } from './supabaseClient';
+import { ledgerEntryListSchema } from '@/schemas/ledgerSchema';
+import { validateData } from './dataValidation';
+
+// Earnings ledger types
+// referral_reward is paid to the referrer, referral_bonus to the user they referred,
+// and referral_commission for everything else a referral earns (see referral_commissions)
+export type LedgerEntryType =
+  | 'survey_reward'
+  | 'referral_reward'
+  | 'referral_bonus'
+  | 'referral_commission'
+  | 'withdrawal'
+  | 'withdrawal_refund'
+  | 'reversal';
+
+export interface LedgerEntry {
+  id: string;
+  user_id: string;
+  entry_type: LedgerEntryType;
+  amount: number;
+  reference_id: string | null;
+  description: string | null;
+  created_at: string;
+}
+
+export interface LedgerBalances {
+  totalEarned: number;
+  totalWithdrawn: number;
+  availableBalance: number;
+}
+
+const CREDIT_ENTRY_TYPES: LedgerEntryType[] = ['survey_reward', 'referral_reward', 'referral_bonus', 'referral_commission'];
+
+// Amounts are stored positive; the entry type decides the direction
+export const isCreditEntry = (entry: LedgerEntry): boolean => {
+  return CREDIT_ENTRY_TYPES.includes(entry.entry_type);
+};
+
+// Compute balances from ledger entries
+export const computeBalances = (entries: LedgerEntry[]): LedgerBalances => {
+  let credits = 0;
+  let reversals = 0;
+  let withdrawals = 0;
+
+  for (const entry of entries) {
+    if (isCreditEntry(entry)) {
+      credits += entry.amount;
+    } else if (entry.entry_type === 'reversal') {
+      reversals += entry.amount;
+    } else if (entry.entry_type === 'withdrawal_refund') {
+      // A rejected withdrawal never left the account
+      withdrawals -= entry.amount;
+    } else {
+      withdrawals += entry.amount;
+    }
+  }
+
+  const totalEarned = credits - reversals;
+  return {
+    totalEarned,
+    totalWithdrawn: withdrawals,
+    availableBalance: totalEarned - withdrawals
+  };
+};
+
+// Get all ledger entries for a user, oldest first
+export const getLedgerEntries = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('earnings_ledger')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) return { data: [] as LedgerEntry[], error };
+
+  const validation = validateData(ledgerEntryListSchema, data || [], 'earnings ledger');
+  return { data: (validation.data || []) as LedgerEntry[], error: validation.error };
+};
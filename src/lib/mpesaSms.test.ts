@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { isPaymentToTill, parseMpesaSms } from './mpesaSms';
+
+// Confirmation messages as M-Pesa sends them, one per supported format
+const fixtures = {
+  buyGoodsByName:
+    'QFR3ABC123 Confirmed. Ksh250.00 paid to VEDACOM 4 SOLUTIONS. on 12/3/24 at 4:05 PM.New M-PESA balance is Ksh1,234.00. Transaction cost, Ksh0.00.',
+  buyGoodsByTill:
+    'QFR3ABC124 Confirmed. Ksh1,000.00 sent to Till Number 3566188 on 12/3/24 at 4:05 PM. New M-PESA balance is Ksh234.00. Transaction cost, Ksh0.00.',
+  paybill:
+    'QFR3ABC125 Confirmed. Ksh1,000.00 sent to KPLC PREPAID for account 12345678 on 12/3/24 at 4:05 PM New M-PESA balance is Ksh234.00. Transaction cost, Ksh23.00.',
+  sendMoney:
+    'QFR3ABC126 Confirmed. Ksh500.00 sent to JOHN DOE 0712345678 on 12/3/24 at 4:05 PM. New M-PESA balance is Ksh734.00. Transaction cost, Ksh7.00.',
+  received:
+    'QFR3ABC127 Confirmed.You have received Ksh500.00 from JOHN DOE 0712345678 on 12/3/24 at 4:05 PM New M-PESA balance is Ksh1,234.00.',
+  reversal:
+    'QFR3ABC128 Confirmed. Reversal of transaction QFR2XYZ789 has been successfully reversed on 12/3/24 at 4:05 PM and Ksh500.00 is credited to your M-PESA account. New M-PESA account balance is Ksh1,234.00.'
+};
+
+// Messages that are not payment confirmations, or are too mangled to trust
+const rejected = {
+  empty: '',
+  notMpesa: 'Hi, I have paid for the Gold plan, please upgrade my account',
+  shortReceipt: 'QFR3AB Confirmed. Ksh250.00 paid to VEDACOM 4 SOLUTIONS. on 12/3/24 at 4:05 PM.',
+  failed: 'Failed. You do not have enough money in your M-PESA account to pay Ksh250.00 to VEDACOM 4 SOLUTIONS.',
+  balanceQuery: 'QFR3ABC129 Confirmed. Your account balance was: M-PESA Account : Ksh1,234.00 on 12/3/24 at 4:05 PM.',
+  airtime: 'QFR3ABC130 confirmed.You bought Ksh50.00 of airtime on 12/3/24 at 4:05 PM.New M-PESA balance is Ksh1,184.00.',
+  noAmount: 'QFR3ABC131 Confirmed. paid to VEDACOM 4 SOLUTIONS. on 12/3/24 at 4:05 PM.'
+};
+
+describe('parseMpesaSms', () => {
+  it('reads a Buy Goods payment that names the merchant', () => {
+    expect(parseMpesaSms(fixtures.buyGoodsByName)).toEqual({
+      kind: 'buy_goods',
+      receipt: 'QFR3ABC123',
+      amount: 250,
+      counterparty: 'VEDACOM 4 SOLUTIONS',
+      phoneNumber: null,
+      tillNumber: null,
+      accountNumber: null,
+      reversedReceipt: null,
+      date: '12/3/24',
+      time: '4:05 PM',
+      transactedAt: '2024-03-12T16:05:00+03:00',
+      balance: 1234,
+      transactionCost: 0
+    });
+  });
+
+  it('reads a Buy Goods payment that names the till number', () => {
+    expect(parseMpesaSms(fixtures.buyGoodsByTill)).toMatchObject({
+      kind: 'buy_goods',
+      receipt: 'QFR3ABC124',
+      amount: 1000,
+      tillNumber: '3566188',
+      counterparty: null,
+      balance: 234
+    });
+  });
+
+  it('reads a Paybill payment', () => {
+    expect(parseMpesaSms(fixtures.paybill)).toMatchObject({
+      kind: 'paybill',
+      receipt: 'QFR3ABC125',
+      amount: 1000,
+      counterparty: 'KPLC PREPAID',
+      accountNumber: '12345678',
+      transactionCost: 23
+    });
+  });
+
+  it('reads money sent to a person', () => {
+    expect(parseMpesaSms(fixtures.sendMoney)).toMatchObject({
+      kind: 'send_money',
+      receipt: 'QFR3ABC126',
+      amount: 500,
+      counterparty: 'JOHN DOE',
+      phoneNumber: '0712345678',
+      transactionCost: 7
+    });
+  });
+
+  it('reads money received from a person', () => {
+    expect(parseMpesaSms(fixtures.received)).toMatchObject({
+      kind: 'received',
+      receipt: 'QFR3ABC127',
+      amount: 500,
+      counterparty: 'JOHN DOE',
+      phoneNumber: '0712345678',
+      balance: 1234
+    });
+  });
+
+  it('reads a reversal and the receipt it reversed', () => {
+    expect(parseMpesaSms(fixtures.reversal)).toMatchObject({
+      kind: 'reversal',
+      receipt: 'QFR3ABC128',
+      amount: 500,
+      reversedReceipt: 'QFR2XYZ789',
+      balance: 1234
+    });
+  });
+
+  it('upper-cases the receipt code and reads 24-hour times', () => {
+    const sms = parseMpesaSms(
+      'qfr3abc132 Confirmed. Ksh250.00 paid to VEDACOM 4 SOLUTIONS. on 5/11/2024 at 16:05. New M-PESA balance is Ksh10.00.'
+    );
+
+    expect(sms).toMatchObject({ receipt: 'QFR3ABC132', time: '16:05', transactedAt: '2024-11-05T16:05:00+03:00' });
+  });
+
+  it.each(Object.entries(rejected))('rejects a message that is not a supported confirmation (%s)', (_name, message) => {
+    expect(parseMpesaSms(message)).toBeNull();
+  });
+});
+
+describe('isPaymentToTill', () => {
+  const till = { tillName: 'Vedacom 4 Solutions', tillNumber: 3566188 };
+
+  it('accepts a payment naming the till by number', () => {
+    expect(isPaymentToTill(parseMpesaSms(fixtures.buyGoodsByTill)!, till)).toBe(true);
+  });
+
+  it('accepts a payment naming the till by name, in any case', () => {
+    expect(isPaymentToTill(parseMpesaSms(fixtures.buyGoodsByName)!, till)).toBe(true);
+  });
+
+  it('rejects a payment to another till', () => {
+    expect(isPaymentToTill(parseMpesaSms(fixtures.buyGoodsByTill)!, { ...till, tillNumber: 123456 })).toBe(false);
+    expect(isPaymentToTill(parseMpesaSms(fixtures.buyGoodsByName)!, { ...till, tillName: 'Other Shop' })).toBe(false);
+  });
+
+  it.each(['paybill', 'sendMoney', 'received', 'reversal'] as const)('rejects a %s message', (name) => {
+    expect(isPaymentToTill(parseMpesaSms(fixtures[name])!, till)).toBe(false);
+  });
+});
@@ -0,0 +1,3 @@
+// The M-Pesa SMS parser lives with the edge functions so the app and the server
+// read payment messages the same way
+export * from '../../supabase/functions/_shared/mpesaSms';
@@ -0,0 +1,38 @@
+import { supabase } from './supabaseClient';
+import { notificationListSchema } from '@/schemas/notificationSchema';
+import { validateData } from './dataValidation';
+
+// Notification types
+export type NotificationKind = 'referral_expired';
+
+// Written by scheduled jobs in the database, e.g. expire_referrals
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  kind: NotificationKind;
+  message: string;
+  // The row the notification is about, e.g. the referral that expired
+  reference_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Get a user's unread notifications, newest first
+export const getUnreadNotifications = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .is('read_at', null)
+    .order('created_at', { ascending: false });
+  if (error) return { data: [] as UserNotification[], error };
+
+  const validation = validateData(notificationListSchema, data || [], 'notifications');
+  return { data: (validation.data || []) as UserNotification[], error: validation.error };
+};
+
+// Mark the signed-in user's notifications as read
+export const markNotificationsRead = async (notificationIds: string[]) => {
+  const { error } = await supabase.rpc('mark_notifications_read', { p_ids: notificationIds });
+  return { error };
+};
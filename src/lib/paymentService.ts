@@ -0,0 +1,160 @@
+import { FunctionsError } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+
+// Plan payment types
+// credited: money arrived but was short of the amount due, so it became account credit
+export type PlanPaymentStatus = 'pending' | 'paid' | 'failed' | 'credited';
+
+// new: a fresh period; renewal: another period of the current plan;
+// upgrade: the prorated difference for the rest of the current period
+export type PlanChangeType = 'new' | 'renewal' | 'upgrade';
+
+export interface PlanQuote {
+  planName: string;
+  changeType: PlanChangeType;
+  planPrice: number;
+  price: number;
+  creditApplied: number;
+  amountDue: number;
+  periodEndsAt: string | null;
+}
+
+export interface PlanPayment {
+  id: string;
+  user_id: string;
+  plan_name: string;
+  amount: number;
+  phone_number: string | null;
+  method: 'stk_push' | 'sms' | 'credit';
+  gateway: string;
+  status: PlanPaymentStatus;
+  change_type: PlanChangeType;
+  price: number;
+  credit_applied: number;
+  period_ends_at: string | null;
+  checkout_request_id: string | null;
+  merchant_request_id: string | null;
+  mpesa_receipt: string | null;
+  result_code: number | null;
+  result_desc: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+// Customers have about a minute to answer the prompt before M-Pesa gives up
+const PAYMENT_POLL_INTERVAL_MS = 3000;
+const PAYMENT_POLL_TIMEOUT_MS = 90 * 1000;
+
+// Edge functions explain a refusal in the body of a non-2xx response; surface that
+// instead of the client's generic "non-2xx status code" message
+const readFunctionError = async (error: FunctionsError | null) => {
+  if (!error) return null;
+
+  const body = await error.context?.json?.().catch(() => null);
+  return body?.error ? new Error(body.error) : error;
+};
+
+// Price a plan change for the signed-in user, with proration and account credit.
+// quote is null when the change can't be bought, e.g. a downgrade mid-period.
+export const getPlanQuote = async (planName: string) => {
+  const { data, error } = await supabase.functions.invoke('plan-quote', {
+    body: { planName }
+  });
+
+  const quoteError = await readFunctionError(error);
+  return {
+    data: {
+      quote: (data?.quote ?? null) as PlanQuote | null,
+      creditBalance: (data?.creditBalance ?? 0) as number
+    },
+    error: quoteError
+  };
+};
+
+// Account credit the user can put towards a plan
+export const getPlanCreditBalance = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('plan_credits')
+    .select('amount')
+    .eq('user_id', userId);
+
+  return { data: (data || []).reduce((sum, entry) => sum + entry.amount, 0), error };
+};
+
+// Buy a plan change with account credit when it covers the whole amount due
+export const payPlanWithCredit = async (planName: string) => {
+  const { data, error } = await supabase.functions.invoke('pay-plan-with-credit', {
+    body: { planName }
+  });
+
+  return { data: (data?.payment ?? null) as PlanPayment | null, error: await readFunctionError(error) };
+};
+
+// Move to a lower plan when the current period ends, or cancel that with null
+export const schedulePlanChange = async (planName: string | null) => {
+  const { data, error } = await supabase.functions.invoke('schedule-plan-change', {
+    body: { planName }
+  });
+
+  return { data: (data?.profile ?? null) as { scheduled_plan: string | null } | null, error: await readFunctionError(error) };
+};
+
+// Send an M-Pesa STK Push for the amount due on a plan change; the user's plan
+// changes once they approve it
+export const initiatePlanPayment = async (planName: string, amount: number, phoneNumber: string) => {
+  const { data, error } = await supabase.functions.invoke('stk-push-initiate', {
+    body: { planName, amount, phoneNumber }
+  });
+
+  return { data: (data?.payment ?? null) as PlanPayment | null, error: await readFunctionError(error) };
+};
+
+// Verify a pasted M-Pesa confirmation SMS for a till payment. The server checks the
+// receipt against M-Pesa's own confirmation of the payment, checks the till and
+// amount, and rejects receipt codes that have already been used.
+export const verifyPlanPaymentSms = async (message: string, planName?: string) => {
+  const { data, error } = await supabase.functions.invoke('verify-mpesa-sms', {
+    body: { message, planName }
+  });
+
+  return { data: (data?.payment ?? null) as PlanPayment | null, error: await readFunctionError(error) };
+};
+
+// Get the latest state of a plan payment, checking with M-Pesa if it is still pending
+export const getPlanPaymentStatus = async (paymentId: string) => {
+  const { data, error } = await supabase.functions.invoke('stk-push-status', {
+    body: { paymentId }
+  });
+
+  return { data: (data?.payment ?? null) as PlanPayment | null, error };
+};
+
+// Poll a plan payment until it is paid or failed, or until the customer runs out of
+// time to answer. Resolves with the last state seen, which may still be pending.
+export const waitForPlanPayment = async (
+  paymentId: string,
+  onUpdate?: (payment: PlanPayment) => void,
+  signal?: AbortSignal
+): Promise<PlanPayment | null> => {
+  const deadline = Date.now() + PAYMENT_POLL_TIMEOUT_MS;
+  let latest: PlanPayment | null = null;
+
+  while (Date.now() < deadline && !signal?.aborted) {
+    await new Promise(resolve => setTimeout(resolve, PAYMENT_POLL_INTERVAL_MS));
+    if (signal?.aborted) break;
+
+    const { data, error } = await getPlanPaymentStatus(paymentId);
+    if (error) {
+      console.error('Error checking plan payment:', error);
+      continue;
+    }
+    if (data) {
+      latest = data;
+      onUpdate?.(data);
+      if (data.status !== 'pending') break;
+    }
+  }
+
+  return latest;
+};
@@ -0,0 +1,45 @@
+import { PlanData, SurveyPlan } from '@/hooks/useSurveyData';
+import { planConfigSchema } from '@/schemas/planSchema';
+import { supabase } from './supabaseClient';
+import { validateData } from './dataValidation';
+
+// The plan_config table holds the only plan config. The edge functions and the
+// database read the same row, so prices, limits, periods and referral rewards can't
+// drift between what the app shows and what the server enforces.
+
+// Every component that uses useSurveyData asks for the plans, so load them once per page
+let planConfigRequest: Promise<{ data: PlanData | null; error: Error | null }> | null = null;
+
+const loadPlanConfig = async () => {
+  const { data: row, error: loadError } = await supabase
+    .from('plan_config')
+    .select('document')
+    .single();
+
+  const { data, error } = loadError
+    ? { data: null, error: loadError }
+    : validateData(planConfigSchema, row.document, 'plan config');
+  if (error) {
+    // Let the next caller try again rather than caching the failure
+    planConfigRequest = null;
+    return { data: null, error };
+  }
+
+  return { data: data as PlanData, error: null };
+};
+
+// Get the validated plan config
+export const getPlanConfig = () => {
+  if (!planConfigRequest) {
+    planConfigRequest = loadPlanConfig();
+  }
+  return planConfigRequest;
+};
+
+// Look up a plan by name, falling back to the default (free) plan for unknown names
+export const findPlan = (config: PlanData, planName: string): SurveyPlan => {
+  return (
+    config.surveyPlans.find(plan => plan.planName === planName) ||
+    config.surveyPlans.find(plan => plan.planName === config.currentPlan.default)!
+  );
+};
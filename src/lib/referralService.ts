@@ -1,124 +1,196 @@
 import { supabase } from './supabaseClient';
+import {
+  referralCommissionListSchema,
+  referralListSchema,
+  referralSchema,
+  referralStatsSchema
+} from '@/schemas/referralSchema';
+import { validateData } from './dataValidation';
+
+// Referral types
+// flagged referrals wait for an admin to approve (back to pending) or reject them
+export type ReferralStatus = 'pending' | 'flagged' | 'completed' | 'rejected' | 'expired';
+
+export interface Referral {
+  id: string;
+  referrer_id: string;
+  referred_email: string;
+  referral_code: string;
+  status: ReferralStatus;
+  reward_amount: number;
+  // Set once the invited person signs up, whether by invite or by code
+  referred_user_id: string | null;
+  referee_reward_amount: number;
+  signed_up_at: string | null;
+  // Why the referral was flagged, e.g. "shared_device"
+  fraud_reasons: string[];
+  reviewed_at: string | null;
+  review_note: string | null;
+  expired_at: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
 
-export interface ReferralData {
-  referrerId: string;
-  referredEmail: string;
-  referralCode: string;
-  rewardAmount?: number;
+// Counters are kept in step with the referrals table by the database
+export interface ReferralStats {
+  total_referrals: number;
+  completed_referrals: number;
+  pending_referrals: number;
+  total_earned: number;
+  referral_code: string;
 }
 
-export class ReferralService {
-  /**
-   * Process referral code after user signup
-   */
-  static async processReferralCode(userId: string, email: string, referralCode?: string): Promise<void> {
-    if (!referralCode) return;
-
-    try {
-      // Validate referral code exists
-      const { data: referrerData, error: referrerError } = await supabase
-        .from('user_referral_stats')
-        .select('user_id')
-        .eq('referral_code', referralCode)
-        .single();
-
-      if (referrerError || !referrerData) {
-        console.warn('Invalid referral code:', referralCode);
-        return;
-      }
-
-      // Check if email already referred
-      const { data: existingReferral } = await supabase
-        .from('referrals')
-        .select('id')
-        .eq('referred_email', email)
-        .single();
-
-      if (existingReferral) {
-        console.log('Email already referred:', email);
-        return;
-      }
-
-      // Create referral record
-      const { error: insertError } = await supabase
-        .from('referrals')
-        .insert({
-          referrer_id: referrerData.user_id,
-          referred_email: email,
-          referral_code: referralCode,
-          reward_amount: 50,
-          status: 'pending'
-        });
-
-      if (insertError) {
-        console.error('Error creating referral:', insertError);
-        return;
-      }
-
-      // Update referrer stats
-      await supabase
-        .from('user_referral_stats')
-        .update({ 
-          total_referrals: supabase.sql`total_referrals + 1`,
-          pending_referrals: supabase.sql`pending_referrals + 1`
-        })
-        .eq('user_id', referrerData.user_id);
-
-      console.log('Referral processed successfully:', { userId: userId, referralCode });
-    } catch (error) {
-      console.error('Error processing referral:', error);
-    }
-  }
+// One payment a referral earned the user. Level 1 commissions come from people
+// the user referred, level 2 from people those users referred.
+export interface ReferralCommission {
+  id: string;
+  referral_id: string;
+  // The referred user's email, masked at level 2
+  referee_label: string;
+  level: number;
+  kind: 'signup_bonus' | 'survey_share' | 'upgrade_bonus';
+  amount: number;
+  created_at: string;
+}
 
-  /**
-   * Get user's referral stats
-   */
-  static async getReferralStats(userId: string) {
-    const { data, error } = await supabase
-      .from('user_referral_stats')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
-
-    if (error) {
-      console.error('Error getting referral stats:', error);
-      return null;
-    }
-
-    return data;
+// When a pending referral will expire: its clock starts at signup, or at the
+// invite for people who haven't signed up yet. expiryDays is "referral.expiryDays"
+// in the plan config.
+export const getReferralExpiryDate = (referral: Referral, expiryDays: number): Date => {
+  const start = new Date(referral.signed_up_at || referral.created_at);
+  return new Date(start.getTime() + expiryDays * 24 * 60 * 60 * 1000);
+};
+
+// What each fraud check in assess_referral means, for the admin review list
+export const FRAUD_REASON_LABELS: Record<string, string> = {
+  same_email: 'Same email as the referrer',
+  same_phone: 'Same phone number as the referrer',
+  disposable_email: 'Disposable email address',
+  shared_device: 'Signed up on a device the referrer or their referrals used (as reported by the browser)',
+  shared_ip: 'Signed up from an IP address the referrer or their referrals used',
+  signup_burst: 'Part of a burst of signups under one code'
+};
+
+// Get a user's referral code and counters
+export const getReferralStats = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_referral_stats')
+    .select('total_referrals, completed_referrals, pending_referrals, total_earned, referral_code')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) return { data: null, error };
+  if (!data) return { data: null, error: null };
+
+  const validation = validateData(referralStatsSchema, data, 'referral stats');
+  return { data: validation.data as ReferralStats | null, error: validation.error };
+};
+
+// Get the referrals a user has made, newest first
+export const getReferrals = async (userId: string, limit?: number) => {
+  let query = supabase
+    .from('referrals')
+    .select('*')
+    .eq('referrer_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (limit) {
+    query = query.limit(limit);
   }
 
-  /**
-   * Get user's referrals
-   */
-  static async getReferrals(userId: string, limit: number = 10) {
-    const { data, error } = await supabase
-      .from('referrals')
-      .select('*')
-      .eq('referrer_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(limit);
-
-    if (error) {
-      console.error('Error getting referrals:', error);
-      return [];
-    }
-
-    return data || [];
-  }
+  const { data, error } = await query;
+  if (error) return { data: [] as Referral[], error };
 
-  /**
-   * Check if user can send more referrals today
-   */
-  static async canSendMoreReferrals(userId: string): Promise<boolean> {
-    const today = new Date().toISOString().split('T')[0];
-    const { count } = await supabase
-      .from('referrals')
-      .select('*', { count: 'exact', head: true })
-      .eq('referrer_id', userId)
-      .gte('created_at', `${today}T00:00:00`)
-      .lt('created_at', `${today}T23:59:59`);
-
-    return (count || 0) < 10;
+  const validation = validateData(referralListSchema, data || [], 'referrals');
+  return { data: (validation.data || []) as Referral[], error: validation.error };
+};
+
+// Get what a user's referrals have earned them, newest first
+export const getReferralCommissions = async (userId: string, limit?: number) => {
+  let query = supabase
+    .from('referral_commissions')
+    .select('id, referral_id, referee_label, level, kind, amount, created_at')
+    .eq('beneficiary_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (limit) {
+    query = query.limit(limit);
   }
-}
+
+  const { data, error } = await query;
+  if (error) return { data: [] as ReferralCommission[], error };
+
+  const validation = validateData(referralCommissionListSchema, data || [], 'referral commissions');
+  return { data: (validation.data || []) as ReferralCommission[], error: validation.error };
+};
+
+// Get the referral that brought a user in, if they were referred
+export const getReferredBy = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('referrals')
+    .select('*')
+    .eq('referred_user_id', userId)
+    .maybeSingle();
+
+  if (error) return { data: null, error };
+  if (!data) return { data: null, error: null };
+
+  const validation = validateData(referralSchema, data, 'referral');
+  return { data: validation.data as Referral | null, error: validation.error };
+};
+
+// Invite someone by email under the signed-in user's code. The server checks the
+// email, the daily limit and duplicates, and its message says which one failed.
+export const sendReferral = async (email: string) => {
+  const { data, error } = await supabase.rpc('create_referral', { p_email: email });
+  return { data: data as Referral | null, error };
+};
+
+// Link the signed-in user to the owner of a referral code. Both are paid when the
+// user's first survey is credited. Claiming the same code again is a no-op.
+export const claimReferral = async (code: string) => {
+  const { data, error } = await supabase.rpc('claim_referral', { p_referral_code: code });
+  return { data: data as Referral | null, error };
+};
+
+// Record the device the signed-in user signed up on. The edge function adds their
+// IP address and rechecks their referral.
+export const recordSignupSignals = async (deviceFingerprint: string | null) => {
+  const { error } = await supabase.functions.invoke('record-signup-signals', {
+    body: { deviceFingerprint }
+  });
+
+  return { error };
+};
+
+// Get referrals in the given states for the admin review list, oldest first
+export const getReferralQueue = async (statuses: ReferralStatus[]) => {
+  const { data, error } = await supabase
+    .from('referrals')
+    .select('*')
+    .in('status', statuses)
+    .order('created_at', { ascending: true });
+  if (error) return { data: [] as Referral[], error };
+
+  const validation = validateData(referralListSchema, data || [], 'referral queue');
+  return { data: (validation.data || []) as Referral[], error: validation.error };
+};
+
+// Clear a flagged referral so it pays out (admins only)
+export const approveReferral = async (referralId: string) => {
+  const { data, error } = await supabase.rpc('approve_referral', {
+    p_referral_id: referralId
+  });
+
+  return { data: data as Referral | null, error };
+};
+
+// Reject a flagged referral so it is never paid (admins only)
+export const rejectReferral = async (referralId: string, reason: string) => {
+  const { data, error } = await supabase.rpc('reject_referral', {
+    p_referral_id: referralId,
+    p_reason: reason
+  });
+
+  return { data: data as Referral | null, error };
+};
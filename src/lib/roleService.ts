@@ -0,0 +1,33 @@
+import { supabase } from './supabaseClient';
+
+// Role types
+export type UserRole = 'user' | 'admin' | 'reviewer' | 'support';
+
+export const USER_ROLES: UserRole[] = ['user', 'admin', 'reviewer', 'support'];
+
+// Get the role stored on a user's profile, falling back to a plain user
+export const getUserRole = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', userId)
+    .single();
+
+  const role = USER_ROLES.includes(data?.role) ? (data.role as UserRole) : 'user';
+  return { data: role, error };
+};
+
+// Whether a role is allowed through, mirroring public.has_role(): admins pass every check
+export const roleAllows = (role: UserRole, allowed: UserRole[]) => {
+  return role === 'admin' || allowed.includes(role);
+};
+
+// Assign a role to a user (admins only)
+export const setUserRole = async (userId: string, role: UserRole) => {
+  const { data, error } = await supabase.rpc('set_user_role', {
+    p_user_id: userId,
+    p_role: role
+  });
+
+  return { data, error };
+};
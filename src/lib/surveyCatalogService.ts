@@ -0,0 +1,117 @@
+import { supabase } from './supabaseClient';
+import { Question, Survey } from '@/hooks/useSurveyData';
+
+// Survey catalogue types
+export type SurveyPublishStatus = 'draft' | 'published' | 'archived';
+
+export interface SurveyRecord {
+  id: string;
+  title: string;
+  description: string;
+  reward: number;
+  duration: string;
+  category: string;
+  difficulty: string;
+  required_plan: string;
+  repeatable: boolean;
+  cooldown_days: number | null;
+  questions: Question[];
+  status: SurveyPublishStatus;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  published_at: string | null;
+}
+
+// Convert a stored survey into the shape the survey runner uses
+export const toSurvey = (record: SurveyRecord): Survey => {
+  return {
+    id: record.id,
+    title: record.title,
+    reward: record.reward,
+    duration: record.duration,
+    category: record.category,
+    difficulty: record.difficulty,
+    status: 'available',
+    description: record.description,
+    requiredPlan: record.required_plan,
+    repeatable: record.repeatable,
+    cooldownDays: record.cooldown_days ?? undefined,
+    questions: record.questions
+  };
+};
+
+// Convert an edited survey into a row for the surveys table
+const toRecord = (survey: Survey) => {
+  return {
+    id: survey.id,
+    title: survey.title,
+    description: survey.description,
+    reward: survey.reward,
+    duration: survey.duration,
+    category: survey.category,
+    difficulty: survey.difficulty,
+    required_plan: survey.requiredPlan,
+    repeatable: !!survey.repeatable,
+    cooldown_days: survey.repeatable ? survey.cooldownDays ?? 0 : null,
+    questions: survey.questions || []
+  };
+};
+
+// Get the surveys that are live for users. The published_surveys view leaves out
+// the attention-check answers, which only admins can read.
+export const getPublishedSurveys = async () => {
+  const { data, error } = await supabase
+    .from('published_surveys')
+    .select('*')
+    .order('published_at', { ascending: true });
+
+  return { data: (data || []) as SurveyRecord[], error };
+};
+
+// Get every survey, including drafts and archived ones (admins only)
+export const getAllSurveys = async () => {
+  const { data, error } = await supabase
+    .from('surveys')
+    .select('*')
+    .order('updated_at', { ascending: false });
+
+  return { data: (data || []) as SurveyRecord[], error };
+};
+
+// Get a single survey by id (admins see drafts too)
+export const getSurveyRecord = async (surveyId: string) => {
+  const { data, error } = await supabase
+    .from('surveys')
+    .select('*')
+    .eq('id', surveyId)
+    .single();
+
+  return { data: data as SurveyRecord | null, error };
+};
+
+// Create or update a survey, keeping its publish status unless one is given
+export const saveSurvey = async (survey: Survey, status?: SurveyPublishStatus) => {
+  const { data, error } = await supabase
+    .from('surveys')
+    .upsert({
+      ...toRecord(survey),
+      ...(status ? { status } : {})
+    })
+    .select()
+    .single();
+
+  return { data: data as SurveyRecord | null, error };
+};
+
+// Publish, unpublish or archive a survey
+export const setSurveyStatus = async (surveyId: string, status: SurveyPublishStatus) => {
+  const { data, error } = await supabase
+    .from('surveys')
+    .update({ status })
+    .eq('id', surveyId)
+    .select()
+    .single();
+
+  return { data: data as SurveyRecord | null, error };
+};
@@ -0,0 +1,62 @@
+import { supabase } from './supabaseClient';
+import { Survey } from '@/hooks/useSurveyData';
+import { surveyCompletionListSchema } from '@/schemas/surveyResponseSchema';
+import { validateData } from './dataValidation';
+
+// Survey completion types
+export interface SurveyCompletion {
+  user_id: string;
+  survey_id: string;
+  completion_count: number;
+  first_completed_at: string;
+  last_completed_at: string;
+}
+
+export type SurveyCompletionState = 'available' | 'completed' | 'cooldown';
+
+export interface SurveyCompletionStatus {
+  state: SurveyCompletionState;
+  availableAgainAt?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Get every survey the user has completed at least once
+export const getSurveyCompletions = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('survey_completions')
+    .select('*')
+    .eq('user_id', userId);
+  if (error) return { data: [] as SurveyCompletion[], error };
+
+  const validation = validateData(surveyCompletionListSchema, data || [], 'survey completions');
+  return { data: (validation.data || []) as SurveyCompletion[], error: validation.error };
+};
+
+// Days a survey must rest before it can be retaken, or null if it can only be taken once
+export const getCooldownDays = (survey: Survey): number | null => {
+  return survey.repeatable ? survey.cooldownDays || 0 : null;
+};
+
+// Work out whether a survey can be taken again
+export const getCompletionStatus = (
+  survey: Survey,
+  completion: SurveyCompletion | undefined,
+  now: Date = new Date()
+): SurveyCompletionStatus => {
+  if (!completion) {
+    return { state: 'available' };
+  }
+
+  const cooldownDays = getCooldownDays(survey);
+  if (cooldownDays === null) {
+    return { state: 'completed' };
+  }
+
+  const availableAgainAt = new Date(
+    new Date(completion.last_completed_at).getTime() + cooldownDays * DAY_MS
+  );
+  return availableAgainAt > now
+    ? { state: 'cooldown', availableAgainAt }
+    : { state: 'available' };
+};
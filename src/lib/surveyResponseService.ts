@@ -0,0 +1,151 @@
+import { supabase } from './supabaseClient';
+import { AnswerValue } from '@/hooks/useSurveyData';
+import { surveyResponseAnswerListSchema, surveyResponseListSchema } from '@/schemas/surveyResponseSchema';
+import { validateData } from './dataValidation';
+
+// Survey response types
+export interface AnswerTiming {
+  answeredAt: string;
+  timeSpentMs: number;
+}
+
+export interface ResponseAnswer extends AnswerTiming {
+  questionId: string;
+  answer: AnswerValue;
+}
+
+// What the survey runner hands over when a survey is submitted
+export interface SurveySubmission {
+  attemptId: string;
+  answers: ResponseAnswer[];
+}
+
+export interface SurveyResponseAnswer {
+  id: string;
+  response_id: string;
+  question_id: string;
+  answer: AnswerValue;
+  answered_at: string;
+  time_spent_ms: number;
+}
+
+export type SurveyResponseStatus = 'credited' | 'under_review' | 'rejected';
+export type QualityFlag = 'speeding' | 'straight_lining' | 'failed_attention_check';
+
+export interface SurveyResponse {
+  id: string;
+  attempt_id: string;
+  user_id: string;
+  survey_id: string;
+  ledger_entry_id: string | null;
+  status: SurveyResponseStatus;
+  quality_flags: QualityFlag[];
+  reward_amount: number | null;
+  started_at: string;
+  submitted_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  review_note: string | null;
+  survey_response_answers?: SurveyResponseAnswer[];
+}
+
+// What each quality check in assess_response_quality means, for the review list
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  speeding: 'Answered much faster than the survey takes',
+  straight_lining: 'Picked the same option on every scale question',
+  failed_attention_check: 'Failed an attention check'
+};
+
+// Each time a survey is opened it gets a new attempt id
+export const createAttemptId = (): string => {
+  return crypto.randomUUID();
+};
+
+// Tell the server an attempt was opened, so its speeding check can time the attempt
+// by the server's clock. Opening a resumed attempt again keeps its original start.
+export const startSurveyAttempt = async (surveyId: string, attemptId: string) => {
+  const { error } = await supabase.rpc('start_survey_attempt', {
+    p_attempt_id: attemptId,
+    p_survey_id: surveyId
+  });
+
+  return { error };
+};
+
+// Store the answers and credit the reward, or hold it for review if the response
+// was flagged; resubmitting the same attempt returns the stored response. The server
+// works out the reward and checks the plan and daily quota itself.
+export const submitSurveyResponse = async (
+  surveyId: string,
+  submission: SurveySubmission
+) => {
+  const { data, error } = await supabase.rpc('submit_survey_response', {
+    p_attempt_id: submission.attemptId,
+    p_survey_id: surveyId,
+    p_answers: submission.answers.map(answer => ({
+      question_id: answer.questionId,
+      answer: answer.answer,
+      answered_at: answer.answeredAt,
+      time_spent_ms: Math.round(answer.timeSpentMs)
+    }))
+  });
+
+  return { data: data as SurveyResponse | null, error };
+};
+
+// Get a user's responses, newest first
+export const getSurveyResponses = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('survey_responses')
+    .select('*')
+    .eq('user_id', userId)
+    .order('submitted_at', { ascending: false });
+  if (error) return { data: [] as SurveyResponse[], error };
+
+  const validation = validateData(surveyResponseListSchema, data || [], 'survey responses');
+  return { data: (validation.data || []) as SurveyResponse[], error: validation.error };
+};
+
+// Get the answers stored for a response
+export const getResponseAnswers = async (responseId: string) => {
+  const { data, error } = await supabase
+    .from('survey_response_answers')
+    .select('*')
+    .eq('response_id', responseId);
+  if (error) return { data: [] as SurveyResponseAnswer[], error };
+
+  const validation = validateData(surveyResponseAnswerListSchema, data || [], 'survey response answers');
+  return { data: (validation.data || []) as SurveyResponseAnswer[], error: validation.error };
+};
+
+// Get responses in the given states, with their answers, for the review list, oldest first
+export const getResponseReviewQueue = async (statuses: SurveyResponseStatus[]) => {
+  const { data, error } = await supabase
+    .from('survey_responses')
+    .select('*, survey_response_answers(*)')
+    .in('status', statuses)
+    .order('submitted_at', { ascending: true });
+  if (error) return { data: [] as SurveyResponse[], error };
+
+  const validation = validateData(surveyResponseListSchema, data || [], 'survey response queue');
+  return { data: (validation.data || []) as SurveyResponse[], error: validation.error };
+};
+
+// Pay a held response after review (reviewers and admins only)
+export const approveSurveyResponse = async (responseId: string) => {
+  const { data, error } = await supabase.rpc('approve_survey_response', {
+    p_response_id: responseId
+  });
+
+  return { data: data as SurveyResponse | null, error };
+};
+
+// Reject a held response so its reward is never paid (reviewers and admins only)
+export const rejectSurveyResponse = async (responseId: string, reason: string) => {
+  const { data, error } = await supabase.rpc('reject_survey_response', {
+    p_response_id: responseId,
+    p_reason: reason
+  });
+
+  return { data: data as SurveyResponse | null, error };
+};
@@ -0,0 +1,135 @@
+import { supabase } from './supabaseClient';
+import { withdrawalListSchema } from '@/schemas/withdrawalSchema';
+import { validateData } from './dataValidation';
+
+// Withdrawal types
+// 'timed_out': the payout provider lost track of the payout, so it may have been sent
+export type WithdrawalStatus = 'pending' | 'approved' | 'processing' | 'paid' | 'rejected' | 'failed' | 'timed_out';
+
+export interface Withdrawal {
+  id: string;
+  user_id: string;
+  amount: number;
+  mpesa_number: string;
+  status: WithdrawalStatus;
+  ledger_entry_id: string | null;
+  refund_entry_id: string | null;
+  rejection_reason: string | null;
+  payout_provider: string | null;
+  payout_reference: string | null;
+  payout_message: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Normalise 07XXXXXXXX, 7XXXXXXXX and 2547XXXXXXXX to the 254 form M-Pesa expects
+export const normalizeMpesaNumber = (value: string): string => {
+  const clean = value.replace(/\D/g, '');
+  if (clean.startsWith('254')) return clean;
+  if (clean.startsWith('0')) return `254${clean.substring(1)}`;
+  return `254${clean}`;
+};
+
+// Read a withdrawal amount typed by the user. Withdrawals are in whole shillings,
+// so anything else (decimals, exponents, signs) gives null.
+export const parseWithdrawalAmount = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+
+  const amount = Number(trimmed);
+  return Number.isSafeInteger(amount) && amount > 0 ? amount : null;
+};
+
+// Request a withdrawal for the signed-in user; the amount is debited straight away
+export const requestWithdrawal = async (amount: number, mpesaNumber: string) => {
+  const { data, error } = await supabase.rpc('request_withdrawal', {
+    p_amount: amount,
+    p_mpesa_number: normalizeMpesaNumber(mpesaNumber)
+  });
+
+  return { data: data as Withdrawal | null, error };
+};
+
+// Get a user's withdrawals, newest first
+export const getWithdrawals = async (userId: string, limit?: number) => {
+  let query = supabase
+    .from('withdrawals')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (limit) {
+    query = query.limit(limit);
+  }
+
+  const { data, error } = await query;
+  if (error) return { data: [] as Withdrawal[], error };
+
+  const validation = validateData(withdrawalListSchema, data || [], 'withdrawals');
+  return { data: (validation.data || []) as Withdrawal[], error: validation.error };
+};
+
+// Get withdrawals in the given states for the admin queue, oldest first
+export const getWithdrawalQueue = async (statuses: WithdrawalStatus[]) => {
+  const { data, error } = await supabase
+    .from('withdrawals')
+    .select('*')
+    .in('status', statuses)
+    .order('created_at', { ascending: true });
+  if (error) return { data: [] as Withdrawal[], error };
+
+  const validation = validateData(withdrawalListSchema, data || [], 'withdrawal queue');
+  return { data: (validation.data || []) as Withdrawal[], error: validation.error };
+};
+
+// Approve a pending withdrawal (admins only)
+export const approveWithdrawal = async (withdrawalId: string) => {
+  const { data, error } = await supabase.rpc('approve_withdrawal', {
+    p_withdrawal_id: withdrawalId
+  });
+
+  return { data: data as Withdrawal | null, error };
+};
+
+// Reject a withdrawal and refund the user (admins only)
+export const rejectWithdrawal = async (withdrawalId: string, reason: string) => {
+  const { data, error } = await supabase.rpc('reject_withdrawal', {
+    p_withdrawal_id: withdrawalId,
+    p_reason: reason
+  });
+
+  return { data: data as Withdrawal | null, error };
+};
+
+// Record a payout that was sent by hand, using its M-Pesa receipt (admins only)
+export const markWithdrawalPaid = async (withdrawalId: string, receipt: string) => {
+  const { data, error } = await supabase.rpc('mark_withdrawal_paid', {
+    p_withdrawal_id: withdrawalId,
+    p_receipt: receipt
+  });
+
+  return { data: data as Withdrawal | null, error };
+};
+
+// Send an approved withdrawal through the configured payout provider (admins only).
+// Daraja credentials live in the edge function, never in the browser.
+export const sendWithdrawalPayout = async (withdrawalId: string) => {
+  const { data, error } = await supabase.functions.invoke('send-withdrawal-payout', {
+    body: { withdrawalId }
+  });
+
+  return { data: (data?.withdrawal ?? null) as Withdrawal | null, error };
+};
+
+// Ask the payout provider how a timed-out withdrawal ended (admins only). The answer
+// usually arrives later, so the withdrawal may still be timed out when this returns.
+export const checkWithdrawalPayout = async (withdrawalId: string) => {
+  const { data, error } = await supabase.functions.invoke('check-withdrawal-payout', {
+    body: { withdrawalId }
+  });
+
+  return { data: (data?.withdrawal ?? null) as Withdrawal | null, error };
+};
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { Check, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  approveReferral,
+  FRAUD_REASON_LABELS,
+  getReferralQueue,
+  rejectReferral,
+  Referral,
+  ReferralStatus
+} from "@/lib/referralService";
+import Sidebar from "@/components/Sidebar";
+import Header from "@/components/Header";
+
+type ReviewTab = "flagged" | "rejected";
+
+const TAB_STATUSES: Record<ReviewTab, ReferralStatus[]> = {
+  flagged: ["flagged"],
+  rejected: ["rejected"]
+};
+
+const AdminReferralsPage = () => {
+  const { toast } = useToast();
+  const [tab, setTab] = useState<ReviewTab>("flagged");
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<Referral | null>(null);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      setLoading(true);
+      const { data, error } = await getReferralQueue(TAB_STATUSES[tab]);
+      if (error) {
+        console.error("Error loading referrals:", error);
+        toast({
+          title: "Couldn't load referrals",
+          description: error.message,
+          variant: "destructive"
+        });
+      }
+      setReferrals(data);
+      setLoading(false);
+    };
+    loadQueue();
+  }, [tab, toast]);
+
+  // Run a review action and drop the referral from the list once it has moved on
+  const runAction = async (
+    referral: Referral,
+    action: () => Promise<{ data: Referral | null; error: { message: string } | null }>,
+    successTitle: string
+  ) => {
+    setBusyId(referral.id);
+    const { data, error } = await action();
+    setBusyId(null);
+
+    if (error || !data) {
+      toast({
+        title: "Action failed",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    setReferrals(prev => prev.filter(existing => existing.id !== data.id));
+    toast({
+      title: successTitle,
+      description: data.status === "completed"
+        ? `KSh ${data.reward_amount} paid to the referrer`
+        : data.referred_email
+    });
+    return true;
+  };
+
+  const openRejectDialog = (referral: Referral) => {
+    setReason("");
+    setRejecting(referral);
+  };
+
+  const handleRejectConfirm = async () => {
+    if (!rejecting || !reason.trim()) return;
+
+    const referral = rejecting;
+    const done = await runAction(referral, () => rejectReferral(referral.id, reason.trim()), "Referral rejected");
+    if (done) {
+      setRejecting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-survey">
+      <Header />
+      <Sidebar />
+
+      <main className="flex-1 p-4 md:p-6 lg:p-8 md:ml-[240px] mt-12 md:mt-16">
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">Referral Review</h1>
+          <p className="text-muted-foreground">Referrals held back by the fraud checks wait here instead of being paid</p>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as ReviewTab)} className="mb-4">
+          <TabsList>
+            <TabsTrigger value="flagged">Flagged</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : referrals.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Nothing here</CardTitle>
+              <CardDescription>No referrals in this list right now.</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {referrals.map((referral) => (
+              <Card key={referral.id}>
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-semibold">{referral.referred_email}</span>
+                      <span className="text-muted-foreground">code {referral.referral_code}</span>
+                      <Badge
+                        variant={referral.status === "rejected" ? "destructive" : "secondary"}
+                        className="capitalize"
+                      >
+                        {referral.status}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Signed up {new Date(referral.signed_up_at || referral.created_at).toLocaleString()} · referrer {referral.referrer_id.slice(0, 8)}
+                    </p>
+                    {referral.fraud_reasons.length > 0 && (
+                      <ul className="text-xs text-muted-foreground mt-1 list-disc list-inside">
+                        {referral.fraud_reasons.map((fraudReason) => (
+                          <li key={fraudReason}>{FRAUD_REASON_LABELS[fraudReason] || fraudReason}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {referral.review_note && (
+                      <p className="text-xs text-muted-foreground mt-1">Reason: {referral.review_note}</p>
+                    )}
+                  </div>
+
+                  {referral.status === "flagged" && (
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        disabled={busyId === referral.id}
+                        onClick={() => runAction(referral, () => approveReferral(referral.id), "Referral approved")}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === referral.id}
+                        onClick={() => openRejectDialog(referral)}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject referral</DialogTitle>
+              <DialogDescription>
+                Neither the referrer nor the referred user will be paid for this referral.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-1">
+              <Label htmlFor="referral-reject-reason">Reason</Label>
+              <Textarea
+                id="referral-reject-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+              <Button
+                variant="destructive"
+                disabled={!reason.trim() || busyId === rejecting?.id}
+                onClick={handleRejectConfirm}
+              >
+                Reject
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  );
+};
+
+export default AdminReferralsPage;
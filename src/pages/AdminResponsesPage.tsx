@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { Check, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AnswerValue } from "@/hooks/useSurveyData";
+import { getPublishedSurveys, SurveyRecord } from "@/lib/surveyCatalogService";
+import {
+  approveSurveyResponse,
+  getResponseReviewQueue,
+  QUALITY_FLAG_LABELS,
+  rejectSurveyResponse,
+  SurveyResponse,
+  SurveyResponseStatus
+} from "@/lib/surveyResponseService";
+import Sidebar from "@/components/Sidebar";
+import Header from "@/components/Header";
+
+type ReviewTab = "under_review" | "rejected";
+
+const TAB_STATUSES: Record<ReviewTab, SurveyResponseStatus[]> = {
+  under_review: ["under_review"],
+  rejected: ["rejected"]
+};
+
+const formatAnswer = (answer: AnswerValue) => {
+  return Array.isArray(answer) ? answer.join(", ") : String(answer);
+};
+
+const AdminResponsesPage = () => {
+  const { toast } = useToast();
+  const [tab, setTab] = useState<ReviewTab>("under_review");
+  const [responses, setResponses] = useState<SurveyResponse[]>([]);
+  const [surveys, setSurveys] = useState<Record<string, SurveyRecord>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<SurveyResponse | null>(null);
+  const [reason, setReason] = useState("");
+
+  // Survey titles and question text; a response to an archived survey shows its id instead
+  useEffect(() => {
+    const loadSurveys = async () => {
+      const { data } = await getPublishedSurveys();
+      setSurveys(Object.fromEntries(data.map(survey => [survey.id, survey])));
+    };
+    loadSurveys();
+  }, []);
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      setLoading(true);
+      const { data, error } = await getResponseReviewQueue(TAB_STATUSES[tab]);
+      if (error) {
+        console.error("Error loading survey responses:", error);
+        toast({
+          title: "Couldn't load survey responses",
+          description: error.message,
+          variant: "destructive"
+        });
+      }
+      setResponses(data);
+      setLoading(false);
+    };
+    loadQueue();
+  }, [tab, toast]);
+
+  // Run a review action and drop the response from the list once it has moved on
+  const runAction = async (
+    response: SurveyResponse,
+    action: () => Promise<{ data: SurveyResponse | null; error: { message: string } | null }>,
+    successTitle: string
+  ) => {
+    setBusyId(response.id);
+    const { data, error } = await action();
+    setBusyId(null);
+
+    if (error || !data) {
+      toast({
+        title: "Action failed",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    setResponses(prev => prev.filter(existing => existing.id !== data.id));
+    toast({
+      title: successTitle,
+      description: data.status === "credited"
+        ? `KSh ${data.reward_amount} paid to the user`
+        : surveys[data.survey_id]?.title || data.survey_id
+    });
+    return true;
+  };
+
+  const openRejectDialog = (response: SurveyResponse) => {
+    setReason("");
+    setRejecting(response);
+  };
+
+  const handleRejectConfirm = async () => {
+    if (!rejecting || !reason.trim()) return;
+
+    const response = rejecting;
+    const done = await runAction(response, () => rejectSurveyResponse(response.id, reason.trim()), "Response rejected");
+    if (done) {
+      setRejecting(null);
+    }
+  };
+
+  const getQuestionText = (surveyId: string, questionId: string) => {
+    const question = surveys[surveyId]?.questions.find(q => q.id === questionId);
+    return question?.question || questionId;
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-survey">
+      <Header />
+      <Sidebar />
+
+      <main className="flex-1 p-4 md:p-6 lg:p-8 md:ml-[240px] mt-12 md:mt-16">
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">Response Review</h1>
+          <p className="text-muted-foreground">Survey responses held back by the quality checks wait here instead of being paid</p>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as ReviewTab)} className="mb-4">
+          <TabsList>
+            <TabsTrigger value="under_review">Under review</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : responses.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Nothing here</CardTitle>
+              <CardDescription>No survey responses in this list right now.</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {responses.map((response) => {
+              const answers = response.survey_response_answers || [];
+              // Timed by the server, from when the attempt was opened to when it was submitted
+              const secondsSpent = Math.round(
+                (new Date(response.submitted_at).getTime() - new Date(response.started_at).getTime()) / 1000
+              );
+
+              return (
+                <Card key={response.id}>
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-semibold">{surveys[response.survey_id]?.title || response.survey_id}</span>
+                          <span className="text-muted-foreground">KSh {response.reward_amount ?? 0}</span>
+                          <Badge
+                            variant={response.status === "rejected" ? "destructive" : "secondary"}
+                            className="capitalize"
+                          >
+                            {response.status.replace("_", " ")}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Submitted {new Date(response.submitted_at).toLocaleString()} · user {response.user_id.slice(0, 8)} · {answers.length} answers in {secondsSpent}s
+                        </p>
+                        {response.quality_flags.length > 0 && (
+                          <ul className="text-xs text-muted-foreground mt-1 list-disc list-inside">
+                            {response.quality_flags.map((flag) => (
+                              <li key={flag}>{QUALITY_FLAG_LABELS[flag] || flag}</li>
+                            ))}
+                          </ul>
+                        )}
+                        {response.review_note && (
+                          <p className="text-xs text-muted-foreground mt-1">Reason: {response.review_note}</p>
+                        )}
+                      </div>
+
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setExpandedId(expandedId === response.id ? null : response.id)}
+                        >
+                          {expandedId === response.id ? "Hide answers" : "Show answers"}
+                        </Button>
+                        {response.status === "under_review" && (
+                          <>
+                            <Button
+                              size="sm"
+                              disabled={busyId === response.id}
+                              onClick={() => runAction(response, () => approveSurveyResponse(response.id), "Response approved")}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busyId === response.id}
+                              onClick={() => openRejectDialog(response)}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {expandedId === response.id && (
+                      <ol className="text-sm space-y-1 list-decimal list-inside">
+                        {answers.map((answer) => (
+                          <li key={answer.id}>
+                            <span className="text-muted-foreground">{getQuestionText(response.survey_id, answer.question_id)}</span>
+                            {" "}{formatAnswer(answer.answer)}
+                            <span className="text-xs text-muted-foreground"> ({Math.round(answer.time_spent_ms / 1000)}s)</span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject response</DialogTitle>
+              <DialogDescription>
+                The user won't be paid for this response. The survey still counts as taken.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-1">
+              <Label htmlFor="response-reject-reason">Reason</Label>
+              <Textarea
+                id="response-reject-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+              <Button
+                variant="destructive"
+                disabled={!reason.trim() || busyId === rejecting?.id}
+                onClick={handleRejectConfirm}
+              >
+                Reject
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  );
+};
+
+export default AdminResponsesPage;
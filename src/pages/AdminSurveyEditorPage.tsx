@@ -0,0 +1,349 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { AlertCircle, ArrowLeft, Eye, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSurveyData, Question, Survey } from "@/hooks/useSurveyData";
+import { getSurveyRecord, saveSurvey, toSurvey, SurveyPublishStatus } from "@/lib/surveyCatalogService";
+import { formatSurveyIssues, surveySchema } from "@/schemas/surveySchema";
+import QuestionEditor from "@/components/QuestionEditor";
+import SurveyQuestion from "@/components/SurveyQuestion";
+import Sidebar from "@/components/Sidebar";
+import Header from "@/components/Header";
+
+const DIFFICULTIES = ["Easy", "Medium", "Hard"];
+
+const createEmptySurvey = (): Survey => ({
+  id: `survey_${Date.now().toString(36)}`,
+  title: "",
+  reward: 50,
+  duration: "5 minutes",
+  category: "",
+  difficulty: "Easy",
+  status: "available",
+  description: "",
+  requiredPlan: "Starter",
+  questions: []
+});
+
+// Question ids only need to be unique within a survey, so number them q1, q2, ...
+const createQuestion = (questions: Question[]): Question => {
+  const highest = questions.reduce((max, question) => {
+    const number = parseInt(question.id.replace(/^q/, ""), 10);
+    return Number.isNaN(number) ? max : Math.max(max, number);
+  }, 0);
+
+  return {
+    id: `q${highest + 1}`,
+    question: "",
+    type: "multiple_choice",
+    options: [],
+    correctAnswer: null,
+    isFree: true
+  };
+};
+
+const AdminSurveyEditorPage = () => {
+  const { surveyId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { planData } = useSurveyData();
+  const [survey, setSurvey] = useState<Survey>(createEmptySurvey);
+  const [publishStatus, setPublishStatus] = useState<SurveyPublishStatus>("draft");
+  const [loading, setLoading] = useState(!!surveyId);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+
+  useEffect(() => {
+    if (!surveyId) return;
+
+    const loadSurvey = async () => {
+      const { data, error } = await getSurveyRecord(surveyId);
+      if (error || !data) {
+        console.error("Error loading survey:", error);
+        toast({
+          title: "Survey not found",
+          description: "It may have been removed or you may not have access.",
+          variant: "destructive"
+        });
+        navigate("/admin/surveys");
+        return;
+      }
+
+      setSurvey(toSurvey(data));
+      setPublishStatus(data.status);
+      setLoading(false);
+    };
+    loadSurvey();
+  }, [surveyId, navigate, toast]);
+
+  const validation = surveySchema.safeParse(survey);
+  const issues = validation.success ? [] : formatSurveyIssues(validation.error);
+  const questions = survey.questions || [];
+
+  const update = (changes: Partial<Survey>) => {
+    setSurvey(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateQuestion = (index: number, question: Question) => {
+    update({ questions: questions.map((existing, i) => (i === index ? question : existing)) });
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+
+    const reordered = [...questions];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    update({ questions: reordered });
+  };
+
+  const handleSave = async (status?: SurveyPublishStatus) => {
+    // Drafts may be incomplete, but nothing goes live until it passes validation
+    if (status === "published" && issues.length > 0) {
+      toast({
+        title: "Survey can't be published yet",
+        description: issues[0],
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await saveSurvey(survey, status);
+      if (error || !data) {
+        toast({
+          title: "Save failed",
+          description: error?.message || "Please check the survey and try again.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setPublishStatus(data.status);
+      toast({
+        title: status === "published" ? "Survey published" : "Survey saved",
+        description: status === "published"
+          ? "It's now live for users on the required plan."
+          : "Your changes have been saved."
+      });
+      if (!surveyId) {
+        navigate(`/admin/surveys/${data.id}`, { replace: true });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (showPreview) {
+    return (
+      <div className="min-h-screen w-full bg-survey py-8">
+        <p className="text-center text-sm text-muted-foreground mb-2">
+          Preview — answers are not saved and no reward is paid
+        </p>
+        <SurveyQuestion
+          questions={questions}
+          surveyId={survey.id}
+          reward={survey.reward}
+          title={survey.title}
+          duration={survey.duration}
+          hasPremiumAccess
+          onComplete={() => {
+            setShowPreview(false);
+            toast({ title: "Preview finished", description: "That's what users will see." });
+          }}
+          onCancel={() => setShowPreview(false)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-survey">
+      <Header />
+      <Sidebar />
+
+      <main className="flex-1 p-4 md:p-6 lg:p-8 md:ml-[240px] mt-12 md:mt-16">
+        <Button variant="ghost" size="sm" className="mb-4" onClick={() => navigate("/admin/surveys")}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All surveys
+        </Button>
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl md:text-3xl font-bold">{survey.title || "New survey"}</h1>
+            <Badge variant={publishStatus === "published" ? "default" : "secondary"} className="capitalize">
+              {publishStatus}
+            </Badge>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setShowPreview(true)} disabled={issues.length > 0}>
+              <Eye className="h-4 w-4 mr-1" />
+              Preview
+            </Button>
+            <Button variant="outline" onClick={() => handleSave()} disabled={isSaving || loading}>
+              {publishStatus === "published" ? "Save changes" : "Save draft"}
+            </Button>
+            {publishStatus !== "published" && (
+              <Button
+                className="bg-gradient-primary hover:opacity-90"
+                onClick={() => handleSave("published")}
+                disabled={isSaving || loading}
+              >
+                Publish
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {issues.length > 0 && (
+              <Card className="border-destructive/50">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4 text-destructive" />
+                    Fix these before publishing
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                    {issues.map((issue, index) => (
+                      <li key={index}>{issue}</li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Survey details</CardTitle>
+                <CardDescription>What users see in the survey list</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1">
+                  <Label htmlFor="survey-title">Title</Label>
+                  <Input id="survey-title" value={survey.title} onChange={(e) => update({ title: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="survey-description">Description</Label>
+                  <Textarea
+                    id="survey-description"
+                    value={survey.description}
+                    onChange={(e) => update({ description: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="survey-reward">Reward (KSh)</Label>
+                    <Input
+                      id="survey-reward"
+                      type="number"
+                      value={survey.reward}
+                      onChange={(e) => update({ reward: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="survey-duration">Duration</Label>
+                    <Input
+                      id="survey-duration"
+                      placeholder="8 minutes"
+                      value={survey.duration}
+                      onChange={(e) => update({ duration: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="survey-category">Category</Label>
+                    <Input
+                      id="survey-category"
+                      value={survey.category}
+                      onChange={(e) => update({ category: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Difficulty</Label>
+                    <Select value={survey.difficulty} onValueChange={(difficulty) => update({ difficulty })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DIFFICULTIES.map((difficulty) => (
+                          <SelectItem key={difficulty} value={difficulty}>{difficulty}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Required plan</Label>
+                    <Select value={survey.requiredPlan} onValueChange={(requiredPlan) => update({ requiredPlan })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(planData?.surveyPlans || []).map((plan) => (
+                          <SelectItem key={plan.planName} value={plan.planName}>{plan.planName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 h-5">
+                      <Switch
+                        id="survey-repeatable"
+                        checked={!!survey.repeatable}
+                        onCheckedChange={(repeatable) => update({ repeatable })}
+                      />
+                      <Label htmlFor="survey-repeatable">Repeatable</Label>
+                    </div>
+                    {survey.repeatable && (
+                      <Input
+                        type="number"
+                        placeholder="Cooldown in days"
+                        value={survey.cooldownDays ?? ""}
+                        onChange={(e) => update({
+                          cooldownDays: e.target.value === "" ? undefined : Number(e.target.value)
+                        })}
+                      />
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {questions.map((question, index) => (
+              <QuestionEditor
+                key={question.id}
+                question={question}
+                index={index}
+                questions={questions}
+                onChange={(updated) => updateQuestion(index, updated)}
+                onRemove={() => update({ questions: questions.filter((_, i) => i !== index) })}
+                onMove={(direction) => moveQuestion(index, direction)}
+              />
+            ))}
+
+            <Button variant="outline" onClick={() => update({ questions: [...questions, createQuestion(questions)] })}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add question
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminSurveyEditorPage;
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Archive, Pencil, Plus, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { getAllSurveys, setSurveyStatus, toSurvey, SurveyPublishStatus, SurveyRecord } from "@/lib/surveyCatalogService";
+import { formatSurveyIssues, surveySchema } from "@/schemas/surveySchema";
+import Sidebar from "@/components/Sidebar";
+import Header from "@/components/Header";
+
+const STATUS_VARIANTS: Record<SurveyPublishStatus, "default" | "secondary" | "outline"> = {
+  published: "default",
+  draft: "secondary",
+  archived: "outline"
+};
+
+const AdminSurveysPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [surveys, setSurveys] = useState<SurveyRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSurveys = async () => {
+      const { data, error } = await getAllSurveys();
+      if (error) {
+        console.error("Error loading surveys:", error);
+        toast({
+          title: "Couldn't load surveys",
+          description: error.message,
+          variant: "destructive"
+        });
+      }
+      setSurveys(data);
+      setLoading(false);
+    };
+    loadSurveys();
+  }, [toast]);
+
+  const handleStatusChange = async (record: SurveyRecord, status: SurveyPublishStatus) => {
+    if (status === "published") {
+      const validation = surveySchema.safeParse(toSurvey(record));
+      if (!validation.success) {
+        toast({
+          title: "Survey can't be published yet",
+          description: formatSurveyIssues(validation.error)[0],
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    setUpdatingId(record.id);
+    const { data, error } = await setSurveyStatus(record.id, status);
+    setUpdatingId(null);
+
+    if (error || !data) {
+      toast({
+        title: "Update failed",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSurveys(prev => prev.map(survey => (survey.id === data.id ? data : survey)));
+    toast({
+      title: status === "published" ? "Survey published" : status === "archived" ? "Survey archived" : "Survey moved to drafts"
+    });
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-survey">
+      <Header />
+      <Sidebar />
+
+      <main className="flex-1 p-4 md:p-6 lg:p-8 md:ml-[240px] mt-12 md:mt-16">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold mb-2">Survey Admin</h1>
+            <p className="text-muted-foreground">Create, publish and archive surveys</p>
+          </div>
+          <Button className="bg-gradient-primary hover:opacity-90" onClick={() => navigate("/admin/surveys/new")}>
+            <Plus className="h-4 w-4 mr-1" />
+            New survey
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : surveys.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>No surveys yet</CardTitle>
+              <CardDescription>
+                Surveys bundled with the app are still shown to users. Surveys you publish here are added alongside them.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {surveys.map((survey) => (
+              <Card key={survey.id}>
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      <h2 className="font-semibold">{survey.title || "Untitled survey"}</h2>
+                      <Badge variant={STATUS_VARIANTS[survey.status]} className="capitalize">
+                        {survey.status}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      KSh {survey.reward} · {survey.questions.length} questions · {survey.required_plan} plan ·
+                      updated {new Date(survey.updated_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => navigate(`/admin/surveys/${survey.id}`)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    {survey.status !== "published" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={updatingId === survey.id}
+                        onClick={() => handleStatusChange(survey, "published")}
+                      >
+                        <Upload className="h-4 w-4 mr-1" />
+                        Publish
+                      </Button>
+                    )}
+                    {survey.status !== "archived" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={updatingId === survey.id}
+                        onClick={() => handleStatusChange(survey, "archived")}
+                      >
+                        <Archive className="h-4 w-4 mr-1" />
+                        Archive
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminSurveysPage;
@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import { Check, Send, X, Receipt, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  approveWithdrawal,
+  checkWithdrawalPayout,
+  getWithdrawalQueue,
+  markWithdrawalPaid,
+  rejectWithdrawal,
+  sendWithdrawalPayout,
+  Withdrawal,
+  WithdrawalStatus
+} from "@/lib/withdrawalService";
+import Sidebar from "@/components/Sidebar";
+import Header from "@/components/Header";
+
+type QueueTab = "pending" | "approved" | "processing" | "closed";
+
+// Failed payouts sit with approved ones: both are waiting for someone to send the money.
+// Timed-out payouts may already have been sent, so they stay with the ones in flight.
+const TAB_STATUSES: Record<QueueTab, WithdrawalStatus[]> = {
+  pending: ["pending"],
+  approved: ["approved", "failed"],
+  processing: ["processing", "timed_out"],
+  closed: ["paid", "rejected"]
+};
+
+type DialogState = { type: "reject" | "paid"; withdrawal: Withdrawal } | null;
+
+const AdminWithdrawalsPage = () => {
+  const { toast } = useToast();
+  const [tab, setTab] = useState<QueueTab>("pending");
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [dialogInput, setDialogInput] = useState("");
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      setLoading(true);
+      const { data, error } = await getWithdrawalQueue(TAB_STATUSES[tab]);
+      if (error) {
+        console.error("Error loading withdrawals:", error);
+        toast({
+          title: "Couldn't load withdrawals",
+          description: error.message,
+          variant: "destructive"
+        });
+      }
+      setWithdrawals(data);
+      setLoading(false);
+    };
+    loadQueue();
+  }, [tab, toast]);
+
+  // Run an action on one withdrawal and move it out of the tab if its status changed
+  const runAction = async (
+    withdrawal: Withdrawal,
+    action: () => Promise<{ data: Withdrawal | null; error: { message: string } | null }>,
+    successTitle: string
+  ) => {
+    setBusyId(withdrawal.id);
+    const { data, error } = await action();
+    setBusyId(null);
+
+    if (error || !data) {
+      toast({
+        title: "Action failed",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    setWithdrawals(prev =>
+      TAB_STATUSES[tab].includes(data.status)
+        ? prev.map(existing => (existing.id === data.id ? data : existing))
+        : prev.filter(existing => existing.id !== data.id)
+    );
+
+    if (data.status === "failed") {
+      toast({
+        title: "Payout failed",
+        description: data.payout_message || "The provider declined the payout.",
+        variant: "destructive"
+      });
+    } else {
+      toast({ title: successTitle, description: `KSh ${data.amount.toLocaleString()} to ${data.mpesa_number}` });
+    }
+    return true;
+  };
+
+  const openDialog = (type: "reject" | "paid", withdrawal: Withdrawal) => {
+    setDialogInput("");
+    setDialog({ type, withdrawal });
+  };
+
+  const handleDialogConfirm = async () => {
+    if (!dialog || !dialogInput.trim()) return;
+
+    const { type, withdrawal } = dialog;
+    const done = type === "reject"
+      ? await runAction(withdrawal, () => rejectWithdrawal(withdrawal.id, dialogInput.trim()), "Withdrawal rejected and refunded")
+      : await runAction(withdrawal, () => markWithdrawalPaid(withdrawal.id, dialogInput.trim()), "Withdrawal marked as paid");
+
+    if (done) {
+      setDialog(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-survey">
+      <Header />
+      <Sidebar />
+
+      <main className="flex-1 p-4 md:p-6 lg:p-8 md:ml-[240px] mt-12 md:mt-16">
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">Withdrawals</h1>
+          <p className="text-muted-foreground">Approve, pay out or reject users' withdrawal requests</p>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as QueueTab)} className="mb-4">
+          <TabsList>
+            <TabsTrigger value="pending">Pending</TabsTrigger>
+            <TabsTrigger value="approved">To pay</TabsTrigger>
+            <TabsTrigger value="processing">Sending</TabsTrigger>
+            <TabsTrigger value="closed">Closed</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : withdrawals.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Nothing here</CardTitle>
+              <CardDescription>No withdrawals in this queue right now.</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {withdrawals.map((withdrawal) => (
+              <Card key={withdrawal.id}>
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-semibold">KSh {withdrawal.amount.toLocaleString()}</span>
+                      <span className="text-muted-foreground">to {withdrawal.mpesa_number}</span>
+                      <Badge
+                        variant={withdrawal.status === "rejected" || withdrawal.status === "failed" ? "destructive" : "secondary"}
+                        className="capitalize"
+                      >
+                        {withdrawal.status.replace("_", " ")}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Requested {new Date(withdrawal.created_at).toLocaleString()} · user {withdrawal.user_id.slice(0, 8)}
+                    </p>
+                    {withdrawal.rejection_reason && (
+                      <p className="text-xs text-muted-foreground mt-1">Reason: {withdrawal.rejection_reason}</p>
+                    )}
+                    {withdrawal.payout_message && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {withdrawal.payout_provider}: {withdrawal.payout_message}
+                      </p>
+                    )}
+                    {withdrawal.status === "paid" && withdrawal.payout_reference && (
+                      <p className="text-xs text-muted-foreground mt-1">Receipt {withdrawal.payout_reference}</p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {withdrawal.status === "pending" && (
+                      <Button
+                        size="sm"
+                        disabled={busyId === withdrawal.id}
+                        onClick={() => runAction(withdrawal, () => approveWithdrawal(withdrawal.id), "Withdrawal approved")}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                    )}
+                    {(withdrawal.status === "approved" || withdrawal.status === "failed") && (
+                      <Button
+                        size="sm"
+                        disabled={busyId === withdrawal.id}
+                        onClick={() => runAction(withdrawal, () => sendWithdrawalPayout(withdrawal.id), "Payout sent")}
+                      >
+                        <Send className="h-4 w-4 mr-1" />
+                        {withdrawal.status === "failed" ? "Retry payout" : "Send payout"}
+                      </Button>
+                    )}
+                    {withdrawal.status === "timed_out" && (
+                      <Button
+                        size="sm"
+                        disabled={busyId === withdrawal.id}
+                        onClick={() => runAction(withdrawal, () => checkWithdrawalPayout(withdrawal.id), "Status check sent")}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Check status
+                      </Button>
+                    )}
+                    {["approved", "processing", "failed", "timed_out"].includes(withdrawal.status) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === withdrawal.id}
+                        onClick={() => openDialog("paid", withdrawal)}
+                      >
+                        <Receipt className="h-4 w-4 mr-1" />
+                        Mark as paid
+                      </Button>
+                    )}
+                    {["pending", "approved", "failed"].includes(withdrawal.status) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === withdrawal.id}
+                        onClick={() => openDialog("reject", withdrawal)}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{dialog?.type === "reject" ? "Reject withdrawal" : "Mark as paid"}</DialogTitle>
+              <DialogDescription>
+                {dialog?.type === "reject"
+                  ? "The amount goes back to the user's balance. They'll see the reason in their withdrawal history."
+                  : "Use this when the money was sent outside the app, e.g. from the M-Pesa portal."}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-1">
+              <Label htmlFor="withdrawal-dialog-input">
+                {dialog?.type === "reject" ? "Reason" : "M-Pesa receipt"}
+              </Label>
+              {dialog?.type === "reject" ? (
+                <Textarea
+                  id="withdrawal-dialog-input"
+                  value={dialogInput}
+                  onChange={(e) => setDialogInput(e.target.value)}
+                />
+              ) : (
+                <Input
+                  id="withdrawal-dialog-input"
+                  placeholder="e.g. QGH7XXXXXX"
+                  value={dialogInput}
+                  onChange={(e) => setDialogInput(e.target.value)}
+                />
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+              <Button
+                variant={dialog?.type === "reject" ? "destructive" : "default"}
+                disabled={!dialogInput.trim() || busyId === dialog?.withdrawal.id}
+                onClick={handleDialogConfirm}
+              >
+                {dialog?.type === "reject" ? "Reject and refund" : "Mark as paid"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  );
+};
+
+export default AdminWithdrawalsPage;
@@ -1,6 +1,8 @@
 import React, { useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabaseClient';
+import { claimReferral, recordSignupSignals } from '@/lib/referralService';
+import { getDeviceFingerprint } from '@/lib/deviceFingerprint';
 
 const AuthCallback: React.FC = () => {
   const navigate = useNavigate();
@@ -23,8 +25,20 @@ const AuthCallback: React.FC = () => {
           }
 
           if (data.session) {
+            // Recorded before the referral claim below so its fraud checks can see it.
+            // The signals only add to the fraud checks, which run again before a
+            // referral is paid, so a failure here doesn't hold up verification.
+            await recordSignupSignals(await getDeviceFingerprint());
+
+            // Signup normally links the referral already; this catches accounts where
+            // the code didn't make it into the signup metadata
+            const referralCode = searchParams.get('ref');
+            const { error: referralError } = referralCode
+              ? await claimReferral(referralCode)
+              : { error: null };
+
             // Successfully verified - redirect to login with success message
-            navigate('/login?verified=true');
+            navigate(referralError ? '/login?verified=true&referral=not_applied' : '/login?verified=true');
           }
         } else {
           // No code provided - redirect to login
@@ -5,11 +5,22 @@ import Header from "@/components/Header";
 import WithdrawalContainer from "@/components/WithdrawalContainer";
 import SavedPhoneNumber from "@/components/SavedPhoneNumber";
 import SurveyEarningsChart from "@/components/SurveyEarningsChart";
+import DataUnavailable from "@/components/DataUnavailable";
 
 const EarningsPage = () => {
-  const { surveyData } = useSurveyData();
+  const { surveyData, loading, loadError, reload } = useSurveyData();
 
-  if (!surveyData) return null;
+  if (!surveyData) {
+    return (
+      <div className="min-h-screen w-full bg-earnings">
+        <Header />
+        <Sidebar />
+        <main className="flex-1 p-4 md:p-6 lg:p-8 ml-0 md:ml-[240px] mt-16">
+          <DataUnavailable loading={loading} error={loadError} onRetry={reload} subject="your earnings" />
+        </main>
+      </div>
+    );
+  }
 
   const userProgress = surveyData.userProgress;
 
@@ -35,6 +46,11 @@ const EarningsPage = () => {
                 <p className="text-sm md:text-base text-foreground/70 mt-2">
                   Pending Earnings: KSh {userProgress.pendingEarnings.toLocaleString()}
                 </p>
+                {userProgress.underReviewEarnings > 0 && (
+                  <p className="text-sm md:text-base text-foreground/70 mt-1">
+                    Under Review: KSh {userProgress.underReviewEarnings.toLocaleString()}
+                  </p>
+                )}
               </CardContent>
             </Card>
 
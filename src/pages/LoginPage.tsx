@@ -12,6 +12,8 @@ const Login: React.FC = () => {
   const location = useLocation();
 
   const [showVerificationSuccess, setShowVerificationSuccess] = useState(false);
+  // The referral code from the verification link couldn't be linked to the account
+  const referralNotApplied = searchParams.get('referral') === 'not_applied';
 
   useEffect(() => {
     const verified = searchParams.get('verified');
@@ -98,6 +100,11 @@ const Login: React.FC = () => {
                 <p className="text-sm text-green-700">
                   <strong>Email verified!</strong> You can now sign in to your account.
                 </p>
+                {referralNotApplied && (
+                  <p className="text-sm text-green-700 mt-1">
+                    Your referral code couldn't be applied. You can enter it on your dashboard once you've signed in.
+                  </p>
+                )}
               </div>
             </div>
           </div>
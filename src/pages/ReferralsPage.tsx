@@ -6,12 +6,59 @@ import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import Sidebar from '@/components/Sidebar';
 import Header from '@/components/Header';
-import { Gift, Users, DollarSign, Copy } from 'lucide-react';
-import { addReferral } from '@/lib/localReferralService';
+import DataUnavailable from '@/components/DataUnavailable';
+import { Gift, Users, DollarSign, Copy, Bell } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  getReferralExpiryDate,
+  Referral,
+  ReferralCommission,
+  sendReferral
+} from '@/lib/referralService';
+import { useReferralProgram } from '@/hooks/useReferralProgram';
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+// Where a referral is on the way from invite to payout
+const referralProgress = (referral: Referral) => {
+  if (referral.status === 'completed') {
+    return { label: 'Completed', className: 'bg-green-100 text-green-800' };
+  }
+  if (referral.status === 'flagged') {
+    return { label: 'Under review', className: 'bg-orange-100 text-orange-800' };
+  }
+  if (referral.status === 'rejected') {
+    return { label: 'Not eligible', className: 'bg-red-100 text-red-800' };
+  }
+  if (referral.status === 'expired') {
+    return { label: 'Expired', className: 'bg-red-100 text-red-800' };
+  }
+  if (referral.referred_user_id) {
+    return { label: 'Signed up', className: 'bg-blue-100 text-blue-800' };
+  }
+  return { label: 'Invited', className: 'bg-yellow-100 text-yellow-800' };
+};
+
+const COMMISSION_KIND_LABELS: Record<ReferralCommission['kind'], string> = {
+  signup_bonus: 'Signup bonus',
+  survey_share: 'Survey earnings share',
+  upgrade_bonus: 'Upgrade bonus'
+};
 
 const ReferralsPage = () => {
-  const { referralStats, referrals, refreshReferralData } = useReferral();
+  const {
+    referralStats,
+    referrals,
+    commissions,
+    notifications,
+    refreshReferralData,
+    dismissNotifications,
+    loading: referralsLoading,
+    error: referralsError
+  } = useReferral();
   const { toast } = useToast();
+  const program = useReferralProgram();
+  const directTier = program?.levels[0];
   const [email, setEmail] = useState("");
   const [loading, setLoading] = useState(false);
 
@@ -27,19 +74,21 @@ const ReferralsPage = () => {
 
     setLoading(true);
     try {
-      const success = addReferral(email);
+      const { error } = await sendReferral(email);
       
-      if (success) {
+      if (!error) {
         toast({
           title: "Referral Sent!",
-          description: `Invitation sent to ${email}. You'll earn KSh 50 when they complete their first survey.`,
+          description: directTier
+            ? `Invitation sent to ${email}. You'll earn KSh ${directTier.signupBonus} when they complete their first survey.`
+            : `Invitation sent to ${email}.`,
         });
         setEmail("");
-        refreshReferralData();
+        await refreshReferralData();
       } else {
         toast({
           title: "Failed to send referral",
-          description: "This email may already be referred or daily limit reached.",
+          description: error.message,
           variant: "destructive",
         });
       }
@@ -54,6 +103,10 @@ const ReferralsPage = () => {
     }
   };
 
+  const referralLink = referralStats
+    ? `${window.location.origin}/signup?ref=${encodeURIComponent(referralStats.referral_code)}`
+    : '';
+
   const copyReferralCode = () => {
     if (referralStats) {
       navigator.clipboard.writeText(referralStats.referral_code);
@@ -64,6 +117,33 @@ const ReferralsPage = () => {
     }
   };
 
+  const copyReferralLink = () => {
+    if (referralLink) {
+      navigator.clipboard.writeText(referralLink);
+      toast({
+        title: "Copied!",
+        description: "Referral link copied to clipboard",
+      });
+    }
+  };
+
+  if (!referralStats && (referralsLoading || referralsError)) {
+    return (
+      <div className="min-h-screen w-full bg-gray-50">
+        <Header />
+        <Sidebar />
+        <main className="flex-1 p-4 md:p-6 lg:p-8 md:ml-[240px] mt-16">
+          <DataUnavailable
+            loading={referralsLoading}
+            error={referralsError}
+            onRetry={refreshReferralData}
+            subject="your referrals"
+          />
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen w-full bg-gray-50">
       <Header />
@@ -71,6 +151,23 @@ const ReferralsPage = () => {
       
       <main className="flex-1 p-4 md:p-6 lg:p-8 md:ml-[240px] mt-16">
         <h1 className="text-2xl md:text-3xl font-bold mb-4 md:mb-6">Refer & Earn</h1>
+
+        {notifications.length > 0 && (
+          <Alert className="mb-4 md:mb-6">
+            <Bell className="h-4 w-4" />
+            <AlertTitle>Referral updates</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <ul className="list-disc list-inside text-sm">
+                {notifications.map((notification) => (
+                  <li key={notification.id}>{notification.message}</li>
+                ))}
+              </ul>
+              <Button variant="outline" size="sm" onClick={dismissNotifications}>
+                Dismiss
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6 mb-4 md:mb-6">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-6">
@@ -116,7 +213,11 @@ const ReferralsPage = () => {
           <Card>
             <CardHeader>
               <CardTitle className="text-lg md:text-xl">Send Referral</CardTitle>
-              <CardDescription className="text-sm">Invite friends to earn KSh 50 per referral</CardDescription>
+              <CardDescription className="text-sm">
+                {directTier
+                  ? `Invite friends to earn KSh ${directTier.signupBonus} per referral, plus a share of what they earn`
+                  : 'Invite friends to earn rewards'}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-3 md:space-y-4">
@@ -141,7 +242,7 @@ const ReferralsPage = () => {
           <Card>
             <CardHeader>
               <CardTitle className="text-lg md:text-xl">Your Referral Code</CardTitle>
-              <CardDescription className="text-sm">Share this code with friends</CardDescription>
+              <CardDescription className="text-sm">Share this code or your signup link with friends</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-3 md:space-y-4">
@@ -157,41 +258,113 @@ const ReferralsPage = () => {
                     </Button>
                   </div>
                 </div>
+                {referralLink && (
+                  <div className="flex items-center gap-2">
+                    <Input value={referralLink} readOnly className="font-mono text-xs" />
+                    <Button variant="outline" onClick={copyReferralLink} className="flex items-center gap-2">
+                      <Copy className="h-4 w-4" />
+                      Copy link
+                    </Button>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
         </div>
 
-        {referrals.length > 0 && (
+        {program && (
           <Card className="mt-4 md:mt-6">
             <CardHeader>
-              <CardTitle className="text-lg md:text-xl">Recent Referrals</CardTitle>
+              <CardTitle className="text-lg md:text-xl">How You Earn</CardTitle>
+              <CardDescription className="text-sm">
+                Rewards start once a referral completes their first survey
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+                {program.levels.map((tier, index) => (
+                  <div key={index} className="p-3 bg-gray-50 rounded-lg">
+                    <p className="font-medium text-sm md:text-base">
+                      {index === 0 ? 'From people you refer' : 'From people your referrals invite'}
+                    </p>
+                    <ul className="text-xs md:text-sm text-gray-600 list-disc list-inside mt-1">
+                      <li>KSh {tier.signupBonus} when they complete their first survey</li>
+                      <li>{tier.surveyEarningsPercent}% of their survey earnings for {program.earningsShareDays} days</li>
+                      <li>KSh {tier.upgradeBonus} when they upgrade their plan</li>
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {commissions.length > 0 && (
+          <Card className="mt-4 md:mt-6">
+            <CardHeader>
+              <CardTitle className="text-lg md:text-xl">Referral Earnings</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-2 md:space-y-3">
-                {referrals.map((referral) => (
-                  <div key={referral.id} className="flex flex-col md:flex-row md:items-center md:justify-between p-2 md:p-3 bg-gray-50 rounded-lg gap-2">
+                {commissions.map((commission) => (
+                  <div key={commission.id} className="flex items-center justify-between p-2 md:p-3 bg-gray-50 rounded-lg gap-2">
                     <div className="flex-1">
-                      <p className="font-medium text-sm md:text-base">{referral.referred_email}</p>
+                      <p className="font-medium text-sm md:text-base">
+                        {COMMISSION_KIND_LABELS[commission.kind]} · {commission.referee_label}
+                      </p>
                       <p className="text-xs md:text-sm text-gray-600">
-                        {new Date(referral.created_at).toLocaleDateString()}
+                        {formatDate(commission.created_at)}
+                        {commission.level > 1 && ` · Level ${commission.level}`}
                       </p>
                     </div>
-                    <div className={`px-2 py-1 rounded text-xs font-medium ${
-                      referral.status === 'completed' 
-                        ? 'bg-green-100 text-green-800' 
-                        : referral.status === 'pending'
-                        ? 'bg-yellow-100 text-yellow-800'
-                        : 'bg-red-100 text-red-800'
-                    }`}>
-                      {referral.status}
-                    </div>
+                    <div className="text-sm font-medium text-green-600">+KSh {commission.amount}</div>
                   </div>
                 ))}
               </div>
             </CardContent>
           </Card>
         )}
+
+        {referrals.length > 0 && (
+          <Card className="mt-4 md:mt-6">
+            <CardHeader>
+              <CardTitle className="text-lg md:text-xl">Recent Referrals</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2 md:space-y-3">
+                {referrals.map((referral) => {
+                  const progress = referralProgress(referral);
+                  return (
+                    <div key={referral.id} className="flex flex-col md:flex-row md:items-center md:justify-between p-2 md:p-3 bg-gray-50 rounded-lg gap-2">
+                      <div className="flex-1">
+                        <p className="font-medium text-sm md:text-base">{referral.referred_email}</p>
+                        <p className="text-xs md:text-sm text-gray-600">
+                          {referral.signed_up_at
+                            ? `Signed up ${formatDate(referral.signed_up_at)}`
+                            : `Invited ${formatDate(referral.created_at)}`}
+                          {referral.completed_at && ` · First survey ${formatDate(referral.completed_at)}`}
+                          {referral.expired_at && ` · Expired ${formatDate(referral.expired_at)}`}
+                        </p>
+                        {referral.status === 'completed' ? (
+                          <p className="text-xs md:text-sm text-green-700">KSh {referral.reward_amount} credited to your earnings</p>
+                        ) : referral.status === 'pending' && program ? (
+                          <p className="text-xs md:text-sm text-gray-600">
+                            You'll earn KSh {referral.reward_amount} if they complete their first survey by {formatDate(getReferralExpiryDate(referral, program.expiryDays).toISOString())}
+                          </p>
+                        ) : referral.status === 'flagged' ? (
+                          <p className="text-xs md:text-sm text-gray-600">We're checking this referral before paying it out</p>
+                        ) : null}
+                      </div>
+                      <div className={`px-2 py-1 rounded text-xs font-medium ${progress.className}`}>
+                        {progress.label}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   );
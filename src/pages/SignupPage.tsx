@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabaseClient';
+import { useReferralProgram } from '../hooks/useReferralProgram';
+import { getDeviceFingerprint } from '../lib/deviceFingerprint';
 import { useToast } from '../hooks/useToast';
 import ToastContainer from '../components/ToastContainer';
 
@@ -16,9 +18,10 @@ const Signup: React.FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toasts, addToast, removeToast } = useToast();
+  const referralProgram = useReferralProgram();
 
   useEffect(() => {
-    const refCode = searchParams.get('ref');
+    const refCode = searchParams.get('ref')?.trim().toUpperCase();
     if (refCode) {
       setReferralCode(refCode);
     }
@@ -75,7 +78,7 @@ const Signup: React.FC = () => {
     setLoading(true);
 
     try {
-      const { data, error } = await supabase.auth.signUp({
+      const { error } = await supabase.auth.signUp({
         email,
         password,
         options: {
@@ -83,6 +86,8 @@ const Signup: React.FC = () => {
             full_name: fullName,
             phone: phone,
             referral_code_used: referralCode || null,
+            // Lets the referral fraud checks spot several accounts from one device
+            device_fingerprint: await getDeviceFingerprint(),
           },
           emailRedirectTo: `${window.location.origin}/auth/callback${referralCode ? `?ref=${referralCode}` : ''}`,
         },
@@ -123,16 +128,8 @@ const Signup: React.FC = () => {
           message: 'Please check your email to verify your account. Check your spam folder if you don\'t see it.'
         });
 
-        // Process referral code if provided
-        if (referralCode) {
-          try {
-            const { ReferralService } = await import('../lib/referralService');
-            await ReferralService.processReferralCode(data.user?.id || '', email, referralCode);
-          } catch (referralError) {
-            console.warn('Failed to process referral code:', referralError);
-            // Don't fail signup if referral processing fails
-          }
-        }
+        // The database links the new account to the referrer from referral_code_used
+        // above, and AuthCallback claims the ?ref code again in case that didn't stick
         
         // Clear form fields
         setFullName('');
@@ -333,7 +330,10 @@ const Signup: React.FC = () => {
                   <div className="ml-3">
                     <h3 className="text-sm font-medium text-green-800">Referral Code Applied</h3>
                     <div className="mt-1 text-sm text-green-700">
-                      <p>Referral code <strong>{referralCode}</strong> has been applied to your account.</p>
+                      <p>Referral code <strong>{referralCode}</strong> will be applied to your account.
+                        {referralProgram && referralProgram.refereeWelcomeBonus > 0 &&
+                          ` You'll get a KSh ${referralProgram.refereeWelcomeBonus} bonus when you complete your first survey.`}
+                      </p>
                     </div>
                   </div>
                 </div>
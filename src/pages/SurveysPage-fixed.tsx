@@ -6,6 +6,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import SurveyQuestion from "@/components/SurveyQuestion";
+import { SurveySubmission } from "@/lib/surveyResponseService";
 import Sidebar from "@/components/Sidebar";
 import Header from "@/components/Header";
 import { supabase } from "@/lib/supabaseClient";
@@ -78,7 +79,7 @@ const SurveysPage = () => {
     setSurveyQuestions(survey.questions);
   };
 
-  const handleSurveyComplete = async (surveyId: string, answers: Record<string, string>) => {
+  const handleSurveyComplete = async (surveyId: string, submission: SurveySubmission) => {
     // Check if this is the user's first survey completion
     const { data: { user } } = await supabase.auth.getUser();
     if (user) {
@@ -121,7 +122,7 @@ const SurveysPage = () => {
       }
     }
 
-    completeSurvey(surveyId);
+    completeSurvey(surveyId, submission);
     setActiveSurvey(null);
     setSurveyQuestions([]);
     
@@ -6,6 +6,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import SurveyQuestion from "@/components/SurveyQuestion";
+import { SurveySubmission } from "@/lib/surveyResponseService";
 import Sidebar from "@/components/Sidebar";
 import Header from "@/components/Header";
 
@@ -77,8 +78,8 @@ const SurveysPage = () => {
     setSurveyQuestions(survey.questions);
   };
 
-  const handleSurveyComplete = (surveyId: string, answers: Record<string, string>) => {
-    completeSurvey(surveyId);
+  const handleSurveyComplete = (surveyId: string, submission: SurveySubmission) => {
+    completeSurvey(surveyId, submission);
     setActiveSurvey(null);
     setSurveyQuestions([]);
     
@@ -1,7 +1,10 @@
- import { useSurveyData } from "@/hooks/useSurveyData";
+ import { useSurveyData, Question } from "@/hooks/useSurveyData";
+import { SurveySubmission } from "@/lib/surveyResponseService";
+import { useSurveyProgress, SurveyCheckpoint } from "@/hooks/useSurveyProgress";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
@@ -9,41 +12,36 @@ import SurveyQuestion from "@/components/SurveyQuestion";
 import Sidebar from "@/components/Sidebar";
 import Header from "@/components/Header";
 import SurveyLimitModal from "@/components/SurveyLimitModal";
-
-interface Question {
-  id: string;
-  question: string;
-  type: string;
-  options: string[];
-  correctAnswer: string | null;
-}
-
-interface Survey {
-  id: string;
-  title: string;
-  reward: number;
-  duration: string;
-  category: string;
-  difficulty: string;
-  status: string;
-  description: string;
-  requiredPlan: string;
-  questions?: Question[];
-}
+import DataUnavailable from "@/components/DataUnavailable";
+import { Lock, CheckCircle } from "lucide-react";
+import { SurveyAccessService } from "@/utils/surveyAccessService";
 
 const SurveysPage = () => {
-  const { surveyData, getCurrentPlan, getAvailableSurveys, completeSurvey } = useSurveyData();
+  const { surveyData, loading, loadError, reload, getCurrentPlan, getSurveyQuota, getAvailableSurveys, getLockedSurveys, getCompletedSurveys, getSurveyCompletionStatus, canAccessSurvey, hasPremiumAccess, completeSurvey } = useSurveyData();
+  const { checkpoints, saveCheckpoint, clearCheckpoint } = useSurveyProgress();
   const { toast } = useToast();
   const navigate = useNavigate();
   const [activeSurvey, setActiveSurvey] = useState<string | null>(null);
   const [surveyQuestions, setSurveyQuestions] = useState<Question[]>([]);
   const [showLimitModal, setShowLimitModal] = useState(false);
 
-  if (!surveyData) return null;
+  if (!surveyData) {
+    return (
+      <div className="min-h-screen w-full bg-survey">
+        <Header />
+        <Sidebar />
+        <main className="flex-1 p-4 md:p-6 lg:p-8 md:ml-[240px] mt-12 md:mt-16">
+          <DataUnavailable loading={loading} error={loadError} onRetry={reload} subject="surveys" />
+        </main>
+      </div>
+    );
+  }
 
   const currentPlan = getCurrentPlan();
   const availableSurveys = getAvailableSurveys();
-  const userProgress = surveyData.userProgress;
+  const lockedSurveys = getLockedSurveys();
+  const completedSurveys = getCompletedSurveys();
+  const quota = getSurveyQuota();
 
   const handleStartSurvey = (surveyId: string) => {
     if (!currentPlan) {
@@ -55,7 +53,7 @@ const SurveysPage = () => {
       return;
     }
 
-    if (userProgress.surveysCompletedToday >= currentPlan.dailySurvey) {
+    if (quota.isLimitReached) {
       // Show modal instead of toast and redirect
       setShowLimitModal(true);
       return;
@@ -71,22 +69,56 @@ const SurveysPage = () => {
       return;
     }
 
+    if (!canAccessSurvey(survey)) {
+      handleUpgradeForSurvey(survey.requiredPlan);
+      return;
+    }
+
     setActiveSurvey(surveyId);
     setSurveyQuestions(survey.questions);
   };
 
-  const handleSurveyComplete = (surveyId: string, answers: Record<string, string>) => {
-    completeSurvey(surveyId);
+  const handleUpgradeForSurvey = (requiredPlan: string) => {
+    navigate(`/plans?plan=${encodeURIComponent(requiredPlan)}`);
+  };
+
+  const handleSurveyComplete = async (surveyId: string, submission: SurveySubmission) => {
+    // Leave the survey open on failure; retrying reuses the attempt id, so it can't pay twice
+    const { response, error } = await completeSurvey(surveyId, submission);
+    if (!response) {
+      toast({
+        title: "Submission failed",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+    clearCheckpoint(surveyId);
     setActiveSurvey(null);
     setSurveyQuestions([]);
     
-    const survey = surveyData.surveys.find(s => s.id === surveyId);
+    const earned = response.reward_amount || 0;
+    if (response.status === 'under_review') {
+      toast({
+        title: "Survey Submitted for Review",
+        description: `Your answers were flagged by our quality checks. Your KSh ${earned} will be credited once they pass review.`,
+      });
+      return;
+    }
     toast({
       title: "Survey Completed! 🎉",
-      description: `You earned KSh ${survey?.reward}! Thank you for your participation.`,
+      description: `You earned KSh ${earned}! Thank you for your participation.`,
     });
   };
 
+  const handleSurveyCheckpoint = (surveyId: string, checkpoint: SurveyCheckpoint | null) => {
+    if (checkpoint) {
+      saveCheckpoint(checkpoint);
+    } else {
+      clearCheckpoint(surveyId);
+    }
+  };
+
   const handleSurveyCancel = () => {
     setActiveSurvey(null);
     setSurveyQuestions([]);
@@ -106,6 +138,9 @@ const SurveysPage = () => {
         reward={survey?.reward || 0}
         title={survey?.title || "Survey"}
         duration={survey?.duration || "5 minutes"}
+        hasPremiumAccess={hasPremiumAccess()}
+        checkpoint={checkpoints[activeSurvey]}
+        onCheckpoint={handleSurveyCheckpoint}
         onComplete={handleSurveyComplete}
         onCancel={handleSurveyCancel}
       />
@@ -121,58 +156,150 @@ const SurveysPage = () => {
         <h1 className="text-2xl md:text-3xl font-bold mb-4 md:mb-6">Available Surveys</h1>
         {availableSurveys.length === 0 ? (
           <p className="text-muted-foreground text-center md:text-left">
-            {userProgress.surveysCompletedToday >= (currentPlan?.dailySurvey || 0) 
+            {quota.isLimitReached
               ? "You've completed all surveys for today! Come back tomorrow." 
+              : completedSurveys.length > 0
+              ? "You've completed every survey available to you. Check back soon for new ones!"
               : "No surveys available for your current plan. Consider upgrading!"}
           </p>
         ) : (
           <div className="space-y-4">
-            {availableSurveys.map((survey) => (
-              <Card key={survey.id} className="w-full">
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg md:text-xl">{survey.title}</CardTitle>
-                  <CardDescription className="text-sm">{survey.description}</CardDescription>
-                </CardHeader>
-                <CardContent className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
-                  <div className="flex-1">
-                    <p className="text-sm mb-2">Duration: {survey.duration}</p>
-                    <div className="flex flex-wrap gap-1 md:gap-2">
-                      <Badge variant="secondary" className="text-xs">{survey.category}</Badge>
-                      <Badge variant={survey.difficulty === "Easy" ? "default" : "secondary"} className="text-xs">
-                        {survey.difficulty}
-                      </Badge>
-                      <Badge variant="outline" className="text-xs">Requires {survey.requiredPlan}</Badge>
+            {availableSurveys.map((survey) => {
+              const checkpoint = checkpoints[survey.id];
+              const answeredCount = checkpoint
+                ? checkpoint.path.filter(questionId => questionId in checkpoint.answers).length
+                : 0;
+              const questionCount = SurveyAccessService.getAnswerableQuestions(survey.questions || [], hasPremiumAccess()).length;
+              return (
+                <Card key={survey.id} className="w-full">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg md:text-xl">{survey.title}</CardTitle>
+                    <CardDescription className="text-sm">{survey.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div className="flex-1">
+                      <p className="text-sm mb-2">Duration: {survey.duration}</p>
+                      <div className="flex flex-wrap gap-1 md:gap-2">
+                        <Badge variant="secondary" className="text-xs">{survey.category}</Badge>
+                        <Badge variant={survey.difficulty === "Easy" ? "default" : "secondary"} className="text-xs">
+                          {survey.difficulty}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs">Requires {survey.requiredPlan}</Badge>
+                      </div>
+                      {checkpoint && questionCount > 0 && (
+                        <div className="mt-3 max-w-xs">
+                          <Progress value={(answeredCount / questionCount) * 100} className="h-2 mb-1" />
+                          <p className="text-xs text-muted-foreground">
+                            In progress: {answeredCount} of {questionCount} questions answered
+                          </p>
+                        </div>
+                      )}
                     </div>
-                  </div>
-                  <div className="flex flex-col items-start md:items-end gap-2">
-                    <p className="font-bold text-primary text-lg">KSh {survey.reward}</p>
-                    <Button 
-                      size="sm" 
-                      className="bg-gradient-primary hover:opacity-90 w-full md:w-auto"
-                      onClick={() => {
-                        if (userProgress.surveysCompletedToday >= (currentPlan?.dailySurvey || 0)) {
-                          setShowLimitModal(true);
-                        } else {
-                          handleStartSurvey(survey.id);
-                        }
-                      }}
-                    >
-                      {userProgress.surveysCompletedToday >= (currentPlan?.dailySurvey || 0) ? 'Limit Reached' : 'Start Survey'}
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                    <div className="flex flex-col items-start md:items-end gap-2">
+                      <p className="font-bold text-primary text-lg">KSh {survey.reward}</p>
+                      <Button 
+                        size="sm" 
+                        className="bg-gradient-primary hover:opacity-90 w-full md:w-auto"
+                        onClick={() => {
+                          if (quota.isLimitReached) {
+                            setShowLimitModal(true);
+                          } else {
+                            handleStartSurvey(survey.id);
+                          }
+                        }}
+                      >
+                        {quota.isLimitReached ? 'Limit Reached' : checkpoint ? 'Resume' : 'Start Survey'}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         )}
+
+        {completedSurveys.length > 0 && (
+          <>
+            <h2 className="text-xl md:text-2xl font-bold mt-8 mb-4">Completed Surveys</h2>
+            <div className="space-y-4">
+              {completedSurveys.map((survey) => {
+                const status = getSurveyCompletionStatus(survey);
+                return (
+                  <Card key={survey.id} className="w-full opacity-80">
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+                        <CheckCircle className="h-4 w-4 text-success" />
+                        {survey.title}
+                      </CardTitle>
+                      <CardDescription className="text-sm">{survey.description}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                      <div className="flex flex-wrap gap-1 md:gap-2">
+                        <Badge variant="secondary" className="text-xs">{survey.category}</Badge>
+                        {status.state === 'cooldown' && status.availableAgainAt ? (
+                          <Badge variant="outline" className="text-xs">
+                            Available again on {status.availableAgainAt.toLocaleDateString()}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">Completed</Badge>
+                        )}
+                      </div>
+                      <p className="font-bold text-muted-foreground text-lg">KSh {survey.reward}</p>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        {lockedSurveys.length > 0 && (
+          <>
+            <h2 className="text-xl md:text-2xl font-bold mt-8 mb-4">Unlock More Surveys</h2>
+            <div className="space-y-4">
+              {lockedSurveys.map((survey) => (
+                <Card key={survey.id} className="w-full opacity-80">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+                      <Lock className="h-4 w-4 text-muted-foreground" />
+                      {survey.title}
+                    </CardTitle>
+                    <CardDescription className="text-sm">{survey.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div className="flex-1">
+                      <p className="text-sm mb-2">Duration: {survey.duration}</p>
+                      <div className="flex flex-wrap gap-1 md:gap-2">
+                        <Badge variant="secondary" className="text-xs">{survey.category}</Badge>
+                        <Badge variant="outline" className="text-xs">Requires {survey.requiredPlan}</Badge>
+                      </div>
+                    </div>
+                    <div className="flex flex-col items-start md:items-end gap-2">
+                      <p className="font-bold text-primary text-lg">KSh {survey.reward}</p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="w-full md:w-auto"
+                        onClick={() => handleUpgradeForSurvey(survey.requiredPlan)}
+                      >
+                        Upgrade to {survey.requiredPlan}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
       </main>
 
       <SurveyLimitModal
         isOpen={showLimitModal}
         onClose={() => setShowLimitModal(false)}
         currentPlanName={currentPlan?.planName || "Free"}
-        dailyLimit={currentPlan?.dailySurvey || 0}
-        surveysCompletedToday={userProgress.surveysCompletedToday}
+        dailyLimit={quota.dailyLimit}
+        surveysCompletedToday={quota.completedToday}
+        resetsAt={quota.resetsAt}
       />
     </div>
   );
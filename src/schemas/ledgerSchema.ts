@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+// Runtime schema for rows of the earnings_ledger table, matching LedgerEntry in ledgerService
+
+export const LEDGER_ENTRY_TYPES = [
+  'survey_reward',
+  'referral_reward',
+  'referral_bonus',
+  'referral_commission',
+  'withdrawal',
+  'withdrawal_refund',
+  'reversal'
+] as const;
+
+export const ledgerEntrySchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  entry_type: z.enum(LEDGER_ENTRY_TYPES),
+  amount: z.number().int().positive(),
+  reference_id: z.string().nullable(),
+  description: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const ledgerEntryListSchema = z.array(ledgerEntrySchema);
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Runtime schema for rows of the user_notifications table, matching UserNotification
+// in notificationService
+
+export const NOTIFICATION_KINDS = ['referral_expired'] as const;
+
+export const notificationSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  kind: z.enum(NOTIFICATION_KINDS),
+  message: z.string(),
+  reference_id: z.string().nullable(),
+  read_at: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const notificationListSchema = z.array(notificationSchema);
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+// Runtime schema for the plan config document (the plan_config table), matching the
+// PlanData and SurveyPlan types in useSurveyData
+
+// Bump this with any change to the shape of the plan config, and update the schema with it
+export const PLAN_CONFIG_VERSION = 2;
+
+const wholeAmount = z.number().int().min(0);
+
+export const surveyPlanSchema = z.object({
+  planName: z.string().trim().min(1, 'Plan name is required'),
+  dailySurvey: z.number().int().positive('Plans must allow at least one survey a day'),
+  monthlyIncome: wholeAmount,
+  dailyIncome: wholeAmount,
+  earningPerSurvey: z.string().trim().min(1),
+  minimumWithdrawal: z.number().int().positive('Minimum withdrawal must be more than 0'),
+  // Kept as a string of whole shillings; the edge functions price payments from it
+  price: z.string().regex(/^\d+$/, 'Price must be a whole number of shillings'),
+  description: z.string().optional(),
+  features: z.array(z.string()).optional()
+});
+
+export const subscriptionPolicySchema = z.object({
+  periodDays: z.number().int().positive(),
+  graceDays: z.number().int().min(0),
+  reminderDays: z.number().int().min(0)
+});
+
+// One entry per referral level: the first is the referrer, the second whoever
+// referred them. The database posts the commissions from these same levels.
+export const referralLevelSchema = z.object({
+  signupBonus: wholeAmount,
+  surveyEarningsPercent: z.number().min(0).max(100),
+  upgradeBonus: wholeAmount
+});
+
+export const referralProgramSchema = z.object({
+  refereeWelcomeBonus: wholeAmount,
+  expiryDays: z.number().int().positive(),
+  earningsShareDays: z.number().int().min(0),
+  levels: z.array(referralLevelSchema).min(1, 'Add the referrer level').max(2, 'Only two referral levels are supported')
+});
+
+export const planConfigSchema = z
+  .object({
+    version: z.literal(PLAN_CONFIG_VERSION, {
+      errorMap: () => ({ message: `Plan config must be version ${PLAN_CONFIG_VERSION}` })
+    }),
+    visibility: z.boolean(),
+    surveyPlans: z.array(surveyPlanSchema).min(1, 'Add at least one plan'),
+    subscription: subscriptionPolicySchema,
+    referral: referralProgramSchema,
+    mpesaPaymentDetails: z.object({
+      tillName: z.string().trim().min(1),
+      tillNumber: z.number().int().positive()
+    }),
+    moneyMaking: z.array(z.any()),
+    currentPlan: z.object({
+      default: z.string(),
+      displayName: z.string(),
+      description: z.string()
+    })
+  })
+  .superRefine((config, ctx) => {
+    const names = config.surveyPlans.map(plan => plan.planName);
+    if (new Set(names).size !== names.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['surveyPlans'], message: 'Plan names must be unique' });
+    }
+
+    // Plans are ranked into tiers by price, and till payments are matched to a plan by amount
+    const prices = config.surveyPlans.map(plan => plan.price);
+    if (new Set(prices).size !== prices.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['surveyPlans'], message: 'Each plan needs its own price' });
+    }
+
+    // Lapsed and new users fall back to the default plan, so it has to be free
+    const defaultPlan = config.surveyPlans.find(plan => plan.planName === config.currentPlan.default);
+    if (!defaultPlan || parseInt(defaultPlan.price) !== 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['currentPlan', 'default'],
+        message: 'The default plan must be the free plan'
+      });
+    }
+  });
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+// Runtime schemas for rows of the referrals, user_referral_stats and
+// referral_commissions tables, matching Referral, ReferralStats and
+// ReferralCommission in referralService
+
+export const REFERRAL_STATUSES = ['pending', 'flagged', 'completed', 'rejected', 'expired'] as const;
+
+export const referralStatsSchema = z.object({
+  total_referrals: z.number().int().min(0),
+  completed_referrals: z.number().int().min(0),
+  pending_referrals: z.number().int().min(0),
+  total_earned: z.number().min(0),
+  referral_code: z.string().min(1)
+});
+
+export const referralSchema = z.object({
+  id: z.string(),
+  referrer_id: z.string(),
+  referred_email: z.string(),
+  referral_code: z.string(),
+  status: z.enum(REFERRAL_STATUSES),
+  reward_amount: z.number().min(0),
+  referred_user_id: z.string().nullable(),
+  referee_reward_amount: z.number().min(0),
+  signed_up_at: z.string().nullable(),
+  fraud_reasons: z.array(z.string()),
+  reviewed_at: z.string().nullable(),
+  review_note: z.string().nullable(),
+  expired_at: z.string().nullable(),
+  created_at: z.string(),
+  completed_at: z.string().nullable()
+});
+
+export const referralListSchema = z.array(referralSchema);
+
+export const REFERRAL_COMMISSION_KINDS = ['signup_bonus', 'survey_share', 'upgrade_bonus'] as const;
+
+export const referralCommissionSchema = z.object({
+  id: z.string(),
+  referral_id: z.string(),
+  referee_label: z.string(),
+  level: z.number().int().min(1),
+  kind: z.enum(REFERRAL_COMMISSION_KINDS),
+  amount: z.number().int().positive(),
+  created_at: z.string()
+});
+
+export const referralCommissionListSchema = z.array(referralCommissionSchema);
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+// Runtime schemas for rows of the survey_responses, survey_response_answers and
+// survey_completions tables, matching SurveyResponse and SurveyResponseAnswer in
+// surveyResponseService and SurveyCompletion in surveyCompletionService
+
+export const SURVEY_RESPONSE_STATUSES = ['credited', 'under_review', 'rejected'] as const;
+
+export const QUALITY_FLAGS = ['speeding', 'straight_lining', 'failed_attention_check'] as const;
+
+export const surveyResponseAnswerSchema = z.object({
+  id: z.string(),
+  response_id: z.string(),
+  question_id: z.string(),
+  answer: z.union([z.string(), z.array(z.string())]),
+  answered_at: z.string(),
+  time_spent_ms: z.number().int().min(0)
+});
+
+export const surveyResponseAnswerListSchema = z.array(surveyResponseAnswerSchema);
+
+export const surveyResponseSchema = z.object({
+  id: z.string(),
+  attempt_id: z.string(),
+  user_id: z.string(),
+  survey_id: z.string(),
+  ledger_entry_id: z.string().nullable(),
+  status: z.enum(SURVEY_RESPONSE_STATUSES),
+  quality_flags: z.array(z.enum(QUALITY_FLAGS)),
+  reward_amount: z.number().int().nullable(),
+  started_at: z.string(),
+  submitted_at: z.string(),
+  reviewed_at: z.string().nullable(),
+  reviewed_by: z.string().nullable(),
+  review_note: z.string().nullable(),
+  survey_response_answers: surveyResponseAnswerListSchema.optional()
+});
+
+export const surveyResponseListSchema = z.array(surveyResponseSchema);
+
+export const surveyCompletionSchema = z.object({
+  user_id: z.string(),
+  survey_id: z.string(),
+  completion_count: z.number().int().positive(),
+  first_completed_at: z.string(),
+  last_completed_at: z.string()
+});
+
+export const surveyCompletionListSchema = z.array(surveyCompletionSchema);
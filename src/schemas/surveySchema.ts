@@ -0,0 +1,126 @@
+import { z } from 'zod';
+
+// Runtime schemas for surveys, matching the Survey and Question types in useSurveyData
+
+export const QUESTION_TYPES = [
+  'multiple_choice',
+  'checkbox',
+  'likert',
+  'rating',
+  'nps',
+  'text',
+  'number',
+  'dropdown',
+  'ranking'
+] as const;
+
+// Question types whose answers are picked from the options list
+export const OPTION_QUESTION_TYPES: string[] = ['multiple_choice', 'checkbox', 'likert', 'dropdown', 'ranking'];
+
+const optionalNumber = z.number().finite().optional();
+
+export const branchRuleSchema = z.object({
+  answer: z.string().min(1, 'Choose the answer that triggers this rule'),
+  action: z.enum(['skip_to', 'end_survey', 'screen_out']),
+  target: z.string().optional(),
+  message: z.string().optional()
+});
+
+export const questionSchema = z
+  .object({
+    id: z.string().min(1),
+    question: z.string().trim().min(1, 'Question text is required'),
+    type: z.enum(QUESTION_TYPES),
+    options: z.array(z.string().trim().min(1, 'Options cannot be blank')),
+    correctAnswer: z.string().nullable(),
+    isFree: z.boolean().optional(),
+    placeholder: z.string().optional(),
+    minLength: optionalNumber,
+    maxLength: optionalNumber,
+    min: optionalNumber,
+    max: optionalNumber,
+    minSelections: optionalNumber,
+    maxSelections: optionalNumber,
+    branching: z.array(branchRuleSchema).optional()
+  })
+  .superRefine((question, ctx) => {
+    if (OPTION_QUESTION_TYPES.includes(question.type) && question.options.length < 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Add at least two options' });
+    }
+    if (new Set(question.options).size !== question.options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Options must be unique' });
+    }
+    if (question.correctAnswer !== null && !question.options.includes(question.correctAnswer)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['correctAnswer'],
+        message: 'The attention-check answer must be one of the options'
+      });
+    }
+    if (question.min !== undefined && question.max !== undefined && question.min >= question.max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['max'], message: 'Maximum must be greater than minimum' });
+    }
+    (question.branching || []).forEach((rule, index) => {
+      if (question.options.length > 0 && !question.options.includes(rule.answer)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['branching', index, 'answer'],
+          message: 'Branching rules must match one of the options'
+        });
+      }
+      if (rule.action === 'skip_to' && !rule.target) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['branching', index, 'target'],
+          message: 'Choose the question to skip to'
+        });
+      }
+    });
+  });
+
+export const surveySchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().trim().min(1, 'Title is required'),
+    reward: z.number().int('Reward must be a whole number').positive('Reward must be more than 0').max(200, 'Reward cannot exceed KSh 200'),
+    duration: z.string().trim().regex(/^\d+(\.\d+)? minutes?$/, 'Duration must look like "8 minutes"'),
+    category: z.string().trim().min(1, 'Category is required'),
+    difficulty: z.string().trim().min(1, 'Difficulty is required'),
+    status: z.string(),
+    description: z.string(),
+    requiredPlan: z.string().trim().min(1, 'Required plan is required'),
+    repeatable: z.boolean().optional(),
+    cooldownDays: z.number().int().min(0, 'Cooldown cannot be negative').optional(),
+    questions: z.array(questionSchema).min(1, 'Add at least one question')
+  })
+  .superRefine((survey, ctx) => {
+    const ids = survey.questions.map(question => question.id);
+    if (new Set(ids).size !== ids.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions'], message: 'Question ids must be unique' });
+    }
+
+    // Skip rules may only jump forward, which is also what the runner enforces
+    survey.questions.forEach((question, questionIndex) => {
+      (question.branching || []).forEach((rule, ruleIndex) => {
+        if (rule.action !== 'skip_to' || !rule.target) return;
+        if (ids.indexOf(rule.target) <= questionIndex) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['questions', questionIndex, 'branching', ruleIndex, 'target'],
+            message: 'Skip rules can only jump to a later question'
+          });
+        }
+      });
+    });
+  });
+
+// Turn a validation error into readable messages, e.g. "Question 2: Add at least two options"
+export const formatSurveyIssues = (error: z.ZodError): string[] => {
+  return error.issues.map(issue => {
+    const [field, questionIndex] = issue.path;
+    if (field === 'questions' && typeof questionIndex === 'number') {
+      return `Question ${questionIndex + 1}: ${issue.message}`;
+    }
+    return issue.message;
+  });
+};
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+// Runtime schemas for the data a user's progress is built from: their profile row
+// and the survey progress and history kept in localStorage
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Must be a date');
+
+// The plan columns of a user_profiles row
+export const planProfileSchema = z.object({
+  current_plan: z.string().nullable(),
+  plan_expires_at: isoDate.nullable(),
+  scheduled_plan: z.string().nullable()
+});
+
+const answerValueSchema = z.union([z.string(), z.array(z.string())]);
+
+// An unfinished survey attempt saved by useSurveyProgress
+export const surveyCheckpointSchema = z.object({
+  surveyId: z.string(),
+  attemptId: z.string(),
+  startedAt: isoDate,
+  savedAt: isoDate,
+  path: z.array(z.string()),
+  answers: z.record(answerValueSchema),
+  timings: z.record(
+    z.object({
+      answeredAt: isoDate,
+      timeSpentMs: z.number().min(0)
+    })
+  )
+});
+
+export const surveyCheckpointsSchema = z.record(surveyCheckpointSchema);
+
+// A completed survey kept for the earnings chart
+export const surveyHistoryRecordSchema = z.object({
+  id: z.string(),
+  completedAt: isoDate,
+  amount: z.number().finite(),
+  surveyName: z.string()
+});
+
+export const surveyHistorySchema = z.array(surveyHistoryRecordSchema);
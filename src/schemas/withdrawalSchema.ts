@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// Runtime schema for rows of the withdrawals table, matching Withdrawal in withdrawalService
+
+export const WITHDRAWAL_STATUSES = ['pending', 'approved', 'processing', 'paid', 'rejected', 'failed', 'timed_out'] as const;
+
+export const withdrawalSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  amount: z.number().int().positive(),
+  mpesa_number: z.string(),
+  status: z.enum(WITHDRAWAL_STATUSES),
+  ledger_entry_id: z.string().nullable(),
+  refund_entry_id: z.string().nullable(),
+  rejection_reason: z.string().nullable(),
+  payout_provider: z.string().nullable(),
+  payout_reference: z.string().nullable(),
+  payout_message: z.string().nullable(),
+  reviewed_by: z.string().nullable(),
+  reviewed_at: z.string().nullable(),
+  paid_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export const withdrawalListSchema = z.array(withdrawalSchema);
@@ -0,0 +1,50 @@
+/**
+ * Plan Tier Service
+ * Orders survey plans by price so plans can be compared as tiers
+ */
+
+import { SurveyPlan } from '@/hooks/useSurveyData';
+
+export class PlanTierService {
+  /**
+   * Sort plans from the cheapest to the most expensive
+   * @param availablePlans - Available survey plans
+   * @returns Plans in tier order
+   */
+  static getOrderedPlans(availablePlans: SurveyPlan[]): SurveyPlan[] {
+    return [...availablePlans].sort((a, b) => parseFloat(a.price) - parseFloat(b.price));
+  }
+
+  /**
+   * Get the tier rank of a plan (0 is the cheapest)
+   * @param planName - Plan name
+   * @param availablePlans - Available survey plans
+   * @returns Tier rank, or -1 if the plan is unknown
+   */
+  static getTierRank(planName: string, availablePlans: SurveyPlan[]): number {
+    return this.getOrderedPlans(availablePlans).findIndex(plan => plan.planName === planName);
+  }
+
+  /**
+   * Compare two plans by tier
+   * @returns Negative if planA is a lower tier, positive if higher, 0 if equal
+   */
+  static compareTiers(planA: string, planB: string, availablePlans: SurveyPlan[]): number {
+    return this.getTierRank(planA, availablePlans) - this.getTierRank(planB, availablePlans);
+  }
+
+  /**
+   * Check whether a user on one plan may access content requiring another
+   * @param userPlan - The user's current plan name
+   * @param requiredPlan - The minimum plan name required
+   * @param availablePlans - Available survey plans
+   * @returns True if the user's tier is at least the required tier
+   */
+  static hasAccess(userPlan: string, requiredPlan: string, availablePlans: SurveyPlan[]): boolean {
+    const requiredRank = this.getTierRank(requiredPlan, availablePlans);
+    // Unknown requirements are treated as open so a typo never hides a survey
+    if (requiredRank === -1) return true;
+
+    return this.getTierRank(userPlan, availablePlans) >= requiredRank;
+  }
+}
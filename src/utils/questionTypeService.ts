@@ -0,0 +1,101 @@
+/**
+ * Question Type Service
+ * Validation rules and starting answers for each survey question type.
+ * The matching input for each type is rendered by components/QuestionInput.
+ */
+
+import { AnswerValue, Question } from '@/hooks/useSurveyData';
+
+interface QuestionTypeRules {
+  // Returns an error message for an invalid answer, or null when it can be submitted
+  validate: (question: Question, value: AnswerValue | undefined) => string | null;
+  getInitialValue?: (question: Question) => AnswerValue | undefined;
+}
+
+const asString = (value: AnswerValue | undefined) => (typeof value === 'string' ? value : '');
+const asList = (value: AnswerValue | undefined) => (Array.isArray(value) ? value : []);
+
+const requireSelection = (_question: Question, value: AnswerValue | undefined) =>
+  asString(value) ? null : 'Please select an answer before continuing';
+
+const questionTypeRules: Record<string, QuestionTypeRules> = {
+  multiple_choice: { validate: requireSelection },
+  likert: { validate: requireSelection },
+  rating: { validate: requireSelection },
+  nps: { validate: requireSelection },
+  dropdown: { validate: requireSelection },
+  checkbox: {
+    validate: (question, value) => {
+      const count = asList(value).length;
+      const minSelections = question.minSelections ?? 1;
+      if (count < minSelections) {
+        return minSelections === 1
+          ? 'Please select at least one option'
+          : `Please select at least ${minSelections} options`;
+      }
+      if (question.maxSelections && count > question.maxSelections) {
+        return `Please select no more than ${question.maxSelections} options`;
+      }
+      return null;
+    }
+  },
+  text: {
+    validate: (question, value) => {
+      const length = asString(value).trim().length;
+      const minLength = question.minLength ?? 1;
+      if (length < minLength) {
+        return minLength === 1
+          ? 'Please enter an answer before continuing'
+          : `Please write at least ${minLength} characters`;
+      }
+      return null;
+    }
+  },
+  number: {
+    validate: (question, value) => {
+      const raw = asString(value).trim();
+      const number = Number(raw);
+      if (!raw || Number.isNaN(number)) return 'Please enter a number';
+      if (question.min !== undefined && number < question.min) return `Please enter ${question.min} or more`;
+      if (question.max !== undefined && number > question.max) return `Please enter ${question.max} or less`;
+      return null;
+    }
+  },
+  ranking: {
+    validate: (question, value) =>
+      asList(value).length === question.options.length ? null : 'Please rank every option',
+    // Ranking starts in the listed order, so leaving it untouched is a valid answer
+    getInitialValue: (question) => [...question.options]
+  }
+};
+
+export class QuestionTypeService {
+  /**
+   * Get the rules for a question type
+   * @param type - Question type
+   * @returns Rules for the type; unknown types fall back to multiple choice
+   */
+  private static getRules(type: string): QuestionTypeRules {
+    return questionTypeRules[type] || questionTypeRules.multiple_choice;
+  }
+
+  /**
+   * Validate an answer against its question
+   * @param question - Survey question
+   * @param value - Current answer
+   * @returns Error message, or null if the answer is valid
+   */
+  static validate(question: Question, value: AnswerValue | undefined): string | null {
+    return this.getRules(question.type).validate(question, value);
+  }
+
+  /**
+   * Get the answer a question starts with before the user interacts
+   * @param question - Survey question
+   * @returns Starting answer, or undefined for an empty answer
+   */
+  static getInitialValue(question: Question | undefined): AnswerValue | undefined {
+    if (!question) return undefined;
+    return this.getRules(question.type).getInitialValue?.(question);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Subscription Service
+ * Works out where a paid plan is in its monthly period from its expiry date
+ */
+
+import { SubscriptionPolicy } from '@/hooks/useSurveyData';
+
+// active: paid up; expiring: inside the reminder window before expiry;
+// grace: past expiry but still on the plan; expired: recently fell back to the
+// free plan; none: on the free plan with nothing to remind about
+export type SubscriptionState = 'none' | 'active' | 'expiring' | 'grace' | 'expired';
+
+export interface PlanSubscriptionStatus {
+  state: SubscriptionState;
+  expiresAt: Date | null;
+  graceEndsAt: Date | null;
+  // Whole days until expiry (or, in grace, until the grace period ends)
+  daysLeft: number;
+  needsRenewal: boolean;
+}
+
+export class SubscriptionService {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Get when the grace period after an expiry ends
+   * @param expiresAt - Plan expiry (ISO string)
+   * @param policy - Subscription policy from the plan config
+   * @returns End of the grace period
+   */
+  static getGraceEnd(expiresAt: string, policy: SubscriptionPolicy): Date {
+    return new Date(new Date(expiresAt).getTime() + policy.graceDays * this.DAY_MS);
+  }
+
+  /**
+   * Check whether a plan has run past its grace period. The server moves lapsed
+   * users to the free plan on a schedule, so the app checks too rather than wait.
+   * @param expiresAt - Plan expiry (ISO string), or null for plans that don't expire
+   * @param policy - Subscription policy from the plan config
+   * @param now - Reference moment
+   * @returns True once the grace period is over
+   */
+  static hasLapsed(expiresAt: string | null, policy: SubscriptionPolicy, now: Date = new Date()): boolean {
+    return !!expiresAt && now >= this.getGraceEnd(expiresAt, policy);
+  }
+
+  /**
+   * Get the plan a user is really on. The server applies scheduled downgrades and
+   * lapses on a schedule, so the app applies them too rather than wait.
+   * @param storedPlan - Plan on the user's profile
+   * @param expiresAt - Plan expiry (ISO string), or null for plans that don't expire
+   * @param scheduledPlan - Lower plan to move to at expiry, if any
+   * @param freePlan - Plan users fall back to
+   * @param policy - Subscription policy from the plan config
+   * @param now - Reference moment
+   * @returns Effective plan name
+   */
+  static getEffectivePlan(
+    storedPlan: string,
+    expiresAt: string | null,
+    scheduledPlan: string | null,
+    freePlan: string,
+    policy: SubscriptionPolicy,
+    now: Date = new Date()
+  ): string {
+    if (scheduledPlan && expiresAt && now >= new Date(expiresAt)) {
+      // A downgrade to the free plan ends the subscription; a paid one starts its grace period
+      if (scheduledPlan === freePlan) return freePlan;
+      return this.hasLapsed(expiresAt, policy, now) ? freePlan : scheduledPlan;
+    }
+
+    return this.hasLapsed(expiresAt, policy, now) ? freePlan : storedPlan;
+  }
+
+  /**
+   * Build the subscription status shown in reminders
+   * @param expiresAt - Plan expiry (ISO string), or null if the user never paid
+   * @param policy - Subscription policy from the plan config
+   * @param now - Reference moment
+   * @returns Subscription status
+   */
+  static getStatus(expiresAt: string | null, policy: SubscriptionPolicy, now: Date = new Date()): PlanSubscriptionStatus {
+    if (!expiresAt) {
+      return { state: 'none', expiresAt: null, graceEndsAt: null, daysLeft: 0, needsRenewal: false };
+    }
+
+    const expiry = new Date(expiresAt);
+    const graceEndsAt = this.getGraceEnd(expiresAt, policy);
+    const daysUntil = (moment: Date) => Math.max(0, Math.ceil((moment.getTime() - now.getTime()) / this.DAY_MS));
+
+    let state: SubscriptionState;
+    if (now < expiry) {
+      state = daysUntil(expiry) <= policy.reminderDays ? 'expiring' : 'active';
+    } else if (now < graceEndsAt) {
+      state = 'grace';
+    } else {
+      // Only remind about a lapsed plan for a while after it falls back
+      const remindUntil = graceEndsAt.getTime() + policy.reminderDays * this.DAY_MS;
+      state = now.getTime() < remindUntil ? 'expired' : 'none';
+    }
+
+    return {
+      state,
+      expiresAt: expiry,
+      graceEndsAt,
+      daysLeft: state === 'grace' ? daysUntil(graceEndsAt) : daysUntil(expiry),
+      needsRenewal: state === 'expiring' || state === 'grace' || state === 'expired'
+    };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Survey Access Service
+ * Decides which questions a plan may answer and what that part of a survey pays
+ */
+
+import { Question, Survey } from '@/hooks/useSurveyData';
+
+export class SurveyAccessService {
+  /**
+   * Check whether a question is open to free plans
+   * @param question - Survey question
+   * @returns True unless the question is explicitly marked premium
+   */
+  static isFreeQuestion(question: Question): boolean {
+    return question.isFree !== false;
+  }
+
+  /**
+   * Get the questions a user may answer
+   * @param questions - All questions in the survey
+   * @param hasPremiumAccess - Whether the user is on a paid plan
+   * @returns Questions the user can answer, in survey order
+   */
+  static getAnswerableQuestions(questions: Question[], hasPremiumAccess: boolean): Question[] {
+    if (hasPremiumAccess) return questions;
+    return questions.filter(question => this.isFreeQuestion(question));
+  }
+
+  /**
+   * Prorate a survey reward by the share of questions answered
+   * @param reward - Full survey reward in KSh
+   * @param answeredCount - Number of questions answered
+   * @param totalCount - Number of questions in the survey
+   * @returns Reward in whole KSh, rounded down
+   */
+  static getProratedReward(reward: number, answeredCount: number, totalCount: number): number {
+    if (totalCount <= 0) return 0;
+    return Math.floor((reward * Math.min(answeredCount, totalCount)) / totalCount);
+  }
+
+  /**
+   * Get what a user earns for the questions they answered
+   * @param survey - Survey being completed
+   * @param answeredQuestionIds - Ids of the questions answered
+   * @returns Full reward for surveys without questions, otherwise the answered share of it
+   */
+  static getSurveyReward(survey: Survey, answeredQuestionIds: string[]): number {
+    const questions = survey.questions || [];
+    if (questions.length === 0) return survey.reward;
+    return this.getProratedReward(
+      survey.reward,
+      questions.filter(question => answeredQuestionIds.includes(question.id)).length,
+      questions.length
+    );
+  }
+}
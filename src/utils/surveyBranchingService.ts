@@ -0,0 +1,66 @@
+/**
+ * Survey Branching Service
+ * Works out which question comes next from each question's branching rules
+ */
+
+import { AnswerValue, BranchRule, Question } from '@/hooks/useSurveyData';
+
+export type SurveyStep =
+  | { type: 'question'; index: number }
+  | { type: 'complete' }
+  | { type: 'end'; message?: string }
+  | { type: 'screen_out'; message?: string };
+
+export class SurveyBranchingService {
+  /**
+   * Find the first branching rule matched by an answer
+   * @param question - Answered question
+   * @param answer - Answer given
+   * @returns Matching rule, or undefined to continue in order
+   */
+  static getMatchingRule(question: Question, answer: AnswerValue | undefined): BranchRule | undefined {
+    if (answer === undefined) return undefined;
+    return (question.branching || []).find(rule =>
+      Array.isArray(answer) ? answer.includes(rule.answer) : answer === rule.answer
+    );
+  }
+
+  /**
+   * Get the step that follows a question
+   * @param questions - Questions the user can answer, in survey order
+   * @param index - Index of the answered question
+   * @param answer - Answer given
+   * @returns Next question, an end or screen-out screen, or completion
+   */
+  static getNextStep(questions: Question[], index: number, answer: AnswerValue | undefined): SurveyStep {
+    const rule = this.getMatchingRule(questions[index], answer);
+    let nextIndex = index + 1;
+
+    if (rule?.action === 'end_survey') {
+      return { type: 'end', message: rule.message };
+    }
+    if (rule?.action === 'screen_out') {
+      return { type: 'screen_out', message: rule.message };
+    }
+    if (rule?.action === 'skip_to') {
+      // Only jump forward so a bad rule cannot loop; a target the user
+      // cannot answer (e.g. a premium question) falls back to the next one
+      const targetIndex = questions.findIndex(question => question.id === rule.target);
+      if (targetIndex > index) nextIndex = targetIndex;
+    }
+
+    return nextIndex < questions.length ? { type: 'question', index: nextIndex } : { type: 'complete' };
+  }
+
+  /**
+   * Get progress along the path actually taken
+   * @param path - Indexes of the questions visited so far, ending with the current one
+   * @param totalQuestions - Number of questions the user can answer
+   * @returns Percentage, assuming no further questions are skipped
+   */
+  static getPathProgress(path: number[], totalQuestions: number): number {
+    if (path.length === 0 || totalQuestions === 0) return 0;
+    const remaining = totalQuestions - path[path.length - 1] - 1;
+    return (path.length / (path.length + remaining)) * 100;
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { SurveyQuotaService } from './surveyQuotaService';
+
+// Nairobi is UTC+3, so its midnight is 21:00 UTC the evening before
+const justBeforeMidnight = new Date('2024-03-12T20:59:59.999Z');
+const midnight = new Date('2024-03-12T21:00:00.000Z');
+
+describe('getDayKey', () => {
+  it('rolls over to the next day at Nairobi midnight, not UTC midnight', () => {
+    expect(SurveyQuotaService.getDayKey(justBeforeMidnight)).toBe('2024-03-12');
+    expect(SurveyQuotaService.getDayKey(midnight)).toBe('2024-03-13');
+  });
+
+  it('keeps the early hours of a UTC day on the Nairobi day they fall on', () => {
+    expect(SurveyQuotaService.getDayKey(new Date('2024-03-13T00:30:00Z'))).toBe('2024-03-13');
+  });
+
+  it('crosses month and year ends', () => {
+    expect(SurveyQuotaService.getDayKey(new Date('2024-12-31T21:00:00Z'))).toBe('2025-01-01');
+  });
+});
+
+describe('getNextReset', () => {
+  it('resets at the next Nairobi midnight', () => {
+    expect(SurveyQuotaService.getNextReset(new Date('2024-03-12T09:00:00Z'))).toEqual(midnight);
+    expect(SurveyQuotaService.getNextReset(justBeforeMidnight)).toEqual(midnight);
+  });
+
+  it('moves on a whole day once midnight has passed', () => {
+    expect(SurveyQuotaService.getNextReset(midnight)).toEqual(new Date('2024-03-13T21:00:00Z'));
+  });
+
+  it('counts a UTC evening as part of the next Nairobi day', () => {
+    expect(SurveyQuotaService.getNextReset(new Date('2024-03-12T22:00:00Z'))).toEqual(new Date('2024-03-13T21:00:00Z'));
+  });
+});
+
+describe('countCompletedToday', () => {
+  it('only counts completions on the same Nairobi day', () => {
+    const completedAt = [
+      '2024-03-11T20:59:00Z', // 23:59 on the 11th in Nairobi
+      '2024-03-11T21:00:00Z', // 00:00 on the 12th
+      '2024-03-12T10:00:00Z',
+      '2024-03-12T21:30:00Z' // 00:30 on the 13th
+    ];
+
+    expect(SurveyQuotaService.countCompletedToday(completedAt, new Date('2024-03-12T12:00:00Z'))).toBe(2);
+  });
+
+  it('reads timestamps written with a Nairobi offset', () => {
+    expect(SurveyQuotaService.countCompletedToday(['2024-03-12T00:15:00+03:00'], justBeforeMidnight)).toBe(1);
+  });
+
+  it('counts nothing when there are no completions', () => {
+    expect(SurveyQuotaService.countCompletedToday([], midnight)).toBe(0);
+  });
+});
+
+describe('getQuota', () => {
+  const now = new Date('2024-03-12T12:00:00Z');
+
+  it('reports what is left of the daily limit and when it resets', () => {
+    expect(SurveyQuotaService.getQuota(['2024-03-12T08:00:00Z'], 3, now)).toEqual({
+      dailyLimit: 3,
+      completedToday: 1,
+      remainingToday: 2,
+      isLimitReached: false,
+      resetsAt: midnight
+    });
+  });
+
+  it('is reached once the day\'s completions meet the limit, and never goes negative', () => {
+    const completedAt = ['2024-03-12T06:00:00Z', '2024-03-12T07:00:00Z', '2024-03-12T08:00:00Z'];
+
+    expect(SurveyQuotaService.getQuota(completedAt, 2, now)).toMatchObject({
+      completedToday: 3,
+      remainingToday: 0,
+      isLimitReached: true
+    });
+  });
+
+  it('starts fresh after Nairobi midnight', () => {
+    const completedAt = ['2024-03-12T06:00:00Z', '2024-03-12T20:00:00Z'];
+
+    expect(SurveyQuotaService.getQuota(completedAt, 2, justBeforeMidnight).isLimitReached).toBe(true);
+    expect(SurveyQuotaService.getQuota(completedAt, 2, midnight)).toMatchObject({
+      completedToday: 0,
+      remainingToday: 2,
+      isLimitReached: false
+    });
+  });
+});
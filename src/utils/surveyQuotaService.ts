@@ -0,0 +1,74 @@
+/**
+ * Survey Quota Service
+ * Counts survey completions per calendar day in Africa/Nairobi time
+ */
+
+export interface SurveyQuota {
+  dailyLimit: number;
+  completedToday: number;
+  remainingToday: number;
+  isLimitReached: boolean;
+  resetsAt: Date;
+}
+
+export class SurveyQuotaService {
+  static readonly TIME_ZONE = "Africa/Nairobi";
+
+  // East Africa Time is UTC+3 all year round (no daylight saving)
+  private static readonly UTC_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+  /**
+   * Get the Nairobi calendar day a moment falls on
+   * @param date - Moment to convert
+   * @returns Day key in YYYY-MM-DD form
+   */
+  static getDayKey(date: Date): string {
+    return new Date(date.getTime() + this.UTC_OFFSET_MS).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Get the next Nairobi midnight after a moment
+   * @param now - Reference moment
+   * @returns Moment the daily quota resets
+   */
+  static getNextReset(now: Date = new Date()): Date {
+    const local = new Date(now.getTime() + this.UTC_OFFSET_MS);
+    const nextLocalMidnight = Date.UTC(
+      local.getUTCFullYear(),
+      local.getUTCMonth(),
+      local.getUTCDate() + 1
+    );
+    return new Date(nextLocalMidnight - this.UTC_OFFSET_MS);
+  }
+
+  /**
+   * Count completions that happened on the same Nairobi day as now
+   * @param completedAt - Completion timestamps (ISO strings)
+   * @param now - Reference moment
+   * @returns Number of completions today
+   */
+  static countCompletedToday(completedAt: string[], now: Date = new Date()): number {
+    const today = this.getDayKey(now);
+    return completedAt.filter(timestamp => this.getDayKey(new Date(timestamp)) === today).length;
+  }
+
+  /**
+   * Build the quota for a plan's daily limit
+   * @param completedAt - Completion timestamps (ISO strings)
+   * @param dailyLimit - Surveys allowed per day on the user's plan
+   * @param now - Reference moment
+   * @returns Quota status for today
+   */
+  static getQuota(completedAt: string[], dailyLimit: number, now: Date = new Date()): SurveyQuota {
+    const completedToday = this.countCompletedToday(completedAt, now);
+    const remainingToday = Math.max(0, dailyLimit - completedToday);
+
+    return {
+      dailyLimit,
+      completedToday,
+      remainingToday,
+      isLimitReached: remainingToday === 0,
+      resetsAt: this.getNextReset(now)
+    };
+  }
+}
@@ -0,0 +1,61 @@
+// Safaricom Daraja API helpers shared by the payout and payment gateways
+
+export const requireEnv = (name: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+};
+
+export const getDarajaBaseUrl = () =>
+  Deno.env.get('DARAJA_ENV') === 'production'
+    ? 'https://api.safaricom.co.ke'
+    : 'https://sandbox.safaricom.co.ke';
+
+export const getDarajaAccessToken = async (
+  baseUrl: string,
+  consumerKey: string,
+  consumerSecret: string
+): Promise<string> => {
+  const credentials = btoa(`${consumerKey}:${consumerSecret}`);
+  const response = await fetch(`${baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${credentials}` }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Daraja authentication failed (${response.status})`);
+  }
+
+  const { access_token } = await response.json();
+  return access_token;
+};
+
+export interface DarajaResultParameter {
+  Key: string;
+  Value: string | number;
+}
+
+// The Result object Daraja posts for B2C payments, transaction status queries and
+// their timeouts
+export interface DarajaResult {
+  ResultCode: number;
+  ResultDesc: string;
+  ConversationID: string;
+  OriginatorConversationID?: string;
+  TransactionID?: string;
+  ResultParameters?: { ResultParameter: DarajaResultParameter[] | DarajaResultParameter };
+  ReferenceData?: { ReferenceItem: DarajaResultParameter[] | DarajaResultParameter };
+}
+
+// Safaricom sends a single parameter as an object rather than a one-item array
+const findParameter = (parameters: DarajaResultParameter[] | DarajaResultParameter | undefined, key: string) => {
+  const list = Array.isArray(parameters) ? parameters : parameters ? [parameters] : [];
+  return list.find(parameter => parameter.Key === key)?.Value;
+};
+
+export const getResultParameter = (result: DarajaResult, key: string) =>
+  findParameter(result.ResultParameters?.ResultParameter, key);
+
+export const getReferenceItem = (result: DarajaResult, key: string) =>
+  findParameter(result.ReferenceData?.ReferenceItem, key);
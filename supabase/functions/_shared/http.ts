@@ -0,0 +1,25 @@
+// Helpers shared by the edge functions the app calls from the browser
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+export const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// Daraja retries any callback that isn't acknowledged, so answer with this once handled
+export const darajaAccepted = () =>
+  new Response(JSON.stringify({ ResultCode: 0, ResultDesc: 'Accepted' }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+// Callbacks from Safaricom carry no Supabase JWT, so they are authenticated with a
+// shared token in the callback URL's query string
+export const hasCallbackToken = (req: Request) => {
+  const token = new URL(req.url).searchParams.get('token');
+  return !!token && token === Deno.env.get('DARAJA_CALLBACK_TOKEN');
+};
@@ -0,0 +1,160 @@
+// Parser for M-Pesa confirmation SMS, shared by the app (through src/lib/mpesaSms.ts)
+// and the edge functions. It has no imports so it runs unchanged under Vite and Deno.
+//
+// Formats understood, all starting with the 10-character receipt code:
+//   Buy Goods:  QFR3ABC123 Confirmed. Ksh250.00 paid to VEDACOM 4 SOLUTIONS. on 12/3/24 at 4:05 PM.New M-PESA balance is Ksh1,234.00. Transaction cost, Ksh0.00.
+//               QFR3ABC123 Confirmed. Ksh250.00 sent to Till Number 3566188 on 12/3/24 at 4:05 PM...
+//   Paybill:    QFR3ABC123 Confirmed. Ksh1,000.00 sent to KPLC PREPAID for account 12345678 on 12/3/24 at 4:05 PM New M-PESA balance is Ksh234.00...
+//   Send Money: QFR3ABC123 Confirmed. Ksh500.00 sent to JOHN DOE 0712345678 on 12/3/24 at 4:05 PM. New M-PESA balance is Ksh734.00. Transaction cost, Ksh7.00.
+//   Received:   QFR3ABC123 Confirmed.You have received Ksh500.00 from JOHN DOE 0712345678 on 12/3/24 at 4:05 PM New M-PESA balance is Ksh1,234.00.
+//   Reversal:   QFR3ABC123 Confirmed. Reversal of transaction QFR2XYZ789 has been successfully reversed on 12/3/24 at 4:05 PM and Ksh500.00 is credited to your M-PESA account. New M-PESA account balance is Ksh1,234.00.
+
+export type MpesaSmsKind = 'buy_goods' | 'paybill' | 'send_money' | 'received' | 'reversal';
+
+export interface MpesaSms {
+  kind: MpesaSmsKind;
+  // M-Pesa receipt code, e.g. QFR3ABC123
+  receipt: string;
+  // In KSh, cents included
+  amount: number;
+  // Merchant, business or person on the other side, as named in the SMS
+  counterparty: string | null;
+  // Send Money and Received only, as written in the SMS (07XXXXXXXX)
+  phoneNumber: string | null;
+  // Only present when the SMS names the till by number
+  tillNumber: string | null;
+  // Paybill only
+  accountNumber: string | null;
+  // Reversal only: the receipt of the transaction that was reversed
+  reversedReceipt: string | null;
+  // As written in the SMS (day/month/year), plus the same moment in Kenyan time
+  date: string | null;
+  time: string | null;
+  transactedAt: string | null;
+  balance: number | null;
+  transactionCost: number | null;
+}
+
+const RECEIPT = /^\s*([A-Z0-9]{10})\s+Confirmed/i;
+const MONEY = '(?:Ksh|KES)\\s*([\\d,]+(?:\\.\\d{1,2})?)';
+const WHEN = /on\s+(\d{1,2}\/\d{1,2}\/\d{2,4})\s+at\s+(\d{1,2}:\d{2}\s*(?:AM|PM)?)/i;
+const BALANCE = new RegExp(`balance\\s+is(?:\\s+now)?\\s+${MONEY}`, 'i');
+const TRANSACTION_COST = new RegExp(`Transaction\\s+cost,?\\s+${MONEY}`, 'i');
+
+const PAID = new RegExp(`${MONEY}\\s+paid\\s+to\\s+(.+?)\\.?\\s+on\\s+\\d`, 'i');
+const SENT_TO_TILL = new RegExp(`${MONEY}\\s+(?:sent|has\\s+been\\s+sent)\\s+to\\s+Till\\s*(?:Number|No\\.?)?\\s*:?\\s*(\\d{5,7})`, 'i');
+const SENT_TO_PAYBILL = new RegExp(`${MONEY}\\s+sent\\s+to\\s+(.+?)\\s+for\\s+account\\s+(\\S+?)\\.?\\s+on\\s+\\d`, 'i');
+const SENT_TO_PERSON = new RegExp(`${MONEY}\\s+sent\\s+to\\s+(.+?)\\s+((?:\\+?254|0)[17]\\d{8})\\.?\\s+on\\s+\\d`, 'i');
+const RECEIVED = new RegExp(`received\\s+${MONEY}\\s+from\\s+(.+?)\\s+((?:\\+?254|0)[17]\\d{8})\\.?\\s+on\\s+\\d`, 'i');
+const REVERSAL = /Reversal\s+of\s+transaction\s+([A-Z0-9]{10})/i;
+const REVERSED_AMOUNT = new RegExp(`${MONEY}\\s+is\\s+credited`, 'i');
+
+const toAmount = (value: string | undefined) =>
+  value === undefined ? null : parseFloat(value.replace(/,/g, ''));
+
+// d/m/yy h:mm AM -> ISO timestamp in East Africa Time (UTC+3, no daylight saving)
+const toTransactedAt = (date: string, time: string): string | null => {
+  const [day, month, rawYear] = date.split('/').map(Number);
+  const timeMatch = time.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+  if (!timeMatch || month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+
+  const meridiem = timeMatch[3]?.toUpperCase();
+  const hours = meridiem
+    ? (Number(timeMatch[1]) % 12) + (meridiem === 'PM' ? 12 : 0)
+    : Number(timeMatch[1]);
+  const year = rawYear < 100 ? 2000 + rawYear : rawYear;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${timeMatch[2]}:00+03:00`;
+};
+
+// Reads a confirmation SMS into its parts, or returns null if it isn't one of the
+// formats above. The text is not proof of payment on its own: callers that grant
+// anything must also confirm the receipt code with M-Pesa and check it hasn't been
+// used before.
+export const parseMpesaSms = (message: string): MpesaSms | null => {
+  if (!message || typeof message !== 'string') {
+    return null;
+  }
+
+  const receipt = message.match(RECEIPT)?.[1];
+  if (!receipt) {
+    return null;
+  }
+
+  const details: Omit<MpesaSms, 'kind' | 'receipt' | 'amount'> = {
+    counterparty: null,
+    phoneNumber: null,
+    tillNumber: null,
+    accountNumber: null,
+    reversedReceipt: null,
+    date: null,
+    time: null,
+    transactedAt: null,
+    balance: toAmount(message.match(BALANCE)?.[1]),
+    transactionCost: toAmount(message.match(TRANSACTION_COST)?.[1])
+  };
+
+  const when = message.match(WHEN);
+  if (when) {
+    details.date = when[1];
+    details.time = when[2].toUpperCase();
+    details.transactedAt = toTransactedAt(when[1], when[2]);
+  }
+
+  const result = (kind: MpesaSmsKind, amount: string, extra: Partial<MpesaSms> = {}): MpesaSms => ({
+    kind,
+    receipt: receipt.toUpperCase(),
+    amount: toAmount(amount)!,
+    ...details,
+    ...extra
+  });
+
+  const reversal = message.match(REVERSAL);
+  const reversedAmount = message.match(REVERSED_AMOUNT);
+  if (reversal && reversedAmount) {
+    return result('reversal', reversedAmount[1], { reversedReceipt: reversal[1].toUpperCase() });
+  }
+
+  const received = message.match(RECEIVED);
+  if (received) {
+    return result('received', received[1], { counterparty: received[2].trim(), phoneNumber: received[3] });
+  }
+
+  const paid = message.match(PAID);
+  if (paid) {
+    return result('buy_goods', paid[1], { counterparty: paid[2].trim() });
+  }
+
+  const till = message.match(SENT_TO_TILL);
+  if (till) {
+    return result('buy_goods', till[1], { tillNumber: till[2] });
+  }
+
+  const paybill = message.match(SENT_TO_PAYBILL);
+  if (paybill) {
+    return result('paybill', paybill[1], { counterparty: paybill[2].trim(), accountNumber: paybill[3] });
+  }
+
+  const person = message.match(SENT_TO_PERSON);
+  if (person) {
+    return result('send_money', person[1], { counterparty: person[2].trim(), phoneNumber: person[3] });
+  }
+
+  return null;
+};
+
+// Whether a Buy Goods SMS shows a payment to the given till, which it names either
+// by number or by the till's registered name
+export const isPaymentToTill = (sms: MpesaSms, till: { tillName: string; tillNumber: string | number }) => {
+  if (sms.kind !== 'buy_goods') {
+    return false;
+  }
+  if (sms.tillNumber) {
+    return sms.tillNumber === String(till.tillNumber);
+  }
+
+  return !!sms.counterparty && sms.counterparty.toUpperCase() === till.tillName.toUpperCase();
+};
@@ -0,0 +1,226 @@
+// Payment gateways used to collect plan payments with an M-Pesa STK Push (the
+// "enter your PIN" prompt on the customer's phone).
+import { getDarajaAccessToken, getDarajaBaseUrl, requireEnv } from './daraja.ts';
+
+export interface StkPushRequest {
+  paymentId: string;
+  amount: number;
+  // 2547XXXXXXXX / 2541XXXXXXXX
+  phoneNumber: string;
+  accountReference: string;
+  description: string;
+}
+
+export interface StkPushInitiation {
+  checkoutRequestId: string;
+  merchantRequestId: string | null;
+  message: string;
+}
+
+export type StkPushStatus = 'pending' | 'paid' | 'failed';
+
+export interface StkPushResult {
+  status: StkPushStatus;
+  resultCode: number | null;
+  resultDesc: string;
+  receipt: string | null;
+  amount: number | null;
+}
+
+export interface PaymentGateway {
+  name: string;
+  // Sends the prompt to the customer's phone; throws if it could not be sent
+  initiatePayment(request: StkPushRequest): Promise<StkPushInitiation>;
+  // Asks the gateway how a prompt ended, for when the callback is late or lost
+  queryPayment(checkoutRequestId: string): Promise<StkPushResult>;
+}
+
+// Result codes M-Pesa uses for common outcomes
+export const STK_RESULT_CODES = {
+  SUCCESS: 0,
+  INSUFFICIENT_FUNDS: 1,
+  CANCELLED_BY_USER: 1032,
+  TIMED_OUT: 1037
+};
+
+// Offline stand-in for Daraja. Every prompt "completes" a few seconds after it is
+// sent, and the outcome depends on the phone number so each path can be tried:
+//   254700000000 -> cancelled by user, 254700000001 -> insufficient funds,
+//   254700000002 -> never answered (timeout), anything else -> paid.
+// The outcome is encoded in the checkout id, so the simulator needs no storage.
+export class SimulatedStkGateway implements PaymentGateway {
+  static readonly COMPLETION_DELAY_MS = 5000;
+
+  private static readonly OUTCOMES: Record<string, { code: number; desc: string }> = {
+    '254700000000': { code: STK_RESULT_CODES.CANCELLED_BY_USER, desc: 'Request cancelled by user' },
+    '254700000001': { code: STK_RESULT_CODES.INSUFFICIENT_FUNDS, desc: 'The balance is insufficient for the transaction' },
+    '254700000002': { code: STK_RESULT_CODES.TIMED_OUT, desc: 'DS timeout user cannot be reached' }
+  };
+
+  name = 'simulator';
+
+  async initiatePayment(request: StkPushRequest): Promise<StkPushInitiation> {
+    const outcome = SimulatedStkGateway.OUTCOMES[request.phoneNumber]?.code ?? STK_RESULT_CODES.SUCCESS;
+    return {
+      checkoutRequestId: `SIM_${outcome}_${request.amount}_${Date.now()}`,
+      merchantRequestId: null,
+      message: 'Simulated STK Push sent'
+    };
+  }
+
+  async queryPayment(checkoutRequestId: string): Promise<StkPushResult> {
+    const [, code, amount, sentAt] = checkoutRequestId.split('_');
+    if (Date.now() - Number(sentAt) < SimulatedStkGateway.COMPLETION_DELAY_MS) {
+      return { status: 'pending', resultCode: null, resultDesc: 'Waiting for the customer', receipt: null, amount: null };
+    }
+
+    const resultCode = Number(code);
+    if (resultCode !== STK_RESULT_CODES.SUCCESS) {
+      const outcome = Object.values(SimulatedStkGateway.OUTCOMES).find(candidate => candidate.code === resultCode);
+      return { status: 'failed', resultCode, resultDesc: outcome?.desc || 'Simulated failure', receipt: null, amount: null };
+    }
+
+    return {
+      status: 'paid',
+      resultCode,
+      resultDesc: 'The service request is processed successfully.',
+      // Real receipts are 10 upper-case characters, e.g. QFR3XXXXXX
+      receipt: `SIM${sentAt.slice(-7)}`,
+      amount: Number(amount)
+    };
+  }
+}
+
+export interface DarajaStkConfig {
+  baseUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  // Business short code (the store number for a till) and its Lipa na M-Pesa passkey
+  shortCode: string;
+  passkey: string;
+  // Till number for Buy Goods, or the short code again for a Paybill
+  partyB: string;
+  transactionType: 'CustomerBuyGoodsOnline' | 'CustomerPayBillOnline';
+  callbackUrl: string;
+}
+
+// Safaricom Daraja Lipa na M-Pesa Online (STK Push)
+export class DarajaStkGateway implements PaymentGateway {
+  name = 'daraja_stk';
+
+  constructor(private config: DarajaStkConfig) {}
+
+  // Daraja expects the timestamp in Kenyan time as YYYYMMDDHHmmss
+  private getTimestamp(): string {
+    const nairobi = new Date(Date.now() + 3 * 60 * 60 * 1000);
+    return nairobi.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  }
+
+  private getPassword(timestamp: string): string {
+    return btoa(`${this.config.shortCode}${this.config.passkey}${timestamp}`);
+  }
+
+  private async post(path: string, body: Record<string, unknown>) {
+    const token = await getDarajaAccessToken(
+      this.config.baseUrl,
+      this.config.consumerKey,
+      this.config.consumerSecret
+    );
+    const response = await fetch(`${this.config.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    return { ok: response.ok, status: response.status, body: await response.json().catch(() => ({})) };
+  }
+
+  async initiatePayment(request: StkPushRequest): Promise<StkPushInitiation> {
+    const timestamp = this.getTimestamp();
+    const { ok, status, body } = await this.post('/mpesa/stkpush/v1/processrequest', {
+      BusinessShortCode: this.config.shortCode,
+      Password: this.getPassword(timestamp),
+      Timestamp: timestamp,
+      TransactionType: this.config.transactionType,
+      Amount: request.amount,
+      PartyA: request.phoneNumber,
+      PartyB: this.config.partyB,
+      PhoneNumber: request.phoneNumber,
+      CallBackURL: this.config.callbackUrl,
+      AccountReference: request.accountReference.slice(0, 12),
+      TransactionDesc: request.description.slice(0, 13)
+    });
+
+    if (!ok || body.ResponseCode !== '0') {
+      throw new Error(body.errorMessage || body.ResponseDescription || `Daraja request failed (${status})`);
+    }
+
+    return {
+      checkoutRequestId: body.CheckoutRequestID,
+      merchantRequestId: body.MerchantRequestID || null,
+      message: body.CustomerMessage || body.ResponseDescription
+    };
+  }
+
+  async queryPayment(checkoutRequestId: string): Promise<StkPushResult> {
+    const timestamp = this.getTimestamp();
+    const { body } = await this.post('/mpesa/stkpushquery/v1/query', {
+      BusinessShortCode: this.config.shortCode,
+      Password: this.getPassword(timestamp),
+      Timestamp: timestamp,
+      CheckoutRequestID: checkoutRequestId
+    });
+
+    // Daraja answers with an error while the customer still has the prompt open
+    if (body.ResultCode === undefined) {
+      return {
+        status: 'pending',
+        resultCode: null,
+        resultDesc: body.errorMessage || 'Waiting for the customer',
+        receipt: null,
+        amount: null
+      };
+    }
+
+    const resultCode = Number(body.ResultCode);
+    return {
+      status: resultCode === STK_RESULT_CODES.SUCCESS ? 'paid' : 'failed',
+      resultCode,
+      resultDesc: body.ResultDesc,
+      // The query API doesn't return the receipt; the callback fills it in
+      receipt: null,
+      amount: null
+    };
+  }
+}
+
+// Pick the gateway by name, or from PAYMENT_GATEWAY ('daraja_stk' or 'simulator').
+// Payments are always queried through the gateway that started them. There is no
+// default: the simulator marks payments paid without any money arriving, so a
+// project has to ask for it by name.
+export const getPaymentGateway = (name?: string): PaymentGateway => {
+  const gateway = name || requireEnv('PAYMENT_GATEWAY');
+
+  if (gateway === 'daraja_stk') {
+    const shortCode = requireEnv('DARAJA_STK_SHORTCODE');
+    return new DarajaStkGateway({
+      baseUrl: getDarajaBaseUrl(),
+      consumerKey: requireEnv('DARAJA_CONSUMER_KEY'),
+      consumerSecret: requireEnv('DARAJA_CONSUMER_SECRET'),
+      shortCode,
+      passkey: requireEnv('DARAJA_STK_PASSKEY'),
+      partyB: Deno.env.get('DARAJA_STK_TILL_NUMBER') || shortCode,
+      transactionType: Deno.env.get('DARAJA_STK_TILL_NUMBER') ? 'CustomerBuyGoodsOnline' : 'CustomerPayBillOnline',
+      callbackUrl: requireEnv('DARAJA_STK_CALLBACK_URL')
+    });
+  }
+
+  if (gateway !== 'simulator') {
+    throw new Error(`Unknown payment gateway: ${gateway}`);
+  }
+
+  return new SimulatedStkGateway();
+};
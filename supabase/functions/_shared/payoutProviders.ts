@@ -0,0 +1,186 @@
+// Payout providers used by the withdrawal edge functions. A provider sends money
+// to an M-Pesa number and reports whether it was paid, is still in flight, or failed.
+// 'timed_out' means the provider lost track of the payout: the money may or may not
+// have moved, so the withdrawal can be neither retried nor refunded until checkPayout
+// or a late result settles it.
+import { getDarajaAccessToken, getDarajaBaseUrl, requireEnv } from './daraja.ts';
+
+export interface PayoutRequest {
+  withdrawalId: string;
+  amount: number;
+  // 2547XXXXXXXX / 2541XXXXXXXX
+  phoneNumber: string;
+}
+
+export type PayoutStatus = 'processing' | 'paid' | 'failed' | 'timed_out';
+
+export interface PayoutResult {
+  status: PayoutStatus;
+  // Provider's id for the payout; results posted back later are matched on it
+  reference: string | null;
+  message: string;
+}
+
+export interface PayoutCheck {
+  withdrawalId: string;
+  // The reference sendPayout returned
+  reference: string;
+}
+
+export interface PayoutProvider {
+  name: string;
+  sendPayout(request: PayoutRequest): Promise<PayoutResult>;
+  // Asks the provider how a timed-out payout ended, for when its result never arrived
+  checkPayout(check: PayoutCheck): Promise<PayoutResult>;
+}
+
+// Pays instantly without moving any money, for local development and tests.
+// Payouts to FAKE_FAILING_NUMBER fail so the failure path can be exercised too.
+export class FakePayoutProvider implements PayoutProvider {
+  static readonly FAKE_FAILING_NUMBER = '254700000000';
+
+  name = 'fake';
+
+  async sendPayout(request: PayoutRequest): Promise<PayoutResult> {
+    if (request.phoneNumber === FakePayoutProvider.FAKE_FAILING_NUMBER) {
+      return { status: 'failed', reference: null, message: 'Fake payout declined' };
+    }
+
+    return {
+      status: 'paid',
+      reference: `FAKE${request.withdrawalId.replace(/-/g, '').slice(0, 6).toUpperCase()}`,
+      message: 'Fake payout sent'
+    };
+  }
+
+  // Fake payouts settle as soon as they are sent, so there is never anything to check
+  async checkPayout(check: PayoutCheck): Promise<PayoutResult> {
+    return { status: 'processing', reference: check.reference, message: 'Fake payouts settle when sent' };
+  }
+}
+
+export interface DarajaB2CConfig {
+  baseUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  shortCode: string;
+  initiatorName: string;
+  securityCredential: string;
+  // Where Safaricom posts the final result, e.g. the daraja-b2c-result function
+  resultUrl: string;
+  // Where Safaricom posts a request it gave up on, e.g. the daraja-b2c-timeout function
+  timeoutUrl: string;
+  // Where Safaricom posts transaction status answers, e.g. the daraja-b2c-status-result function
+  statusResultUrl: string;
+}
+
+// Safaricom Daraja B2C (business to customer) payments. Daraja only accepts the
+// request here; the outcome is posted to resultUrl later, so payouts start as 'processing'.
+export class DarajaB2CProvider implements PayoutProvider {
+  name = 'daraja_b2c';
+
+  constructor(private config: DarajaB2CConfig) {}
+
+  private async post(path: string, body: Record<string, unknown>) {
+    const token = await getDarajaAccessToken(
+      this.config.baseUrl,
+      this.config.consumerKey,
+      this.config.consumerSecret
+    );
+    const response = await fetch(`${this.config.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    return { ok: response.ok, status: response.status, body: await response.json().catch(() => ({})) };
+  }
+
+  async sendPayout(request: PayoutRequest): Promise<PayoutResult> {
+    const { ok, status, body } = await this.post('/mpesa/b2c/v1/paymentrequest', {
+      OriginatorConversationID: `${request.withdrawalId}-${Date.now()}`,
+      InitiatorName: this.config.initiatorName,
+      SecurityCredential: this.config.securityCredential,
+      CommandID: 'BusinessPayment',
+      Amount: request.amount,
+      PartyA: this.config.shortCode,
+      PartyB: request.phoneNumber,
+      Remarks: 'Survey earnings withdrawal',
+      QueueTimeOutURL: this.config.timeoutUrl,
+      ResultURL: this.config.resultUrl,
+      Occasion: request.withdrawalId
+    });
+
+    if (!ok || body.ResponseCode !== '0') {
+      return {
+        status: 'failed',
+        reference: null,
+        message: body.errorMessage || body.ResponseDescription || `Daraja request failed (${status})`
+      };
+    }
+
+    return {
+      status: 'processing',
+      reference: body.ConversationID,
+      message: body.ResponseDescription || 'Accepted for processing'
+    };
+  }
+
+  // Transaction status queries are answered asynchronously too: the answer goes to
+  // statusResultUrl, and the withdrawal stays 'timed_out' until it arrives
+  async checkPayout(check: PayoutCheck): Promise<PayoutResult> {
+    const { ok, status, body } = await this.post('/mpesa/transactionstatus/v1/query', {
+      Initiator: this.config.initiatorName,
+      SecurityCredential: this.config.securityCredential,
+      CommandID: 'TransactionStatusQuery',
+      TransactionID: '',
+      OriginalConversationID: check.reference,
+      PartyA: this.config.shortCode,
+      IdentifierType: '4',
+      ResultURL: this.config.statusResultUrl,
+      QueueTimeOutURL: this.config.timeoutUrl,
+      Remarks: 'Withdrawal payout status',
+      Occasion: check.withdrawalId
+    });
+
+    if (!ok || body.ResponseCode !== '0') {
+      throw new Error(body.errorMessage || body.ResponseDescription || `Daraja request failed (${status})`);
+    }
+
+    return {
+      status: 'timed_out',
+      reference: check.reference,
+      message: 'Status check sent to Daraja'
+    };
+  }
+}
+
+// Pick the provider from PAYOUT_PROVIDER ('daraja_b2c' or 'fake'). There is no
+// default: the fake provider marks withdrawals paid without sending anything, so a
+// project has to ask for it by name.
+export const getPayoutProvider = (): PayoutProvider => {
+  const provider = requireEnv('PAYOUT_PROVIDER');
+
+  if (provider === 'daraja_b2c') {
+    return new DarajaB2CProvider({
+      baseUrl: getDarajaBaseUrl(),
+      consumerKey: requireEnv('DARAJA_CONSUMER_KEY'),
+      consumerSecret: requireEnv('DARAJA_CONSUMER_SECRET'),
+      shortCode: requireEnv('DARAJA_B2C_SHORTCODE'),
+      initiatorName: requireEnv('DARAJA_B2C_INITIATOR_NAME'),
+      securityCredential: requireEnv('DARAJA_B2C_SECURITY_CREDENTIAL'),
+      resultUrl: requireEnv('DARAJA_B2C_RESULT_URL'),
+      timeoutUrl: requireEnv('DARAJA_B2C_TIMEOUT_URL'),
+      statusResultUrl: requireEnv('DARAJA_B2C_STATUS_RESULT_URL')
+    });
+  }
+
+  if (provider !== 'fake') {
+    throw new Error(`Unknown payout provider: ${provider}`);
+  }
+
+  return new FakePayoutProvider();
+};
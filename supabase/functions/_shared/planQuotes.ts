@@ -0,0 +1,102 @@
+// Prices a plan change for one user: a fresh period, a renewal, or an upgrade that
+// pays only the difference for the rest of the current period. Account credit is
+// put towards the price before anything is charged to M-Pesa.
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPlanPeriodDays, getPlanPrices } from './plans.ts';
+
+export type PlanChangeType = 'new' | 'renewal' | 'upgrade';
+
+export interface PlanQuote {
+  planName: string;
+  changeType: PlanChangeType;
+  // The plan's full monthly price
+  planPrice: number;
+  // What this change costs: the full price, or the prorated difference for an upgrade
+  price: number;
+  creditApplied: number;
+  // Left to pay with M-Pesa after credit
+  amountDue: number;
+  // Upgrades keep the current period's expiry
+  periodEndsAt: string | null;
+}
+
+export type PlanQuoteResult =
+  | { quote: PlanQuote; error?: undefined }
+  | { quote?: undefined; error: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getPlanCreditBalance = async (serviceClient: SupabaseClient, userId: string) => {
+  const { data, error } = await serviceClient.rpc('get_plan_credit_balance', { p_user_id: userId });
+  if (error) {
+    throw new Error(`Could not read account credit: ${error.message}`);
+  }
+
+  return Number(data) || 0;
+};
+
+export const quotePlanChange = async (
+  serviceClient: SupabaseClient,
+  userId: string,
+  planName: string
+): Promise<PlanQuoteResult> => {
+  const [plans, periodDays, credit, { data: profile }] = await Promise.all([
+    getPlanPrices(),
+    getPlanPeriodDays(),
+    getPlanCreditBalance(serviceClient, userId),
+    serviceClient
+      .from('user_profiles')
+      .select('current_plan, plan_expires_at')
+      .eq('id', userId)
+      .single()
+  ]);
+
+  const target = plans.find(plan => plan.planName === planName);
+  if (!target || target.price <= 0) {
+    return { error: 'This plan is not available to buy' };
+  }
+
+  const currentPlanName: string | null = profile?.current_plan ?? null;
+  const currentPrice = plans.find(plan => plan.planName === currentPlanName)?.price ?? 0;
+  const expiresAt = profile?.plan_expires_at ? new Date(profile.plan_expires_at) : null;
+  const remainingMs = expiresAt ? expiresAt.getTime() - Date.now() : 0;
+  const inPaidPeriod = currentPrice > 0 && remainingMs > 0;
+
+  let changeType: PlanChangeType = 'new';
+  let price = target.price;
+  let periodEndsAt: string | null = null;
+
+  if (currentPlanName === target.planName) {
+    changeType = 'renewal';
+  } else if (inPaidPeriod && target.price < currentPrice) {
+    return { error: `Lower plans start when your ${currentPlanName} plan ends. Schedule the change instead.` };
+  } else if (inPaidPeriod && expiresAt) {
+    // Pay the difference between the plans for the time left on the current period
+    changeType = 'upgrade';
+    price = Math.ceil((target.price - currentPrice) * remainingMs / (periodDays * DAY_MS));
+    periodEndsAt = expiresAt.toISOString();
+  }
+
+  const creditApplied = Math.min(credit, price);
+  return {
+    quote: {
+      planName: target.planName,
+      changeType,
+      planPrice: target.price,
+      price,
+      creditApplied,
+      amountDue: price - creditApplied,
+      periodEndsAt
+    }
+  };
+};
+
+// Columns a plan_payments row needs to settle the way it was quoted
+export const toPaymentFields = (quote: PlanQuote) => ({
+  plan_name: quote.planName,
+  change_type: quote.changeType,
+  price: quote.price,
+  credit_applied: quote.creditApplied,
+  amount: quote.amountDue,
+  period_ends_at: quote.periodEndsAt
+});
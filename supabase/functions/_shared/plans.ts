@@ -0,0 +1,79 @@
+// The edge functions price plans from the plan_config row the app and the database
+// read, so a user can't pick their own price for a plan.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { requireEnv } from './daraja.ts';
+
+export interface PlanPrice {
+  planName: string;
+  price: number;
+}
+
+export interface TillDetails {
+  tillName: string;
+  tillNumber: string;
+}
+
+// The plan config version these functions understand. Keep it in step with
+// PLAN_CONFIG_VERSION in src/schemas/planSchema.ts, which validates the whole document.
+const PLAN_CONFIG_VERSION = 2;
+
+const loadPlanConfig = async () => {
+  // The plan config is readable by anyone, so the anon key is enough
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'));
+  const { data, error } = await client.from('plan_config').select('document').single();
+  if (error) {
+    throw new Error(`Could not load plan config: ${error.message}`);
+  }
+
+  const config = data.document;
+  // Refuse to price payments from a document whose shape may have changed
+  if (config?.version !== PLAN_CONFIG_VERSION) {
+    throw new Error(`Unsupported plan config version ${config?.version}, expected ${PLAN_CONFIG_VERSION}`);
+  }
+
+  return config;
+};
+
+export const getPlanPrices = async (): Promise<PlanPrice[]> => {
+  const { surveyPlans } = await loadPlanConfig();
+  return (surveyPlans || []).map((plan: { planName: string; price: string }) => {
+    if (!/^\d+$/.test(plan.price)) {
+      throw new Error(`Plan ${plan.planName} has an invalid price`);
+    }
+    return { planName: plan.planName, price: parseInt(plan.price) };
+  });
+};
+
+export const getPlanPrice = async (planName: string): Promise<PlanPrice | null> => {
+  const plans = await getPlanPrices();
+  return plans.find(plan => plan.planName === planName) || null;
+};
+
+// The paid plan that costs exactly this amount, if any
+export const getPlanByPrice = async (amount: number): Promise<PlanPrice | null> => {
+  const plans = await getPlanPrices();
+  return plans.find(plan => plan.price > 0 && plan.price === amount) || null;
+};
+
+// Length of a paid period, which upgrades are prorated over
+export const getPlanPeriodDays = async (): Promise<number> => {
+  const { subscription } = await loadPlanConfig();
+  const periodDays = Number(subscription?.periodDays);
+  if (!Number.isInteger(periodDays) || periodDays <= 0) {
+    throw new Error('Plan config has no subscription period');
+  }
+  return periodDays;
+};
+
+// The till customers pay into when they don't use STK Push
+export const getTillDetails = async (): Promise<TillDetails> => {
+  const { mpesaPaymentDetails } = await loadPlanConfig();
+  if (!mpesaPaymentDetails?.tillNumber) {
+    throw new Error('Plan config has no M-Pesa till');
+  }
+
+  return {
+    tillName: String(mpesaPaymentDetails.tillName || ''),
+    tillNumber: String(mpesaPaymentDetails.tillNumber)
+  };
+};
@@ -0,0 +1,69 @@
+// Asks the payout provider how a timed-out withdrawal ended. Called by admins from the
+// withdrawal queue: supabase.functions.invoke('check-withdrawal-payout')
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { getPayoutProvider } from '../_shared/payoutProviders.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+  // Check the caller is an admin using their own token, so RLS and is_admin() apply
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: isAdmin, error: roleError } = await callerClient.rpc('is_admin');
+  if (roleError || !isAdmin) {
+    return json({ error: 'Only admins can check payouts' }, 403);
+  }
+
+  const { withdrawalId } = await req.json().catch(() => ({}));
+  if (!withdrawalId) {
+    return json({ error: 'withdrawalId is required' }, 400);
+  }
+
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: withdrawal, error: loadError } = await serviceClient
+    .from('withdrawals')
+    .select('*')
+    .eq('id', withdrawalId)
+    .single();
+
+  if (loadError || !withdrawal) {
+    return json({ error: 'Withdrawal not found' }, 404);
+  }
+  if (withdrawal.status !== 'timed_out' || !withdrawal.payout_reference) {
+    return json({ error: `Withdrawal is ${withdrawal.status}` }, 409);
+  }
+
+  let result;
+  try {
+    // Always ask the provider that sent the payout
+    const provider = getPayoutProvider();
+    if (provider.name !== withdrawal.payout_provider) {
+      return json({ error: `Payout was sent through ${withdrawal.payout_provider}` }, 409);
+    }
+
+    result = await provider.checkPayout({ withdrawalId, reference: withdrawal.payout_reference });
+  } catch (error) {
+    return json({ error: (error as Error).message }, 502);
+  }
+
+  const { data: updated, error: recordError } = await serviceClient.rpc('record_withdrawal_payout', {
+    p_withdrawal_id: withdrawalId,
+    p_status: result.status,
+    p_provider: withdrawal.payout_provider,
+    p_reference: result.reference,
+    p_message: result.message
+  });
+
+  if (recordError) {
+    console.error('Error recording payout check:', recordError);
+    return json({ error: 'Status check sent but could not be recorded' }, 500);
+  }
+
+  return json({ withdrawal: updated });
+});
@@ -0,0 +1,51 @@
+// Receives Daraja B2C results and settles the matching withdrawal. Timeouts go to
+// daraja-b2c-timeout instead: only a real ResultCode says whether the money moved.
+// Safaricom calls this without a Supabase JWT, so deploy it with --no-verify-jwt and
+// set DARAJA_B2C_RESULT_URL to this function's URL with ?token=<DARAJA_CALLBACK_TOKEN>.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DarajaResult, getResultParameter } from '../_shared/daraja.ts';
+import { darajaAccepted, hasCallbackToken } from '../_shared/http.ts';
+
+Deno.serve(async (req) => {
+  if (!hasCallbackToken(req)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const result: DarajaResult | undefined = body?.Result;
+  if (!result?.ConversationID) {
+    return new Response('Bad request', { status: 400 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: withdrawal } = await supabase
+    .from('withdrawals')
+    .select('id')
+    .eq('payout_provider', 'daraja_b2c')
+    .eq('payout_reference', result.ConversationID)
+    .maybeSingle();
+
+  if (!withdrawal) {
+    console.error('No withdrawal for Daraja conversation', result.ConversationID);
+    return darajaAccepted();
+  }
+
+  const paid = Number(result.ResultCode) === 0;
+  const receipt = getResultParameter(result, 'TransactionReceipt') || result.TransactionID;
+
+  const { error } = await supabase.rpc('record_withdrawal_payout', {
+    p_withdrawal_id: withdrawal.id,
+    p_status: paid ? 'paid' : 'failed',
+    p_provider: 'daraja_b2c',
+    // Keep the conversation id on failures so a late success can still be matched
+    p_reference: paid && receipt ? String(receipt) : result.ConversationID,
+    p_message: result.ResultDesc
+  });
+
+  if (error) {
+    console.error('Error recording Daraja result:', error);
+    return new Response('Error', { status: 500 });
+  }
+
+  return darajaAccepted();
+});
@@ -0,0 +1,62 @@
+// Receives Daraja transaction status answers sent for timed-out payouts by
+// check-withdrawal-payout, and settles the withdrawal once M-Pesa says how it ended.
+// Safaricom calls this without a Supabase JWT, so deploy it with --no-verify-jwt and set
+// DARAJA_B2C_STATUS_RESULT_URL to this function's URL with ?token=<DARAJA_CALLBACK_TOKEN>.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DarajaResult, getReferenceItem, getResultParameter } from '../_shared/daraja.ts';
+import { darajaAccepted, hasCallbackToken } from '../_shared/http.ts';
+
+Deno.serve(async (req) => {
+  if (!hasCallbackToken(req)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const result: DarajaResult | undefined = body?.Result;
+  if (!result?.ConversationID) {
+    return new Response('Bad request', { status: 400 });
+  }
+
+  // The query's Occasion is the withdrawal id; its ConversationID is the query's own
+  const withdrawalId = getReferenceItem(result, 'Occasion');
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: withdrawal } = withdrawalId
+    ? await supabase
+      .from('withdrawals')
+      .select('id, amount, payout_reference')
+      .eq('id', String(withdrawalId))
+      .eq('payout_provider', 'daraja_b2c')
+      .eq('status', 'timed_out')
+      .maybeSingle()
+    : { data: null };
+
+  if (!withdrawal) {
+    console.error('No timed-out withdrawal for Daraja status query', result.ConversationID);
+    return darajaAccepted();
+  }
+
+  // A non-zero ResultCode means the query failed, not the payout. Only a transaction
+  // M-Pesa reports as completed or failed, for the withdrawal's amount, settles it.
+  const transactionStatus = String(getResultParameter(result, 'TransactionStatus') || '');
+  const amount = Number(getResultParameter(result, 'Amount'));
+  const receipt = getResultParameter(result, 'ReceiptNo');
+  const settled = Number(result.ResultCode) === 0
+    && ['Completed', 'Failed'].includes(transactionStatus)
+    && amount === withdrawal.amount;
+
+  const paid = settled && transactionStatus === 'Completed';
+  const { error } = await supabase.rpc('record_withdrawal_payout', {
+    p_withdrawal_id: withdrawal.id,
+    p_status: settled ? (paid ? 'paid' : 'failed') : 'timed_out',
+    p_provider: 'daraja_b2c',
+    p_reference: paid && receipt ? String(receipt) : withdrawal.payout_reference,
+    p_message: settled ? result.ResultDesc : `Status check inconclusive: ${result.ResultDesc}`
+  });
+
+  if (error) {
+    console.error('Error recording Daraja status result:', error);
+    return new Response('Error', { status: 500 });
+  }
+
+  return darajaAccepted();
+});
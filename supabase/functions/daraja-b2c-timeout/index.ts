@@ -0,0 +1,49 @@
+// Receives Daraja QueueTimeOut callbacks for B2C payouts. A timeout does not mean the
+// money stayed put, so the withdrawal is marked 'timed_out': it can't be retried or
+// refunded until a late result or a check-withdrawal-payout status query settles it.
+// Safaricom calls this without a Supabase JWT, so deploy it with --no-verify-jwt and
+// set DARAJA_B2C_TIMEOUT_URL to this function's URL with ?token=<DARAJA_CALLBACK_TOKEN>.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DarajaResult } from '../_shared/daraja.ts';
+import { darajaAccepted, hasCallbackToken } from '../_shared/http.ts';
+
+Deno.serve(async (req) => {
+  if (!hasCallbackToken(req)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const result: DarajaResult | undefined = body?.Result;
+  if (!result?.ConversationID) {
+    return new Response('Bad request', { status: 400 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: withdrawal } = await supabase
+    .from('withdrawals')
+    .select('id')
+    .eq('payout_provider', 'daraja_b2c')
+    .eq('payout_reference', result.ConversationID)
+    .maybeSingle();
+
+  // Timed-out status queries land here too; they leave the withdrawal as it was
+  if (!withdrawal) {
+    console.error('No withdrawal for timed-out Daraja conversation', result.ConversationID);
+    return darajaAccepted();
+  }
+
+  const { error } = await supabase.rpc('record_withdrawal_payout', {
+    p_withdrawal_id: withdrawal.id,
+    p_status: 'timed_out',
+    p_provider: 'daraja_b2c',
+    p_reference: result.ConversationID,
+    p_message: result.ResultDesc || 'Daraja timed out before the payout completed'
+  });
+
+  if (error) {
+    console.error('Error recording Daraja timeout:', error);
+    return new Response('Error', { status: 500 });
+  }
+
+  return darajaAccepted();
+});
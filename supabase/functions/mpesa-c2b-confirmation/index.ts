@@ -0,0 +1,71 @@
+// Receives Daraja C2B confirmations for payments into the till and stores them, so
+// verify-mpesa-sms can check a pasted SMS against what Safaricom reported.
+// Safaricom calls this without a Supabase JWT, so deploy it with --no-verify-jwt and
+// register this function's URL with ?token=<DARAJA_CALLBACK_TOKEN> as the till's
+// ConfirmationURL through Daraja's C2B Register URL API.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { darajaAccepted, hasCallbackToken } from '../_shared/http.ts';
+
+interface C2BConfirmation {
+  TransactionType?: string;
+  TransID: string;
+  // YYYYMMDDHHmmss in Kenyan time
+  TransTime?: string;
+  TransAmount: string | number;
+  BusinessShortCode: string | number;
+  BillRefNumber?: string;
+  MSISDN?: string | number;
+  FirstName?: string;
+  MiddleName?: string;
+  LastName?: string;
+}
+
+// 20240312160500 -> 2024-03-12T16:05:00+03:00
+const toTransactedAt = (transTime: string | undefined): string | null => {
+  const match = transTime?.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}+03:00`;
+};
+
+Deno.serve(async (req) => {
+  if (!hasCallbackToken(req)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const confirmation: C2BConfirmation | null = await req.json().catch(() => null);
+  const amount = Number(confirmation?.TransAmount);
+  if (!confirmation?.TransID || !(amount > 0) || !confirmation.BusinessShortCode) {
+    return new Response('Bad request', { status: 400 });
+  }
+
+  const payerName = [confirmation.FirstName, confirmation.MiddleName, confirmation.LastName]
+    .filter(Boolean)
+    .join(' ');
+
+  // Daraja retries confirmations it thinks were lost, so a repeat is left as it was
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { error } = await supabase
+    .from('mpesa_c2b_confirmations')
+    .upsert({
+      trans_id: confirmation.TransID.toUpperCase(),
+      transaction_type: confirmation.TransactionType || null,
+      amount,
+      business_short_code: String(confirmation.BusinessShortCode),
+      bill_ref_number: confirmation.BillRefNumber || null,
+      msisdn: confirmation.MSISDN ? String(confirmation.MSISDN) : null,
+      payer_name: payerName || null,
+      transacted_at: toTransactedAt(confirmation.TransTime),
+      payload: confirmation
+    }, { onConflict: 'trans_id', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('Error storing C2B confirmation:', error);
+    return new Response('Error', { status: 500 });
+  }
+
+  return darajaAccepted();
+});
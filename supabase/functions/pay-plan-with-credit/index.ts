@@ -0,0 +1,63 @@
+// Buys a plan change entirely with account credit, for when the credit covers
+// the amount due and there is nothing to charge to M-Pesa.
+// supabase.functions.invoke('pay-plan-with-credit', { body: { planName } })
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { quotePlanChange, toPaymentFields } from '../_shared/planQuotes.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { planName } = await req.json().catch(() => ({}));
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { quote, error: quoteError } = await quotePlanChange(serviceClient, user.id, planName);
+  if (!quote) {
+    return json({ error: quoteError }, 400);
+  }
+  if (quote.amountDue > 0) {
+    return json({ error: `Your account credit is KSh ${quote.amountDue} short of this plan` }, 400);
+  }
+
+  const { data: payment, error: insertError } = await serviceClient
+    .from('plan_payments')
+    .insert({
+      user_id: user.id,
+      ...toPaymentFields(quote),
+      method: 'credit',
+      gateway: 'credit'
+    })
+    .select()
+    .single();
+
+  if (insertError || !payment) {
+    console.error('Error creating credit payment:', insertError);
+    return json({ error: 'Could not use your account credit' }, 500);
+  }
+
+  // settle_plan_payment re-checks the balance under a lock before spending it
+  const { data: settled, error } = await serviceClient.rpc('settle_plan_payment', {
+    p_payment_id: payment.id,
+    p_result_code: 0,
+    p_result_desc: 'Paid with account credit',
+    p_receipt: null,
+    p_amount: 0
+  });
+
+  if (error) {
+    console.error('Error settling credit payment:', error);
+    return json({ error: 'Could not use your account credit' }, 500);
+  }
+
+  return json({ payment: settled });
+});
@@ -0,0 +1,34 @@
+// Prices a plan change for the signed-in user before they pay, including any
+// proration and account credit, so the app shows the amount actually due.
+// supabase.functions.invoke('plan-quote', { body: { planName } })
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { getPlanCreditBalance, quotePlanChange } from '../_shared/planQuotes.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { planName } = await req.json().catch(() => ({}));
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const [{ quote, error }, creditBalance] = await Promise.all([
+    quotePlanChange(serviceClient, user.id, planName),
+    getPlanCreditBalance(serviceClient, user.id)
+  ]);
+
+  if (!quote) {
+    return json({ error, creditBalance }, 400);
+  }
+
+  return json({ quote, creditBalance });
+});
@@ -0,0 +1,54 @@
+// Records the device fingerprint and IP address the signed-in user signed up from,
+// then rechecks their referral for signs of self-referral. Called once after email
+// verification: supabase.functions.invoke('record-signup-signals', { body: { deviceFingerprint } })
+//
+// The fingerprint is computed in the browser, so it is advisory only: a user can
+// send a made-up one to avoid a shared_device flag. It can add a flag but never
+// clears one. The IP address is read here from the request rather than sent by the
+// app, and complete_referral runs every check again before a referral is paid.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+
+// The hex SHA-256 digest getDeviceFingerprint produces; anything else isn't stored
+const FINGERPRINT = /^[0-9a-f]{64}$/;
+
+// The first address in x-forwarded-for is the client; the rest are proxies
+const clientIp = (req: Request): string | null => {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || req.headers.get('x-real-ip') || null;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { deviceFingerprint } = await req.json().catch(() => ({}));
+
+  // record_signup_signals is not callable by signed-in users, so a user can't
+  // overwrite what was recorded for them
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { error } = await serviceClient.rpc('record_signup_signals', {
+    p_user_id: user.id,
+    p_device_fingerprint: typeof deviceFingerprint === 'string' && FINGERPRINT.test(deviceFingerprint)
+      ? deviceFingerprint
+      : null,
+    p_ip_address: clientIp(req)
+  });
+
+  if (error) {
+    console.error('Error recording signup signals:', error);
+    return json({ error: 'Could not record signup details' }, 500);
+  }
+
+  return json({ recorded: true });
+});
@@ -0,0 +1,60 @@
+// Schedules a move to a lower plan for when the current paid period ends, or
+// cancels one with planName: null. The plan only changes at expiry, when
+// expire_plan_subscriptions() applies it.
+// supabase.functions.invoke('schedule-plan-change', { body: { planName } })
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { getPlanPrices } from '../_shared/plans.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { planName } = await req.json().catch(() => ({}));
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const [plans, { data: profile }] = await Promise.all([
+    getPlanPrices(),
+    serviceClient
+      .from('user_profiles')
+      .select('current_plan, plan_expires_at')
+      .eq('id', user.id)
+      .single()
+  ]);
+
+  if (planName) {
+    const current = plans.find(plan => plan.planName === profile?.current_plan);
+    const target = plans.find(plan => plan.planName === planName);
+    const inPaidPeriod = !!profile?.plan_expires_at && new Date(profile.plan_expires_at) > new Date();
+
+    if (!current || !inPaidPeriod) {
+      return json({ error: 'You can only schedule a change while a paid plan is running' }, 400);
+    }
+    if (!target || target.price >= current.price) {
+      return json({ error: `${planName} is not a lower plan than ${current.planName}` }, 400);
+    }
+  }
+
+  const { data: updated, error } = await serviceClient
+    .from('user_profiles')
+    .update({ scheduled_plan: planName || null })
+    .eq('id', user.id)
+    .select('current_plan, scheduled_plan, plan_expires_at')
+    .single();
+
+  if (error) {
+    console.error('Error scheduling plan change:', error);
+    return json({ error: 'Could not schedule the plan change' }, 500);
+  }
+
+  return json({ profile: updated });
+});
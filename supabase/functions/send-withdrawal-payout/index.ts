@@ -0,0 +1,92 @@
+// Sends an approved withdrawal through the configured payout provider.
+// Called by admins from the withdrawal queue: supabase.functions.invoke('send-withdrawal-payout')
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { getPayoutProvider } from '../_shared/payoutProviders.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+  // Check the caller is an admin using their own token, so RLS and is_admin() apply
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: isAdmin, error: roleError } = await callerClient.rpc('is_admin');
+  if (roleError || !isAdmin) {
+    return json({ error: 'Only admins can send payouts' }, 403);
+  }
+
+  const { withdrawalId } = await req.json().catch(() => ({}));
+  if (!withdrawalId) {
+    return json({ error: 'withdrawalId is required' }, 400);
+  }
+
+  // Payout results are recorded with the service role; record_withdrawal_payout is not
+  // callable by signed-in users
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: withdrawal, error: loadError } = await serviceClient
+    .from('withdrawals')
+    .select('*')
+    .eq('id', withdrawalId)
+    .single();
+
+  if (loadError || !withdrawal) {
+    return json({ error: 'Withdrawal not found' }, 404);
+  }
+  // A timed-out payout may have been sent, so it is checked with check-withdrawal-payout
+  // rather than sent again
+  if (withdrawal.status !== 'approved' && withdrawal.status !== 'failed') {
+    return json({ error: `Withdrawal is ${withdrawal.status}` }, 409);
+  }
+
+  // Fails when PAYOUT_PROVIDER isn't set, before the withdrawal is touched
+  let provider;
+  try {
+    provider = getPayoutProvider();
+  } catch (error) {
+    return json({ error: (error as Error).message }, 500);
+  }
+
+  // Claim the withdrawal before calling the provider so a double click can't pay twice
+  const { data: claimed, error: claimError } = await serviceClient
+    .from('withdrawals')
+    .update({ status: 'processing', payout_provider: provider.name, payout_message: null })
+    .eq('id', withdrawalId)
+    .eq('status', withdrawal.status)
+    .select()
+    .maybeSingle();
+
+  if (claimError || !claimed) {
+    return json({ error: 'Withdrawal is already being paid' }, 409);
+  }
+
+  let result;
+  try {
+    result = await provider.sendPayout({
+      withdrawalId,
+      amount: withdrawal.amount,
+      phoneNumber: withdrawal.mpesa_number
+    });
+  } catch (error) {
+    result = { status: 'failed', reference: null, message: (error as Error).message };
+  }
+
+  const { data: updated, error: recordError } = await serviceClient.rpc('record_withdrawal_payout', {
+    p_withdrawal_id: withdrawalId,
+    p_status: result.status,
+    p_provider: provider.name,
+    p_reference: result.reference,
+    p_message: result.message
+  });
+
+  if (recordError) {
+    console.error('Error recording payout:', recordError);
+    return json({ error: 'Payout sent but its result could not be recorded' }, 500);
+  }
+
+  return json({ withdrawal: updated });
+});
@@ -0,0 +1,63 @@
+// Receives Daraja STK Push callbacks and settles the matching plan payment.
+// Safaricom calls this without a Supabase JWT, so deploy it with --no-verify-jwt and
+// set DARAJA_STK_CALLBACK_URL to this function's URL with ?token=<DARAJA_CALLBACK_TOKEN>.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { darajaAccepted, hasCallbackToken } from '../_shared/http.ts';
+
+interface StkCallbackItem {
+  Name: string;
+  Value?: string | number;
+}
+
+interface StkCallback {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: number;
+  ResultDesc: string;
+  CallbackMetadata?: { Item: StkCallbackItem[] };
+}
+
+const getCallbackItem = (callback: StkCallback, name: string) =>
+  callback.CallbackMetadata?.Item.find(item => item.Name === name)?.Value;
+
+Deno.serve(async (req) => {
+  if (!hasCallbackToken(req)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const callback: StkCallback | undefined = body?.Body?.stkCallback;
+  if (!callback?.CheckoutRequestID) {
+    return new Response('Bad request', { status: 400 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: payment } = await supabase
+    .from('plan_payments')
+    .select('id')
+    .eq('checkout_request_id', callback.CheckoutRequestID)
+    .maybeSingle();
+
+  if (!payment) {
+    console.error('No plan payment for checkout request', callback.CheckoutRequestID);
+    return darajaAccepted();
+  }
+
+  const receipt = getCallbackItem(callback, 'MpesaReceiptNumber');
+  const amount = getCallbackItem(callback, 'Amount');
+
+  const { error } = await supabase.rpc('settle_plan_payment', {
+    p_payment_id: payment.id,
+    p_result_code: Number(callback.ResultCode),
+    p_result_desc: callback.ResultDesc,
+    p_receipt: receipt ? String(receipt) : null,
+    p_amount: amount !== undefined ? Math.floor(Number(amount)) : null
+  });
+
+  if (error) {
+    console.error('Error settling plan payment:', error);
+    return new Response('Error', { status: 500 });
+  }
+
+  return darajaAccepted();
+});
@@ -0,0 +1,96 @@
+// Starts an M-Pesa STK Push for the amount due on a plan change (see plan-quote).
+// Called from PlanUpgrade:
+// supabase.functions.invoke('stk-push-initiate', { body: { planName, amount, phoneNumber } })
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { getPaymentGateway } from '../_shared/paymentGateways.ts';
+import { quotePlanChange, toPaymentFields } from '../_shared/planQuotes.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { planName, amount, phoneNumber } = await req.json().catch(() => ({}));
+  if (!/^254[17]\d{8}$/.test(phoneNumber || '')) {
+    return json({ error: 'Enter a valid M-Pesa number' }, 400);
+  }
+
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { quote, error: quoteError } = await quotePlanChange(serviceClient, user.id, planName);
+  if (!quote) {
+    return json({ error: quoteError }, 400);
+  }
+
+  // The amount shown to the user must match what is actually due now
+  if (quote.amountDue !== amount) {
+    return json({ error: 'The price of this plan has changed. Please try again.' }, 409);
+  }
+  if (quote.amountDue === 0) {
+    return json({ error: 'Your account credit covers this plan' }, 400);
+  }
+
+  // Fails when PAYMENT_GATEWAY isn't set, before a payment is recorded
+  let gateway;
+  try {
+    gateway = getPaymentGateway();
+  } catch (error) {
+    return json({ error: (error as Error).message }, 500);
+  }
+
+  const { data: payment, error: insertError } = await serviceClient
+    .from('plan_payments')
+    .insert({
+      user_id: user.id,
+      ...toPaymentFields(quote),
+      phone_number: phoneNumber,
+      gateway: gateway.name
+    })
+    .select()
+    .single();
+
+  if (insertError || !payment) {
+    console.error('Error creating plan payment:', insertError);
+    return json({ error: 'Could not start the payment' }, 500);
+  }
+
+  try {
+    const initiation = await gateway.initiatePayment({
+      paymentId: payment.id,
+      amount: quote.amountDue,
+      phoneNumber,
+      accountReference: quote.planName,
+      description: `${quote.planName} plan`
+    });
+
+    const { data: updated } = await serviceClient
+      .from('plan_payments')
+      .update({
+        checkout_request_id: initiation.checkoutRequestId,
+        merchant_request_id: initiation.merchantRequestId,
+        result_desc: initiation.message
+      })
+      .eq('id', payment.id)
+      .select()
+      .single();
+
+    return json({ payment: updated });
+  } catch (error) {
+    const message = (error as Error).message;
+    await serviceClient
+      .from('plan_payments')
+      .update({ status: 'failed', result_desc: message, completed_at: new Date().toISOString() })
+      .eq('id', payment.id);
+
+    return json({ error: message }, 502);
+  }
+});
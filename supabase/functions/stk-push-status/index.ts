@@ -0,0 +1,61 @@
+// Reports where a plan payment has got to. If it is still pending, asks the gateway
+// directly so the user isn't left waiting on a late or lost callback.
+// supabase.functions.invoke('stk-push-status', { body: { paymentId } })
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { getPaymentGateway } from '../_shared/paymentGateways.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { paymentId } = await req.json().catch(() => ({}));
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: payment } = await serviceClient
+    .from('plan_payments')
+    .select('*')
+    .eq('id', paymentId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (!payment) {
+    return json({ error: 'Payment not found' }, 404);
+  }
+  if (payment.status !== 'pending' || !payment.checkout_request_id) {
+    return json({ payment });
+  }
+
+  try {
+    const result = await getPaymentGateway(payment.gateway).queryPayment(payment.checkout_request_id);
+    if (result.status === 'pending') {
+      return json({ payment });
+    }
+
+    const { data: settled, error } = await serviceClient.rpc('settle_plan_payment', {
+      p_payment_id: payment.id,
+      p_result_code: result.resultCode,
+      p_result_desc: result.resultDesc,
+      p_receipt: result.receipt,
+      p_amount: result.amount
+    });
+    if (error) {
+      throw error;
+    }
+
+    return json({ payment: settled });
+  } catch (error) {
+    // Leave it pending; the callback or the next poll will settle it
+    console.error('Error checking plan payment:', error);
+    return json({ payment });
+  }
+});
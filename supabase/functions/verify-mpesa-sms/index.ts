@@ -0,0 +1,109 @@
+// Checks a pasted M-Pesa confirmation SMS for a till payment and, if it holds up,
+// records it as a plan payment and moves the user onto the plan. The SMS alone
+// proves nothing: its receipt code must match a payment Daraja confirmed to
+// mpesa-c2b-confirmation, for the same amount. Each M-Pesa receipt code can only be
+// used once, so the same SMS can't be replayed. A payment short of the amount due is
+// kept as account credit rather than rejected.
+// supabase.functions.invoke('verify-mpesa-sms', { body: { message, planName } })
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { isPaymentToTill, parseMpesaSms } from '../_shared/mpesaSms.ts';
+import { quotePlanChange, toPaymentFields } from '../_shared/planQuotes.ts';
+import { getPlanByPrice, getTillDetails } from '../_shared/plans.ts';
+
+// Postgres unique_violation
+const DUPLICATE_KEY = '23505';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { message, planName } = await req.json().catch(() => ({}));
+  const parsed = parseMpesaSms(message);
+  if (!parsed) {
+    return json({ error: 'Paste the full M-Pesa confirmation message, starting with the receipt code' }, 400);
+  }
+
+  // Whole shillings; a plan is never paid for in cents
+  const sms = { ...parsed, amount: Math.floor(parsed.amount) };
+
+  const till = await getTillDetails();
+  if (!isPaymentToTill(sms, till)) {
+    return json({ error: `This payment was not made to till ${till.tillNumber} (${till.tillName})` }, 400);
+  }
+
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: confirmation, error: confirmationError } = await serviceClient
+    .from('mpesa_c2b_confirmations')
+    .select('amount')
+    .eq('trans_id', sms.receipt)
+    .maybeSingle();
+
+  if (confirmationError) {
+    console.error('Error looking up C2B confirmation:', confirmationError);
+    return json({ error: 'Could not verify the payment' }, 500);
+  }
+  if (!confirmation) {
+    return json({ error: `M-Pesa hasn't confirmed receipt ${sms.receipt} to us yet. Try again in a few minutes.` }, 409);
+  }
+  if (Math.floor(Number(confirmation.amount)) !== sms.amount) {
+    return json({ error: `The amount in this SMS doesn't match M-Pesa's record of receipt ${sms.receipt}` }, 400);
+  }
+
+  // Without a chosen plan the amount has to match a plan's price exactly
+  const planNameToBuy = planName || (await getPlanByPrice(sms.amount))?.planName;
+  if (!planNameToBuy) {
+    return json({ error: `No plan costs KSh ${sms.amount}. Choose the plan you paid for.` }, 400);
+  }
+
+  const { quote, error: quoteError } = await quotePlanChange(serviceClient, user.id, planNameToBuy);
+  if (!quote) {
+    return json({ error: quoteError }, 400);
+  }
+
+  const { data: payment, error: insertError } = await serviceClient
+    .from('plan_payments')
+    .insert({
+      user_id: user.id,
+      ...toPaymentFields(quote),
+      method: 'sms',
+      gateway: 'sms',
+      mpesa_receipt: sms.receipt,
+      sms_text: message.trim()
+    })
+    .select()
+    .single();
+
+  if (insertError?.code === DUPLICATE_KEY) {
+    return json({ error: `M-Pesa receipt ${sms.receipt} has already been used` }, 409);
+  }
+  if (insertError || !payment) {
+    console.error('Error recording SMS payment:', insertError);
+    return json({ error: 'Could not verify the payment' }, 500);
+  }
+
+  const { data: settled, error } = await serviceClient.rpc('settle_plan_payment', {
+    p_payment_id: payment.id,
+    p_result_code: 0,
+    p_result_desc: 'M-Pesa confirmation SMS matched to a Daraja C2B confirmation',
+    p_receipt: sms.receipt,
+    p_amount: sms.amount
+  });
+
+  if (error) {
+    console.error('Error settling SMS payment:', error);
+    return json({ error: 'Could not verify the payment' }, 500);
+  }
+
+  return json({ payment: settled });
+});
@@ -0,0 +1,101 @@
+-- Earnings Ledger Schema for Supabase
+-- Run these commands in your Supabase SQL editor
+
+-- Append-only ledger of every balance movement. Amounts are always positive;
+-- the entry type decides whether a row is a credit or a debit.
+CREATE TABLE IF NOT EXISTS public.earnings_ledger (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('survey_reward', 'referral_reward', 'withdrawal', 'reversal')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  reference_id TEXT,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_earnings_ledger_user_id ON public.earnings_ledger(user_id);
+CREATE INDEX IF NOT EXISTS idx_earnings_ledger_created_at ON public.earnings_ledger(created_at);
+CREATE INDEX IF NOT EXISTS idx_earnings_ledger_reference ON public.earnings_ledger(entry_type, reference_id);
+
+-- Ledger rows can never be changed once written; corrections are new 'reversal' rows
+CREATE OR REPLACE FUNCTION public.prevent_ledger_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'earnings_ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_prevent_ledger_update
+  BEFORE UPDATE OR DELETE ON public.earnings_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+-- Function to compute a user's spendable balance from the ledger
+CREATE OR REPLACE FUNCTION public.get_ledger_balance(user_uuid UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(
+    CASE WHEN entry_type IN ('survey_reward', 'referral_reward') THEN amount ELSE -amount END
+  ), 0)::INTEGER
+  FROM public.earnings_ledger
+  WHERE user_id = user_uuid;
+$$ LANGUAGE sql STABLE;
+
+-- Function to credit the calling user for a completed survey. Only other database
+-- functions call it, once they have checked the survey and worked out the reward
+-- themselves; the app can't name its own amount.
+CREATE OR REPLACE FUNCTION public.post_survey_reward(p_survey_id TEXT, p_amount INTEGER)
+RETURNS public.earnings_ledger AS $$
+DECLARE
+  entry public.earnings_ledger;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- No survey in the catalogue pays more than this
+  IF p_amount <= 0 OR p_amount > 200 THEN
+    RAISE EXCEPTION 'Invalid survey reward amount: %', p_amount;
+  END IF;
+
+  INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+  VALUES (auth.uid(), 'survey_reward', p_amount, p_survey_id, 'Survey reward')
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to debit the calling user for a withdrawal request
+CREATE OR REPLACE FUNCTION public.post_withdrawal(p_amount INTEGER, p_reference TEXT)
+RETURNS public.earnings_ledger AS $$
+DECLARE
+  entry public.earnings_ledger;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Serialise debits per user so two requests cannot both pass the balance check
+  PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text));
+
+  IF p_amount <= 0 OR p_amount > public.get_ledger_balance(auth.uid()) THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+  VALUES (auth.uid(), 'withdrawal', p_amount, p_reference, 'M-Pesa withdrawal')
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.post_survey_reward(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.earnings_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own entries; writes only happen through the functions above
+CREATE POLICY "Users can view their own ledger" ON public.earnings_ledger
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,313 @@
+-- Plan Changes Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_subscriptions_schema.sql
+
+-- Account credit: money a user has paid that hasn't bought a plan yet, e.g. a till
+-- payment for less than the plan costs or the change from paying too much.
+-- Positive rows add credit, negative rows spend it on a plan.
+CREATE TABLE IF NOT EXISTS public.plan_credits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  reason TEXT NOT NULL CHECK (reason IN ('partial_payment', 'overpayment', 'applied')),
+  payment_id UUID NOT NULL REFERENCES public.plan_payments(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (payment_id, reason)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_credits_user_id ON public.plan_credits(user_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.get_plan_credit_balance(p_user_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(amount), 0)::INTEGER
+  FROM public.plan_credits
+  WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
+
+-- What a payment is for, priced by the edge functions from the plan config:
+--   new: a fresh period at the full price
+--   renewal: another period of the current plan, carried on from its expiry
+--   upgrade: the price difference for the rest of the current period, which
+--            keeps its expiry (period_ends_at)
+-- price is the full cost of the change, credit_applied the account credit put
+-- towards it, and amount what is left to pay with M-Pesa (0 when credit covers it).
+ALTER TABLE public.plan_payments
+  ADD COLUMN IF NOT EXISTS change_type TEXT NOT NULL DEFAULT 'new'
+    CHECK (change_type IN ('new', 'renewal', 'upgrade')),
+  ADD COLUMN IF NOT EXISTS price INTEGER,
+  ADD COLUMN IF NOT EXISTS credit_applied INTEGER NOT NULL DEFAULT 0 CHECK (credit_applied >= 0),
+  ADD COLUMN IF NOT EXISTS period_ends_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.plan_payments SET price = amount WHERE price IS NULL;
+
+ALTER TABLE public.plan_payments DROP CONSTRAINT IF EXISTS plan_payments_amount_check;
+ALTER TABLE public.plan_payments
+  ADD CONSTRAINT plan_payments_amount_check CHECK (amount >= 0);
+
+-- 'credit' payments are paid entirely from account credit
+ALTER TABLE public.plan_payments DROP CONSTRAINT IF EXISTS plan_payments_method_check;
+ALTER TABLE public.plan_payments
+  ADD CONSTRAINT plan_payments_method_check CHECK (method IN ('stk_push', 'sms', 'credit'));
+
+-- 'credited': money arrived but was short of the price, so it was kept as credit
+ALTER TABLE public.plan_payments DROP CONSTRAINT IF EXISTS plan_payments_status_check;
+ALTER TABLE public.plan_payments
+  ADD CONSTRAINT plan_payments_status_check CHECK (status IN ('pending', 'paid', 'failed', 'credited'));
+
+-- A lower plan the user has asked to move to when the current period ends
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS scheduled_plan TEXT;
+
+-- Record how a payment ended. A confirmed payment of at least the amount due moves
+-- the user onto the plan, spends the credit it was quoted with and keeps any change
+-- as credit. Anything short of the amount due is kept as credit instead of being
+-- rounded to a plan. Safe to call more than once: the callback and the status poll
+-- can both report the same result.
+CREATE OR REPLACE FUNCTION public.settle_plan_payment(
+  p_payment_id UUID,
+  p_result_code INTEGER,
+  p_result_desc TEXT,
+  p_receipt TEXT DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL
+)
+RETURNS public.plan_payments AS $$
+DECLARE
+  payment public.plan_payments;
+  received INTEGER;
+BEGIN
+  SELECT * INTO payment
+  FROM public.plan_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment.status <> 'pending' THEN
+    -- A status poll can confirm a payment before the callback brings the receipt
+    IF payment.status = 'paid' AND payment.mpesa_receipt IS NULL AND p_receipt IS NOT NULL THEN
+      UPDATE public.plan_payments
+      SET mpesa_receipt = p_receipt
+      WHERE id = p_payment_id
+      RETURNING * INTO payment;
+    END IF;
+    RETURN payment;
+  END IF;
+
+  IF p_result_code <> 0 THEN
+    UPDATE public.plan_payments
+    SET
+      status = 'failed',
+      result_code = p_result_code,
+      result_desc = p_result_desc,
+      mpesa_receipt = p_receipt,
+      completed_at = NOW()
+    WHERE id = p_payment_id
+    RETURNING * INTO payment;
+    RETURN payment;
+  END IF;
+
+  received := COALESCE(p_amount, payment.amount);
+
+  -- Serialise credit changes per user so the same credit can't be spent twice
+  PERFORM pg_advisory_xact_lock(hashtext('plan_credits:' || payment.user_id::TEXT));
+
+  IF received < payment.amount
+    OR public.get_plan_credit_balance(payment.user_id) < payment.credit_applied THEN
+    IF received > 0 THEN
+      INSERT INTO public.plan_credits (user_id, amount, reason, payment_id)
+      VALUES (payment.user_id, received, 'partial_payment', payment.id);
+    END IF;
+
+    UPDATE public.plan_payments
+    SET
+      status = CASE WHEN received > 0 THEN 'credited' ELSE 'failed' END,
+      result_code = p_result_code,
+      result_desc = CASE
+        WHEN received < payment.amount
+          THEN format('Paid KSh %s of KSh %s; kept as account credit', received, payment.amount)
+        WHEN received > 0 THEN 'Your account credit was used elsewhere; this payment was kept as credit'
+        ELSE 'Not enough account credit'
+      END,
+      mpesa_receipt = p_receipt,
+      completed_at = NOW()
+    WHERE id = p_payment_id
+    RETURNING * INTO payment;
+    RETURN payment;
+  END IF;
+
+  IF payment.credit_applied > 0 THEN
+    INSERT INTO public.plan_credits (user_id, amount, reason, payment_id)
+    VALUES (payment.user_id, -payment.credit_applied, 'applied', payment.id);
+  END IF;
+
+  IF received > payment.amount THEN
+    INSERT INTO public.plan_credits (user_id, amount, reason, payment_id)
+    VALUES (payment.user_id, received - payment.amount, 'overpayment', payment.id);
+  END IF;
+
+  -- start_plan_subscription runs on this update and sets the new expiry
+  UPDATE public.plan_payments
+  SET
+    status = 'paid',
+    result_code = p_result_code,
+    result_desc = p_result_desc,
+    mpesa_receipt = p_receipt,
+    completed_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO payment;
+
+  -- Paying for a plan replaces any downgrade that was waiting for the period to end
+  UPDATE public.user_profiles
+  SET
+    current_plan = payment.plan_name,
+    scheduled_plan = NULL,
+    plan_updated_at = NOW(),
+    last_payment_amount = payment.amount,
+    last_payment_transaction_id = COALESCE(payment.mpesa_receipt, payment.checkout_request_id, payment.id::TEXT)
+  WHERE id = payment.user_id;
+
+  RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Upgrades keep the current period's expiry; renewals carry on from it
+CREATE OR REPLACE FUNCTION public.start_plan_subscription()
+RETURNS TRIGGER AS $$
+DECLARE
+  profile public.user_profiles;
+  period_start TIMESTAMP WITH TIME ZONE := NOW();
+  period_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO profile
+  FROM public.user_profiles
+  WHERE id = NEW.user_id
+  FOR UPDATE;
+
+  IF NEW.change_type = 'upgrade' AND NEW.period_ends_at > NOW() THEN
+    period_end := NEW.period_ends_at;
+  ELSE
+    IF profile.current_plan = NEW.plan_name
+      AND profile.plan_expires_at IS NOT NULL
+      AND profile.plan_expires_at + public.plan_grace_period() > NOW() THEN
+      period_start := profile.plan_expires_at;
+    END IF;
+    period_end := period_start + public.plan_period();
+  END IF;
+
+  INSERT INTO public.plan_subscriptions (user_id, plan_name, payment_id, starts_at, expires_at)
+  VALUES (NEW.user_id, NEW.plan_name, NEW.id, period_start, period_end);
+
+  UPDATE public.user_profiles
+  SET plan_expires_at = period_end
+  WHERE id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply downgrades whose period has ended, then move users whose grace period is
+-- over back to the free plan. A downgrade to the free plan ends the subscription
+-- outright; a downgrade to a paid plan starts that plan's grace period so it can be renewed.
+-- Returns how many users changed plan.
+CREATE OR REPLACE FUNCTION public.expire_plan_subscriptions()
+RETURNS INTEGER AS $$
+DECLARE
+  downgraded_count INTEGER;
+  expired_count INTEGER;
+  free_plan TEXT := public.plan_setting('currentPlan', 'default') #>> '{}';
+BEGIN
+  UPDATE public.user_profiles
+  SET
+    current_plan = scheduled_plan,
+    scheduled_plan = NULL,
+    plan_expires_at = CASE WHEN scheduled_plan = free_plan THEN NULL ELSE plan_expires_at END,
+    plan_updated_at = NOW()
+  WHERE scheduled_plan IS NOT NULL
+    AND plan_expires_at IS NOT NULL
+    AND plan_expires_at <= NOW();
+
+  GET DIAGNOSTICS downgraded_count = ROW_COUNT;
+
+  UPDATE public.user_profiles
+  SET
+    current_plan = free_plan,
+    plan_updated_at = NOW()
+  WHERE current_plan <> free_plan
+    AND plan_expires_at IS NOT NULL
+    AND plan_expires_at + public.plan_grace_period() <= NOW();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN downgraded_count + expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The plan a user is really on. expire_plan_subscriptions applies downgrades and
+-- lapses on a schedule, so anything that enforces plan limits applies them here too
+-- rather than wait. Mirrors SubscriptionService.getEffectivePlan in the app.
+CREATE OR REPLACE FUNCTION public.get_effective_plan(p_user_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  profile public.user_profiles;
+  free_plan TEXT := public.plan_setting('currentPlan', 'default') #>> '{}';
+BEGIN
+  SELECT * INTO profile FROM public.user_profiles WHERE id = p_user_id;
+
+  IF NOT FOUND OR profile.current_plan IS NULL THEN
+    RETURN free_plan;
+  END IF;
+
+  IF profile.plan_expires_at IS NOT NULL AND profile.plan_expires_at + public.plan_grace_period() <= NOW() THEN
+    RETURN free_plan;
+  END IF;
+
+  -- A downgrade to the free plan ends the subscription; a paid one is in its grace period
+  IF profile.scheduled_plan IS NOT NULL AND profile.plan_expires_at <= NOW() THEN
+    RETURN profile.scheduled_plan;
+  END IF;
+
+  RETURN profile.current_plan;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The scheduled plan is written by the schedule-plan-change edge function, which
+-- checks it really is a lower plan
+CREATE OR REPLACE FUNCTION public.protect_user_plan()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.current_plan = public.plan_setting('currentPlan', 'default') #>> '{}';
+    NEW.scheduled_plan = NULL;
+    NEW.plan_expires_at = NULL;
+    NEW.last_payment_amount = NULL;
+    NEW.last_payment_transaction_id = NULL;
+  ELSIF NEW.current_plan IS DISTINCT FROM OLD.current_plan
+    OR NEW.scheduled_plan IS DISTINCT FROM OLD.scheduled_plan
+    OR NEW.plan_updated_at IS DISTINCT FROM OLD.plan_updated_at
+    OR NEW.plan_expires_at IS DISTINCT FROM OLD.plan_expires_at
+    OR NEW.last_payment_amount IS DISTINCT FROM OLD.last_payment_amount
+    OR NEW.last_payment_transaction_id IS DISTINCT FROM OLD.last_payment_transaction_id THEN
+    RAISE EXCEPTION 'Plans can only be changed by a verified payment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the payment edge functions, using the service role, settle payments or read
+-- other users' credit
+REVOKE EXECUTE ON FUNCTION public.settle_plan_payment(UUID, INTEGER, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_plan_credit_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_plan_subscriptions() FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.plan_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own plan credits" ON public.plan_credits
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all plan credits" ON public.plan_credits
+  FOR SELECT USING (public.has_role(ARRAY['support']));
@@ -0,0 +1,163 @@
+-- Plan Config Schema for Supabase
+-- Run these commands in your Supabase SQL editor before any of the other schema files
+
+-- The plan config: plans and prices, subscription periods, referral rewards and the
+-- M-Pesa till. This single row is the only copy. The app and the edge functions load
+-- it from here and the database functions read their settings from it, so what users
+-- are shown is always what the server enforces. planConfigSchema in
+-- src/schemas/planSchema.ts describes the document; bump its version with any change
+-- to the shape. Edit it in the SQL editor.
+CREATE TABLE IF NOT EXISTS public.plan_config (
+  -- Always TRUE, so the table can only ever hold one row
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  document JSONB NOT NULL CHECK (
+    jsonb_typeof(document) = 'object'
+    AND document ?& ARRAY['version', 'surveyPlans', 'subscription', 'referral', 'currentPlan']
+  ),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION public.touch_plan_config()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_touch_plan_config
+  BEFORE UPDATE ON public.plan_config
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_plan_config();
+
+-- One setting from the plan config, e.g. plan_setting('subscription', 'periodDays').
+-- Raises rather than returning NULL so a missing setting can't quietly turn into
+-- a NULL expiry or a zero reward.
+CREATE OR REPLACE FUNCTION public.plan_setting(VARIADIC p_path TEXT[])
+RETURNS JSONB AS $$
+DECLARE
+  setting JSONB;
+BEGIN
+  SELECT document #> p_path INTO setting FROM public.plan_config;
+
+  IF setting IS NULL OR jsonb_typeof(setting) = 'null' THEN
+    RAISE EXCEPTION 'Plan config has no %', array_to_string(p_path, '.');
+  END IF;
+
+  RETURN setting;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- A plan from "surveyPlans" in the plan config, or NULL if there is no plan by that name
+CREATE OR REPLACE FUNCTION public.config_plan(p_plan_name TEXT)
+RETURNS JSONB AS $$
+  SELECT plan
+  FROM jsonb_array_elements(public.plan_setting('surveyPlans')) AS plan
+  WHERE plan->>'planName' = p_plan_name;
+$$ LANGUAGE sql STABLE;
+
+INSERT INTO public.plan_config (document)
+VALUES ($config$
+{
+  "version": 2,
+  "visibility": true,
+  "surveyPlans": [
+    {
+      "planName": "Starter",
+      "dailySurvey": 1,
+      "monthlyIncome": 0,
+      "dailyIncome": 0,
+      "earningPerSurvey": "40 - 50",
+      "minimumWithdrawal": 4500,
+      "price": "0",
+      "description": "Free plan with basic survey access",
+      "features": [
+        "1 survey per day",
+        "KSh 40-50 per survey",
+        "Minimum withdrawal: KSh 4,500"
+      ]
+    },
+    {
+      "planName": "Silver",
+      "dailySurvey": 5,
+      "monthlyIncome": 8000,
+      "dailyIncome": 500,
+      "earningPerSurvey": "50 - 100",
+      "minimumWithdrawal": 3000,
+      "price": "250",
+      "description": "Enhanced plan with more surveys",
+      "features": [
+        "5 surveys per day",
+        "KSh 50-100 per survey",
+        "Minimum withdrawal: KSh 3,000",
+        "Up to KSh 500 daily"
+      ]
+    },
+    {
+      "planName": "Gold",
+      "dailySurvey": 10,
+      "monthlyIncome": 15000,
+      "dailyIncome": 1000,
+      "earningPerSurvey": "50 - 100",
+      "minimumWithdrawal": 2500,
+      "price": "500",
+      "description": "Premium plan with maximum surveys",
+      "features": [
+        "10 surveys per day",
+        "KSh 50-100 per survey",
+        "Minimum withdrawal: KSh 2,500",
+        "Up to KSh 1,000 daily"
+      ]
+    },
+    {
+      "planName": "Platinum",
+      "dailySurvey": 20,
+      "monthlyIncome": 30000,
+      "dailyIncome": 2000,
+      "earningPerSurvey": "50 - 100",
+      "minimumWithdrawal": 2000,
+      "price": "1000",
+      "description": "Ultimate plan with unlimited earning potential",
+      "features": [
+        "20 surveys per day",
+        "KSh 50-100 per survey",
+        "Minimum withdrawal: KSh 2,000",
+        "Up to KSh 2,000 daily"
+      ]
+    }
+  ],
+  "subscription": {
+    "periodDays": 30,
+    "graceDays": 3,
+    "reminderDays": 5
+  },
+  "referral": {
+    "refereeWelcomeBonus": 50,
+    "expiryDays": 30,
+    "earningsShareDays": 30,
+    "levels": [
+      { "signupBonus": 50, "surveyEarningsPercent": 10, "upgradeBonus": 100 },
+      { "signupBonus": 10, "surveyEarningsPercent": 2, "upgradeBonus": 20 }
+    ]
+  },
+  "mpesaPaymentDetails": {
+    "tillName": "VEDACOM 4 SOLUTIONS",
+    "tillNumber": 3566188
+  },
+  "moneyMaking": [],
+  "currentPlan": {
+    "default": "Starter",
+    "displayName": "Starter Plan",
+    "description": "Free plan with basic survey access"
+  }
+}
+$config$::jsonb)
+ON CONFLICT (id) DO NOTHING;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.plan_config ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read the plans, including signed-out visitors on the signup page.
+-- There are no write policies: the config is only changed from the SQL editor.
+CREATE POLICY "Anyone can view the plan config" ON public.plan_config
+  FOR SELECT USING (true);
@@ -0,0 +1,122 @@
+-- Plan Payments Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_roles_schema.sql
+
+-- One row per attempt to pay for a plan. Rows are written by the payment edge
+-- functions with the service role; the plan only changes once M-Pesa confirms.
+CREATE TABLE IF NOT EXISTS public.plan_payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_name TEXT NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  phone_number TEXT NOT NULL CHECK (phone_number ~ '^254[17][0-9]{8}$'),
+  method TEXT NOT NULL DEFAULT 'stk_push' CHECK (method IN ('stk_push')),
+  gateway TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed')),
+  checkout_request_id TEXT UNIQUE,
+  merchant_request_id TEXT,
+  mpesa_receipt TEXT UNIQUE,
+  result_code INTEGER,
+  result_desc TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_plan_payments_user_id ON public.plan_payments(user_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.touch_plan_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_touch_plan_payment
+  BEFORE UPDATE ON public.plan_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_plan_payment();
+
+-- Record how a payment ended and, if M-Pesa confirmed it (result code 0) for at
+-- least the plan price, move the user onto the plan. Safe to call more than once:
+-- the callback and the status poll can both report the same result.
+CREATE OR REPLACE FUNCTION public.settle_plan_payment(
+  p_payment_id UUID,
+  p_result_code INTEGER,
+  p_result_desc TEXT,
+  p_receipt TEXT DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL
+)
+RETURNS public.plan_payments AS $$
+DECLARE
+  payment public.plan_payments;
+BEGIN
+  SELECT * INTO payment
+  FROM public.plan_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment.status <> 'pending' THEN
+    -- A status poll can confirm a payment before the callback brings the receipt
+    IF payment.status = 'paid' AND payment.mpesa_receipt IS NULL AND p_receipt IS NOT NULL THEN
+      UPDATE public.plan_payments
+      SET mpesa_receipt = p_receipt
+      WHERE id = p_payment_id
+      RETURNING * INTO payment;
+    END IF;
+    RETURN payment;
+  END IF;
+
+  IF p_result_code = 0 AND p_amount IS NOT NULL AND p_amount < payment.amount THEN
+    UPDATE public.plan_payments
+    SET
+      status = 'failed',
+      result_code = p_result_code,
+      result_desc = format('Paid KSh %s but the plan costs KSh %s', p_amount, payment.amount),
+      mpesa_receipt = p_receipt,
+      completed_at = NOW()
+    WHERE id = p_payment_id
+    RETURNING * INTO payment;
+    RETURN payment;
+  END IF;
+
+  UPDATE public.plan_payments
+  SET
+    status = CASE WHEN p_result_code = 0 THEN 'paid' ELSE 'failed' END,
+    result_code = p_result_code,
+    result_desc = p_result_desc,
+    mpesa_receipt = p_receipt,
+    completed_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO payment;
+
+  IF payment.status = 'paid' THEN
+    UPDATE public.user_profiles
+    SET
+      current_plan = payment.plan_name,
+      plan_updated_at = NOW(),
+      last_payment_amount = payment.amount,
+      last_payment_transaction_id = COALESCE(payment.mpesa_receipt, payment.checkout_request_id)
+    WHERE id = payment.user_id;
+  END IF;
+
+  RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the payment edge functions, using the service role, settle payments
+REVOKE EXECUTE ON FUNCTION public.settle_plan_payment(UUID, INTEGER, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.plan_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own plan payments" ON public.plan_payments
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all plan payments" ON public.plan_payments
+  FOR SELECT USING (public.has_role(ARRAY['support']));
@@ -0,0 +1,205 @@
+-- Referral Attribution Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_referral_service_schema.sql
+
+-- The new user's welcome bonus for signing up with a referral code. It is a credit
+-- of its own so it doesn't count as a referral the user made.
+ALTER TABLE public.earnings_ledger DROP CONSTRAINT IF EXISTS earnings_ledger_entry_type_check;
+ALTER TABLE public.earnings_ledger ADD CONSTRAINT earnings_ledger_entry_type_check
+  CHECK (entry_type IN ('survey_reward', 'referral_reward', 'referral_bonus', 'withdrawal', 'withdrawal_refund', 'reversal'));
+
+CREATE OR REPLACE FUNCTION public.get_ledger_balance(user_uuid UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(
+    CASE WHEN entry_type IN ('survey_reward', 'referral_reward', 'referral_bonus', 'withdrawal_refund') THEN amount ELSE -amount END
+  ), 0)::INTEGER
+  FROM public.earnings_ledger
+  WHERE user_id = user_uuid;
+$$ LANGUAGE sql STABLE;
+
+-- A referral is paid at most once per user, however many times completion runs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_earnings_ledger_referral_payout
+  ON public.earnings_ledger(user_id, entry_type, reference_id)
+  WHERE entry_type IN ('referral_reward', 'referral_bonus');
+
+-- The account a referral turned into, and the ledger entries that paid it out
+ALTER TABLE public.referrals
+  ADD COLUMN IF NOT EXISTS referred_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS referee_reward_amount INTEGER NOT NULL DEFAULT 50 CHECK (referee_reward_amount >= 0),
+  ADD COLUMN IF NOT EXISTS signed_up_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS referrer_entry_id UUID REFERENCES public.earnings_ledger(id),
+  ADD COLUMN IF NOT EXISTS referee_entry_id UUID REFERENCES public.earnings_ledger(id);
+
+-- Each user can only be referred once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referrals_referred_user_id
+  ON public.referrals(referred_user_id)
+  WHERE referred_user_id IS NOT NULL;
+
+-- Link a user to the owner of a referral code. Calling it again with the same code
+-- returns the existing referral, so retries are safe.
+CREATE OR REPLACE FUNCTION public.attribute_referral(p_user_id UUID, p_referral_code TEXT)
+RETURNS public.referrals AS $$
+DECLARE
+  referral public.referrals;
+  referrer UUID;
+  code TEXT := upper(trim(p_referral_code));
+  user_email TEXT;
+BEGIN
+  -- Serialise attribution per user so a signup and a retry can't both insert
+  PERFORM pg_advisory_xact_lock(hashtext('referral:' || p_user_id::text));
+
+  SELECT * INTO referral
+  FROM public.referrals
+  WHERE referred_user_id = p_user_id;
+
+  IF FOUND THEN
+    IF referral.referral_code = code THEN
+      RETURN referral;
+    END IF;
+    RAISE EXCEPTION 'You have already been referred with another code';
+  END IF;
+
+  SELECT stats.user_id INTO referrer
+  FROM public.user_referral_stats stats
+  WHERE stats.referral_code = code;
+
+  IF referrer IS NULL THEN
+    RAISE EXCEPTION 'Invalid referral code';
+  END IF;
+
+  IF referrer = p_user_id THEN
+    RAISE EXCEPTION 'You cannot use your own referral code';
+  END IF;
+
+  -- Referral codes are for new users; completing a survey is what pays them out
+  IF EXISTS (SELECT 1 FROM public.survey_responses WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Referral codes can only be used before your first survey';
+  END IF;
+
+  SELECT lower(users.email) INTO user_email
+  FROM auth.users users
+  WHERE users.id = p_user_id;
+
+  -- Pick up the invitation the referrer sent to this email, if there is one
+  UPDATE public.referrals
+  SET referred_user_id = p_user_id, signed_up_at = NOW()
+  WHERE referrer_id = referrer
+    AND referred_email = user_email
+    AND status = 'pending'
+    AND referred_user_id IS NULL
+  RETURNING * INTO referral;
+
+  IF referral.id IS NULL THEN
+    INSERT INTO public.referrals (referrer_id, referred_email, referral_code, referred_user_id, signed_up_at)
+    VALUES (referrer, user_email, code, p_user_id, NOW())
+    RETURNING * INTO referral;
+  END IF;
+
+  RETURN referral;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Attribute new users who signed up through a ?ref= link. SignupPage stores the
+-- code in the user's metadata. A bad code never blocks the signup.
+CREATE OR REPLACE FUNCTION public.attribute_signup_referral()
+RETURNS TRIGGER AS $$
+DECLARE
+  code TEXT := NULLIF(trim(NEW.raw_user_meta_data->>'referral_code_used'), '');
+BEGIN
+  IF code IS NOT NULL THEN
+    BEGIN
+      PERFORM public.attribute_referral(NEW.id, code);
+    EXCEPTION
+      WHEN OTHERS THEN
+        RAISE WARNING 'Referral code % not applied for user %: %', code, NEW.id, SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs after trigger_create_user_referral_stats (triggers fire in name order)
+DROP TRIGGER IF EXISTS trigger_user_signup_referral ON auth.users;
+CREATE TRIGGER trigger_user_signup_referral
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.attribute_signup_referral();
+
+-- Apply a referral code for the calling user, for users who didn't sign up
+-- through a link or whose code didn't stick at signup
+CREATE OR REPLACE FUNCTION public.claim_referral(p_referral_code TEXT)
+RETURNS public.referrals AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN public.attribute_referral(auth.uid(), p_referral_code);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pay out a user's referral once they have been credited for a survey: the
+-- referrer's reward and the new user's welcome bonus. Returns NULL when there is
+-- nothing to pay, including when it has already been paid.
+CREATE OR REPLACE FUNCTION public.complete_referral(p_user_id UUID)
+RETURNS public.referrals AS $$
+DECLARE
+  referral public.referrals;
+  referrer_entry public.earnings_ledger;
+  referee_entry public.earnings_ledger;
+BEGIN
+  SELECT * INTO referral
+  FROM public.referrals
+  WHERE referred_user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR referral.status <> 'pending' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+  VALUES (referral.referrer_id, 'referral_reward', referral.reward_amount, referral.id::text, 'Referral reward')
+  RETURNING * INTO referrer_entry;
+
+  IF referral.referee_reward_amount > 0 THEN
+    INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+    VALUES (p_user_id, 'referral_bonus', referral.referee_reward_amount, referral.id::text, 'Referral welcome bonus')
+    RETURNING * INTO referee_entry;
+  END IF;
+
+  UPDATE public.referrals
+  SET
+    status = 'completed',
+    completed_at = NOW(),
+    referrer_entry_id = referrer_entry.id,
+    referee_entry_id = referee_entry.id
+  WHERE id = referral.id
+  RETURNING * INTO referral;
+
+  RETURN referral;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The first credited survey completes the referral. Held responses complete it
+-- once they are approved and credited.
+CREATE OR REPLACE FUNCTION public.complete_referral_on_credit()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.complete_referral(NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_complete_referral ON public.survey_responses;
+CREATE TRIGGER trigger_complete_referral
+  AFTER INSERT OR UPDATE OF status ON public.survey_responses
+  FOR EACH ROW
+  WHEN (NEW.status = 'credited')
+  EXECUTE FUNCTION public.complete_referral_on_credit();
+
+REVOKE EXECUTE ON FUNCTION public.attribute_referral(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_referral(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Referred users can see the referral that brought them in
+CREATE POLICY "Users can view the referral that referred them" ON public.referrals
+  FOR SELECT USING (auth.uid() = referred_user_id);
@@ -0,0 +1,371 @@
+-- Referral Commissions Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_referral_expiry_schema.sql
+
+-- What referrers earn from the people they bring in: "referral.levels" in the plan
+-- config, which the app shows to users. Level 1 is the referrer; level 2 is whoever
+-- referred them, and leaving it out of the config turns the second level off.
+CREATE OR REPLACE FUNCTION public.referral_commission_levels()
+RETURNS TABLE (level INTEGER, signup_bonus INTEGER, survey_earnings_percent NUMERIC, upgrade_bonus INTEGER) AS $$
+  SELECT
+    tier.position::INTEGER,
+    (tier.settings->>'signupBonus')::INTEGER,
+    (tier.settings->>'surveyEarningsPercent')::NUMERIC,
+    (tier.settings->>'upgradeBonus')::INTEGER
+  FROM jsonb_array_elements(public.plan_setting('referral', 'levels')) WITH ORDINALITY AS tier(settings, position)
+  WHERE tier.position <= 2;
+$$ LANGUAGE sql STABLE;
+
+-- How long after signing up a referred user's survey earnings still earn their
+-- referrers a share: "referral.earningsShareDays" in the plan config
+CREATE OR REPLACE FUNCTION public.referral_earnings_share_period()
+RETURNS INTERVAL AS $$
+  SELECT make_interval(days => public.plan_setting('referral', 'earningsShareDays')::INTEGER);
+$$ LANGUAGE sql STABLE;
+
+-- Level 1's signup bonus is the referral's own reward_amount, and the referred
+-- user's welcome bonus its referee_reward_amount. New referrals take both from the
+-- plan config, and keep them if the config changes later.
+ALTER TABLE public.referrals
+  ALTER COLUMN reward_amount SET DEFAULT public.plan_setting('referral', 'levels', '0', 'signupBonus')::INTEGER,
+  ALTER COLUMN referee_reward_amount SET DEFAULT public.plan_setting('referral', 'refereeWelcomeBonus')::INTEGER;
+
+-- Commissions get a ledger entry type of their own, so referral_reward still means
+-- one completed referral of the user's own
+ALTER TABLE public.earnings_ledger DROP CONSTRAINT IF EXISTS earnings_ledger_entry_type_check;
+ALTER TABLE public.earnings_ledger ADD CONSTRAINT earnings_ledger_entry_type_check
+  CHECK (entry_type IN (
+    'survey_reward', 'referral_reward', 'referral_bonus', 'referral_commission',
+    'withdrawal', 'withdrawal_refund', 'reversal'
+  ));
+
+CREATE OR REPLACE FUNCTION public.get_ledger_balance(user_uuid UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN entry_type IN ('survey_reward', 'referral_reward', 'referral_bonus', 'referral_commission', 'withdrawal_refund')
+        THEN amount
+      ELSE -amount
+    END
+  ), 0)::INTEGER
+  FROM public.earnings_ledger
+  WHERE user_id = user_uuid;
+$$ LANGUAGE sql STABLE;
+
+-- Every amount a referral earned someone, with the ledger entry that paid it
+CREATE TABLE IF NOT EXISTS public.referral_commissions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  referral_id UUID NOT NULL REFERENCES public.referrals(id) ON DELETE CASCADE,
+  beneficiary_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  referee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The referee's email as the beneficiary may see it; masked at level 2, where
+  -- the beneficiary doesn't know the referee
+  referee_label TEXT NOT NULL,
+  level INTEGER NOT NULL CHECK (level IN (1, 2)),
+  kind TEXT NOT NULL CHECK (kind IN ('signup_bonus', 'survey_share', 'upgrade_bonus')),
+  -- What earned it: the referral for signup bonuses, the survey response for survey
+  -- shares and the plan subscription for upgrade bonuses
+  source_id TEXT NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  ledger_entry_id UUID REFERENCES public.earnings_ledger(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (referral_id, level, kind, source_id)
+);
+
+-- Signup and upgrade bonuses are paid once per referral and level
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referral_commissions_one_off
+  ON public.referral_commissions(referral_id, level, kind)
+  WHERE kind IN ('signup_bonus', 'upgrade_bonus');
+
+CREATE INDEX IF NOT EXISTS idx_referral_commissions_beneficiary
+  ON public.referral_commissions(beneficiary_id, created_at DESC);
+
+-- "jane.doe@gmail.com" becomes "j***@gmail.com"
+CREATE OR REPLACE FUNCTION public.mask_email(p_email TEXT)
+RETURNS TEXT AS $$
+  SELECT left(p_email, 1) || '***@' || split_part(p_email, '@', 2);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Referrals completed before commissions existed keep their signup bonus in the history
+INSERT INTO public.referral_commissions (
+  referral_id, beneficiary_id, referee_id, referee_label, level, kind, source_id, amount, ledger_entry_id, created_at
+)
+SELECT
+  referrals.id,
+  referrals.referrer_id,
+  referrals.referred_user_id,
+  referrals.referred_email,
+  1,
+  'signup_bonus',
+  referrals.id::text,
+  referrals.reward_amount,
+  referrals.referrer_entry_id,
+  COALESCE(referrals.completed_at, NOW())
+FROM public.referrals referrals
+WHERE referrals.status = 'completed'
+  AND referrals.referred_user_id IS NOT NULL
+  AND referrals.reward_amount > 0
+ON CONFLICT DO NOTHING;
+
+-- Who earns a referral's commission at a level: the referrer at level 1, and at
+-- level 2 whoever referred the referrer, as long as that referral was paid too
+CREATE OR REPLACE FUNCTION public.referral_beneficiary(p_referral public.referrals, p_level INTEGER)
+RETURNS UUID AS $$
+  SELECT CASE
+    WHEN p_level = 1 THEN p_referral.referrer_id
+    ELSE (
+      SELECT upstream.referrer_id
+      FROM public.referrals upstream
+      WHERE upstream.referred_user_id = p_referral.referrer_id
+        AND upstream.status = 'completed'
+    )
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Post a referral's commissions of one kind at every level. p_base_amount is what
+-- survey shares are a percentage of. Commissions that were already posted are
+-- skipped, so this is safe to call again for the same source.
+CREATE OR REPLACE FUNCTION public.post_referral_commissions(
+  p_referral_id UUID,
+  p_kind TEXT,
+  p_source_id TEXT,
+  p_base_amount INTEGER DEFAULT 0
+)
+RETURNS INTEGER AS $$
+DECLARE
+  referral public.referrals;
+  referee_email TEXT;
+  tier RECORD;
+  beneficiary UUID;
+  commission_amount INTEGER;
+  label TEXT;
+  commission public.referral_commissions;
+  entry public.earnings_ledger;
+  posted INTEGER := 0;
+BEGIN
+  SELECT * INTO referral FROM public.referrals WHERE id = p_referral_id;
+
+  -- Only referrals that passed the fraud checks and completed earn commissions
+  IF NOT FOUND OR referral.status <> 'completed' THEN
+    RETURN 0;
+  END IF;
+
+  SELECT email INTO referee_email FROM auth.users WHERE id = referral.referred_user_id;
+
+  FOR tier IN SELECT * FROM public.referral_commission_levels() ORDER BY level LOOP
+    -- Level 1's signup bonus is the referral's own reward, paid by complete_referral
+    CONTINUE WHEN p_kind = 'signup_bonus' AND tier.level = 1;
+
+    commission_amount := CASE p_kind
+      WHEN 'signup_bonus' THEN tier.signup_bonus
+      WHEN 'upgrade_bonus' THEN tier.upgrade_bonus
+      ELSE floor(p_base_amount * tier.survey_earnings_percent / 100)::INTEGER
+    END;
+    beneficiary := public.referral_beneficiary(referral, tier.level);
+    CONTINUE WHEN beneficiary IS NULL OR commission_amount <= 0;
+
+    label := CASE WHEN tier.level = 1 THEN referee_email ELSE public.mask_email(referee_email) END;
+
+    INSERT INTO public.referral_commissions (
+      referral_id, beneficiary_id, referee_id, referee_label, level, kind, source_id, amount
+    )
+    VALUES (referral.id, beneficiary, referral.referred_user_id, label, tier.level, p_kind, p_source_id, commission_amount)
+    ON CONFLICT DO NOTHING
+    RETURNING * INTO commission;
+
+    CONTINUE WHEN commission.id IS NULL;
+
+    INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+    VALUES (
+      beneficiary,
+      'referral_commission',
+      commission_amount,
+      commission.id::text,
+      CASE p_kind
+        WHEN 'signup_bonus' THEN 'Referral signup bonus'
+        WHEN 'upgrade_bonus' THEN 'Referral upgrade bonus'
+        ELSE tier.survey_earnings_percent::TEXT || '% of survey earnings'
+      END
+        || ' from ' || label
+        || CASE WHEN tier.level > 1 THEN ' (level ' || tier.level || ')' ELSE '' END
+    )
+    RETURNING * INTO entry;
+
+    UPDATE public.referral_commissions
+    SET ledger_entry_id = entry.id
+    WHERE id = commission.id;
+
+    posted := posted + 1;
+  END LOOP;
+
+  RETURN posted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pay the upgrade bonus for a referred user's first paid plan
+CREATE OR REPLACE FUNCTION public.post_upgrade_commissions(p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  referral_id UUID;
+  first_subscription_id UUID;
+BEGIN
+  SELECT id INTO referral_id FROM public.referrals WHERE referred_user_id = p_user_id;
+
+  SELECT id INTO first_subscription_id
+  FROM public.plan_subscriptions
+  WHERE user_id = p_user_id
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF referral_id IS NULL OR first_subscription_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  RETURN public.post_referral_commissions(referral_id, 'upgrade_bonus', first_subscription_id::text);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- When a referral completes: record the referrer's signup bonus that
+-- complete_referral paid and pay the higher levels theirs. Surveys and upgrades
+-- from while the referral was pending or under review are paid now too.
+CREATE OR REPLACE FUNCTION public.post_completion_commissions()
+RETURNS TRIGGER AS $$
+DECLARE
+  response RECORD;
+BEGIN
+  IF NEW.reward_amount > 0 THEN
+    INSERT INTO public.referral_commissions (
+      referral_id, beneficiary_id, referee_id, referee_label, level, kind, source_id, amount, ledger_entry_id
+    )
+    VALUES (
+      NEW.id, NEW.referrer_id, NEW.referred_user_id, NEW.referred_email,
+      1, 'signup_bonus', NEW.id::text, NEW.reward_amount, NEW.referrer_entry_id
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  PERFORM public.post_referral_commissions(NEW.id, 'signup_bonus', NEW.id::text);
+  PERFORM public.post_upgrade_commissions(NEW.referred_user_id);
+
+  FOR response IN
+    SELECT id, reward_amount
+    FROM public.survey_responses
+    WHERE user_id = NEW.referred_user_id
+      AND status = 'credited'
+      AND COALESCE(reward_amount, 0) > 0
+      AND submitted_at <= COALESCE(NEW.signed_up_at, NEW.created_at) + public.referral_earnings_share_period()
+  LOOP
+    PERFORM public.post_referral_commissions(NEW.id, 'survey_share', response.id::text, response.reward_amount);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_referral_completion_commissions ON public.referrals;
+CREATE TRIGGER trigger_referral_completion_commissions
+  AFTER UPDATE OF status ON public.referrals
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION public.post_completion_commissions();
+
+-- Share each credited survey a referred user submits in their first days, once
+-- their referral has completed
+CREATE OR REPLACE FUNCTION public.post_survey_share_commissions()
+RETURNS TRIGGER AS $$
+DECLARE
+  referral public.referrals;
+BEGIN
+  SELECT * INTO referral FROM public.referrals WHERE referred_user_id = NEW.user_id;
+
+  IF FOUND
+    AND COALESCE(NEW.reward_amount, 0) > 0
+    AND NEW.submitted_at <= COALESCE(referral.signed_up_at, referral.created_at) + public.referral_earnings_share_period() THEN
+    PERFORM public.post_referral_commissions(referral.id, 'survey_share', NEW.id::text, NEW.reward_amount);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_referral_survey_share ON public.survey_responses;
+CREATE TRIGGER trigger_referral_survey_share
+  AFTER INSERT OR UPDATE OF status ON public.survey_responses
+  FOR EACH ROW
+  WHEN (NEW.status = 'credited')
+  EXECUTE FUNCTION public.post_survey_share_commissions();
+
+CREATE OR REPLACE FUNCTION public.post_upgrade_commissions_on_subscription()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.post_upgrade_commissions(NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_referral_upgrade_bonus ON public.plan_subscriptions;
+CREATE TRIGGER trigger_referral_upgrade_bonus
+  AFTER INSERT ON public.plan_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_upgrade_commissions_on_subscription();
+
+-- A referrer's earnings are now everything their referrals earned them at any level
+CREATE OR REPLACE FUNCTION public.refresh_referral_stats(p_user_id UUID)
+RETURNS public.user_referral_stats AS $$
+DECLARE
+  stats public.user_referral_stats;
+BEGIN
+  UPDATE public.user_referral_stats
+  SET
+    total_referrals = counts.total,
+    completed_referrals = counts.completed,
+    pending_referrals = counts.pending,
+    total_earned = (
+      SELECT COALESCE(SUM(amount), 0)::INTEGER
+      FROM public.referral_commissions
+      WHERE beneficiary_id = p_user_id
+    ),
+    updated_at = NOW()
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS total,
+      COUNT(*) FILTER (WHERE status = 'completed')::INTEGER AS completed,
+      COUNT(*) FILTER (WHERE status IN ('pending', 'flagged'))::INTEGER AS pending
+    FROM public.referrals
+    WHERE referrer_id = p_user_id
+  ) counts
+  WHERE user_id = p_user_id
+  RETURNING user_referral_stats.* INTO stats;
+
+  RETURN stats;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.sync_commission_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_referral_stats(NEW.beneficiary_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sync_commission_stats ON public.referral_commissions;
+CREATE TRIGGER trigger_sync_commission_stats
+  AFTER INSERT ON public.referral_commissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_commission_stats();
+
+-- Bring existing stats up to date with the backfilled commissions
+SELECT public.refresh_referral_stats(user_id) FROM public.user_referral_stats;
+
+REVOKE EXECUTE ON FUNCTION public.post_referral_commissions(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_upgrade_commissions(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.referral_commissions ENABLE ROW LEVEL SECURITY;
+
+-- Users see what they earned; commissions are only written by the functions above
+CREATE POLICY "Users can view their own commissions" ON public.referral_commissions
+  FOR SELECT USING (auth.uid() = beneficiary_id);
+
+CREATE POLICY "Staff can view all commissions" ON public.referral_commissions
+  FOR SELECT USING (public.has_role(ARRAY['support']));
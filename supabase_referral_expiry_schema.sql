@@ -0,0 +1,117 @@
+-- Referral Expiry Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_referral_fraud_schema.sql
+
+-- How long a referral has to complete (the referred user's first credited survey)
+-- before it expires: "referral.expiryDays" in the plan config, which the app also
+-- uses to show each referral's deadline
+CREATE OR REPLACE FUNCTION public.referral_expiry_period()
+RETURNS INTERVAL AS $$
+  SELECT make_interval(days => public.plan_setting('referral', 'expiryDays')::INTEGER);
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE public.referrals ADD COLUMN IF NOT EXISTS expired_at TIMESTAMP WITH TIME ZONE;
+
+-- Messages for users about things that happened while they were away, e.g. a
+-- referral expiring. reference_id points at the row the message is about.
+CREATE TABLE IF NOT EXISTS public.user_notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('referral_expired')),
+  message TEXT NOT NULL,
+  reference_id TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- One notification per event, however many times the job that sends it runs
+  UNIQUE (user_id, kind, reference_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_notifications_unread ON public.user_notifications(user_id)
+  WHERE read_at IS NULL;
+
+-- Expire pending referrals that haven't completed in time and tell each referrer.
+-- A referral's clock starts when the referred user signs up, or when the invite was
+-- sent if they never did. Flagged referrals are left for an admin to decide.
+-- Everything happens in one transaction: sync_referral_stats recounts each
+-- referrer's stats as their referrals change, so the counters never disagree with
+-- the referrals. Returns how many referrals expired.
+CREATE OR REPLACE FUNCTION public.expire_referrals()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  -- Overlapping runs would only wait on each other's row locks, so skip instead
+  IF NOT pg_try_advisory_xact_lock(hashtext('expire_referrals')) THEN
+    RETURN 0;
+  END IF;
+
+  -- Row locks make this wait for any completion in progress, and the status is
+  -- checked again afterwards, so a referral can't be both paid and expired
+  WITH expired AS (
+    UPDATE public.referrals
+    SET status = 'expired', expired_at = NOW()
+    WHERE status = 'pending'
+      AND COALESCE(signed_up_at, created_at) + public.referral_expiry_period() <= NOW()
+    RETURNING id, referrer_id, referred_email
+  ), notified AS (
+    INSERT INTO public.user_notifications (user_id, kind, message, reference_id)
+    SELECT
+      expired.referrer_id,
+      'referral_expired',
+      'Your referral of ' || expired.referred_email || ' expired because they did not complete a survey within '
+        || extract(day FROM public.referral_expiry_period())::INTEGER || ' days.',
+      expired.id::text
+    FROM expired
+    ON CONFLICT (user_id, kind, reference_id) DO NOTHING
+  )
+  SELECT COUNT(*) INTO expired_count FROM expired;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mark the calling user's notifications as read
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(p_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.user_notifications
+  SET read_at = NOW()
+  WHERE id = ANY(p_ids)
+    AND user_id = auth.uid()
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.expire_referrals() FROM PUBLIC, anon, authenticated;
+
+-- Run the expiry every day at 02:00 UTC. Needs the pg_cron extension
+-- (Database > Extensions in the Supabase dashboard). Without it, run
+-- `npm run referrals:expire` from a scheduler instead.
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'expire-referrals',
+      '0 2 * * *',
+      $$SELECT public.expire_referrals()$$
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron is not installed: run `npm run referrals:expire` daily from a scheduler';
+  END IF;
+END;
+$do$;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.user_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users read their own notifications; they are only written by the functions above
+CREATE POLICY "Users can view their own notifications" ON public.user_notifications
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,422 @@
+-- Referral Fraud Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_referral_attribution_schema.sql
+
+-- Suspicious referrals are flagged instead of paid, and wait for an admin to approve
+-- (back to pending) or reject them
+ALTER TABLE public.referrals DROP CONSTRAINT IF EXISTS referrals_status_check;
+ALTER TABLE public.referrals ADD CONSTRAINT referrals_status_check
+  CHECK (status IN ('pending', 'flagged', 'completed', 'rejected', 'expired'));
+
+ALTER TABLE public.referrals
+  ADD COLUMN IF NOT EXISTS fraud_reasons TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+-- Where each account signed up from. The device fingerprint comes from the signup
+-- form's metadata; the IP address is recorded by the record-signup-signals edge
+-- function, since the database never sees the client's address. The fingerprint is
+-- computed in the browser and can be faked, so it is advisory: a match adds a flag,
+-- but a missing or unfamiliar fingerprint proves nothing.
+CREATE TABLE IF NOT EXISTS public.signup_signals (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_fingerprint TEXT,
+  ip_address INET,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_signup_signals_device_fingerprint ON public.signup_signals(device_fingerprint);
+CREATE INDEX IF NOT EXISTS idx_signup_signals_ip_address ON public.signup_signals(ip_address);
+
+-- Throwaway email providers. Admins add to this list as new ones turn up.
+CREATE TABLE IF NOT EXISTS public.disposable_email_domains (
+  domain TEXT PRIMARY KEY CHECK (domain = lower(domain))
+);
+
+INSERT INTO public.disposable_email_domains (domain) VALUES
+  ('10minutemail.com'),
+  ('dispostable.com'),
+  ('emailondeck.com'),
+  ('fakeinbox.com'),
+  ('getnada.com'),
+  ('guerrillamail.com'),
+  ('maildrop.cc'),
+  ('mailinator.com'),
+  ('mintemail.com'),
+  ('mohmal.com'),
+  ('sharklasers.com'),
+  ('temp-mail.org'),
+  ('tempmail.com'),
+  ('throwawaymail.com'),
+  ('trashmail.com'),
+  ('yopmail.com')
+ON CONFLICT (domain) DO NOTHING;
+
+-- Reduce an email to the mailbox it delivers to: "+tags" are dropped, and so are
+-- the dots Gmail ignores
+CREATE OR REPLACE FUNCTION public.normalize_email(p_email TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  address TEXT := lower(trim(p_email));
+  local_part TEXT := split_part(split_part(address, '@', 1), '+', 1);
+  domain TEXT := split_part(address, '@', 2);
+BEGIN
+  IF domain IN ('gmail.com', 'googlemail.com') THEN
+    local_part := replace(local_part, '.', '');
+    domain := 'gmail.com';
+  END IF;
+
+  RETURN local_part || '@' || domain;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Kenyan numbers in the 2547XXXXXXXX form, however they were typed
+CREATE OR REPLACE FUNCTION public.normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  digits TEXT := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+BEGIN
+  IF digits = '' THEN
+    RETURN NULL;
+  ELSIF digits ~ '^0[17][0-9]{8}$' THEN
+    RETURN '254' || substr(digits, 2);
+  ELSIF digits ~ '^[17][0-9]{8}$' THEN
+    RETURN '254' || digits;
+  END IF;
+
+  RETURN digits;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Reasons a referral looks like the referrer signing themselves up. An empty array
+-- means nothing looked wrong.
+CREATE OR REPLACE FUNCTION public.assess_referral(p_referral_id UUID)
+RETURNS TEXT[] AS $$
+DECLARE
+  -- More signups than this under one referrer inside the window is a burst
+  burst_limit CONSTANT INTEGER := 5;
+  burst_window CONSTANT INTERVAL := INTERVAL '1 hour';
+  referral public.referrals;
+  referrer auth.users;
+  referee auth.users;
+  signals public.signup_signals;
+  reasons TEXT[] := '{}';
+BEGIN
+  SELECT * INTO referral FROM public.referrals WHERE id = p_referral_id;
+  IF NOT FOUND OR referral.referred_user_id IS NULL THEN
+    RETURN reasons;
+  END IF;
+
+  SELECT * INTO referrer FROM auth.users WHERE id = referral.referrer_id;
+  SELECT * INTO referee FROM auth.users WHERE id = referral.referred_user_id;
+
+  IF public.normalize_email(referee.email) = public.normalize_email(referrer.email) THEN
+    reasons := array_append(reasons, 'same_email');
+  END IF;
+
+  IF public.normalize_phone(referee.raw_user_meta_data->>'phone') =
+     public.normalize_phone(referrer.raw_user_meta_data->>'phone') THEN
+    reasons := array_append(reasons, 'same_phone');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.disposable_email_domains
+    WHERE domain = split_part(lower(referee.email), '@', 2)
+  ) THEN
+    reasons := array_append(reasons, 'disposable_email');
+  END IF;
+
+  -- Compare against the referrer and everyone else they've referred
+  SELECT * INTO signals FROM public.signup_signals WHERE user_id = referee.id;
+
+  IF signals.device_fingerprint IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.signup_signals other
+    WHERE other.device_fingerprint = signals.device_fingerprint
+      AND other.user_id <> referee.id
+      AND (
+        other.user_id = referrer.id
+        OR other.user_id IN (SELECT referred_user_id FROM public.referrals WHERE referrer_id = referrer.id)
+      )
+  ) THEN
+    reasons := array_append(reasons, 'shared_device');
+  END IF;
+
+  IF signals.ip_address IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.signup_signals other
+    WHERE other.ip_address = signals.ip_address
+      AND other.user_id <> referee.id
+      AND (
+        other.user_id = referrer.id
+        OR other.user_id IN (SELECT referred_user_id FROM public.referrals WHERE referrer_id = referrer.id)
+      )
+  ) THEN
+    reasons := array_append(reasons, 'shared_ip');
+  END IF;
+
+  IF (
+    SELECT COUNT(*)
+    FROM public.referrals recent
+    WHERE recent.referrer_id = referrer.id
+      AND recent.signed_up_at BETWEEN referral.signed_up_at - burst_window AND referral.signed_up_at
+  ) > burst_limit THEN
+    reasons := array_append(reasons, 'signup_burst');
+  END IF;
+
+  RETURN reasons;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Flag the referral that brought a user in if it looks suspicious. Referrals an
+-- admin has already reviewed are left alone.
+CREATE OR REPLACE FUNCTION public.flag_suspicious_referral(p_user_id UUID)
+RETURNS public.referrals AS $$
+DECLARE
+  referral public.referrals;
+  reasons TEXT[];
+BEGIN
+  SELECT * INTO referral
+  FROM public.referrals
+  WHERE referred_user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR referral.status <> 'pending' OR referral.reviewed_at IS NOT NULL THEN
+    RETURN referral;
+  END IF;
+
+  reasons := public.assess_referral(referral.id);
+  IF cardinality(reasons) > 0 THEN
+    UPDATE public.referrals
+    SET status = 'flagged', fraud_reasons = reasons
+    WHERE id = referral.id
+    RETURNING * INTO referral;
+  END IF;
+
+  RETURN referral;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record where a user signed up from and recheck their referral. Only the
+-- record-signup-signals edge function calls this, with the service role key.
+-- The first values seen are kept.
+CREATE OR REPLACE FUNCTION public.record_signup_signals(
+  p_user_id UUID,
+  p_device_fingerprint TEXT,
+  p_ip_address INET
+)
+RETURNS public.signup_signals AS $$
+DECLARE
+  recorded public.signup_signals;
+BEGIN
+  INSERT INTO public.signup_signals (user_id, device_fingerprint, ip_address)
+  VALUES (p_user_id, NULLIF(trim(p_device_fingerprint), ''), p_ip_address)
+  ON CONFLICT (user_id) DO UPDATE
+  SET
+    device_fingerprint = COALESCE(signup_signals.device_fingerprint, EXCLUDED.device_fingerprint),
+    ip_address = COALESCE(signup_signals.ip_address, EXCLUDED.ip_address),
+    updated_at = NOW()
+  RETURNING * INTO recorded;
+
+  PERFORM public.flag_suspicious_referral(p_user_id);
+
+  RETURN recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Signup now also keeps the device fingerprint and checks the new referral
+CREATE OR REPLACE FUNCTION public.attribute_signup_referral()
+RETURNS TRIGGER AS $$
+DECLARE
+  code TEXT := NULLIF(trim(NEW.raw_user_meta_data->>'referral_code_used'), '');
+  fingerprint TEXT := NULLIF(trim(NEW.raw_user_meta_data->>'device_fingerprint'), '');
+BEGIN
+  -- Only the hex SHA-256 digest the app sends is kept
+  IF fingerprint ~ '^[0-9a-f]{64}$' THEN
+    INSERT INTO public.signup_signals (user_id, device_fingerprint)
+    VALUES (NEW.id, fingerprint)
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+
+  IF code IS NOT NULL THEN
+    BEGIN
+      PERFORM public.attribute_referral(NEW.id, code);
+      PERFORM public.flag_suspicious_referral(NEW.id);
+    EXCEPTION
+      WHEN OTHERS THEN
+        RAISE WARNING 'Referral code % not applied for user %: %', code, NEW.id, SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.claim_referral(p_referral_code TEXT)
+RETURNS public.referrals AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM public.attribute_referral(auth.uid(), p_referral_code);
+  RETURN public.flag_suspicious_referral(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check the referral once more before paying it: the IP address and other
+-- signups under the same code may have arrived since it was attributed
+CREATE OR REPLACE FUNCTION public.complete_referral(p_user_id UUID)
+RETURNS public.referrals AS $$
+DECLARE
+  referral public.referrals;
+  referrer_entry public.earnings_ledger;
+  referee_entry public.earnings_ledger;
+BEGIN
+  referral := public.flag_suspicious_referral(p_user_id);
+
+  IF referral.id IS NULL OR referral.status <> 'pending' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+  VALUES (referral.referrer_id, 'referral_reward', referral.reward_amount, referral.id::text, 'Referral reward')
+  RETURNING * INTO referrer_entry;
+
+  IF referral.referee_reward_amount > 0 THEN
+    INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+    VALUES (p_user_id, 'referral_bonus', referral.referee_reward_amount, referral.id::text, 'Referral welcome bonus')
+    RETURNING * INTO referee_entry;
+  END IF;
+
+  UPDATE public.referrals
+  SET
+    status = 'completed',
+    completed_at = NOW(),
+    referrer_entry_id = referrer_entry.id,
+    referee_entry_id = referee_entry.id
+  WHERE id = referral.id
+  RETURNING * INTO referral;
+
+  RETURN referral;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lock a flagged referral for an admin decision
+CREATE OR REPLACE FUNCTION public.lock_referral_for_review(p_referral_id UUID)
+RETURNS public.referrals AS $$
+DECLARE
+  referral public.referrals;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review referrals';
+  END IF;
+
+  SELECT * INTO referral
+  FROM public.referrals
+  WHERE id = p_referral_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Referral not found';
+  END IF;
+
+  IF referral.status <> 'flagged' THEN
+    RAISE EXCEPTION 'Referral is %', referral.status;
+  END IF;
+
+  RETURN referral;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Clear a flagged referral (admins only). If the referred user has already been
+-- credited for a survey it is paid straight away; otherwise it pays on their first.
+CREATE OR REPLACE FUNCTION public.approve_referral(p_referral_id UUID)
+RETURNS public.referrals AS $$
+DECLARE
+  referral public.referrals;
+BEGIN
+  PERFORM public.lock_referral_for_review(p_referral_id);
+
+  UPDATE public.referrals
+  SET status = 'pending', reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE id = p_referral_id
+  RETURNING * INTO referral;
+
+  IF EXISTS (
+    SELECT 1 FROM public.survey_responses
+    WHERE user_id = referral.referred_user_id AND status = 'credited'
+  ) THEN
+    referral := public.complete_referral(referral.referred_user_id);
+  END IF;
+
+  RETURN referral;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Turn down a flagged referral so it is never paid (admins only)
+CREATE OR REPLACE FUNCTION public.reject_referral(p_referral_id UUID, p_reason TEXT)
+RETURNS public.referrals AS $$
+DECLARE
+  referral public.referrals;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a referral';
+  END IF;
+
+  PERFORM public.lock_referral_for_review(p_referral_id);
+
+  UPDATE public.referrals
+  SET status = 'rejected', review_note = p_reason, reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE id = p_referral_id
+  RETURNING * INTO referral;
+
+  RETURN referral;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Flagged referrals are still waiting on an outcome, so they count as pending
+CREATE OR REPLACE FUNCTION public.refresh_referral_stats(p_user_id UUID)
+RETURNS public.user_referral_stats AS $$
+DECLARE
+  stats public.user_referral_stats;
+BEGIN
+  UPDATE public.user_referral_stats
+  SET
+    total_referrals = counts.total,
+    completed_referrals = counts.completed,
+    pending_referrals = counts.pending,
+    total_earned = counts.earned,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS total,
+      COUNT(*) FILTER (WHERE status = 'completed')::INTEGER AS completed,
+      COUNT(*) FILTER (WHERE status IN ('pending', 'flagged'))::INTEGER AS pending,
+      COALESCE(SUM(reward_amount) FILTER (WHERE status = 'completed'), 0)::INTEGER AS earned
+    FROM public.referrals
+    WHERE referrer_id = p_user_id
+  ) counts
+  WHERE user_id = p_user_id
+  RETURNING user_referral_stats.* INTO stats;
+
+  RETURN stats;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.assess_referral(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.flag_suspicious_referral(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_signup_signals(UUID, TEXT, INET) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_referral_for_review(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.signup_signals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.disposable_email_domains ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view signup signals" ON public.signup_signals
+  FOR SELECT USING (public.has_role(ARRAY['support']));
+
+CREATE POLICY "Staff can view disposable email domains" ON public.disposable_email_domains
+  FOR SELECT USING (public.has_role(ARRAY['support']));
+
+CREATE POLICY "Admins can manage disposable email domains" ON public.disposable_email_domains
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
@@ -0,0 +1,125 @@
+-- Referral Service Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_plan_changes_schema.sql
+
+-- Every referral a user makes carries their own referral code, so the code is not
+-- unique per row
+ALTER TABLE public.referrals DROP CONSTRAINT IF EXISTS referrals_referral_code_key;
+CREATE INDEX IF NOT EXISTS idx_referrals_referral_code ON public.referrals(referral_code);
+
+-- Users who signed up before the stats trigger existed get a row and a code too
+INSERT INTO public.user_referral_stats (user_id, referral_code)
+SELECT
+  users.id,
+  'REF' || upper(substr(md5(random()::text || users.id::text), 1, 8))
+FROM auth.users users
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.user_referral_stats stats WHERE stats.user_id = users.id
+);
+
+-- Recount a referrer's stats from their referrals. The counters used to be bumped
+-- by whoever changed a referral, and drifted whenever one of those writes failed.
+CREATE OR REPLACE FUNCTION public.refresh_referral_stats(p_user_id UUID)
+RETURNS public.user_referral_stats AS $$
+DECLARE
+  stats public.user_referral_stats;
+BEGIN
+  UPDATE public.user_referral_stats
+  SET
+    total_referrals = counts.total,
+    completed_referrals = counts.completed,
+    pending_referrals = counts.pending,
+    total_earned = counts.earned,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS total,
+      COUNT(*) FILTER (WHERE status = 'completed')::INTEGER AS completed,
+      COUNT(*) FILTER (WHERE status = 'pending')::INTEGER AS pending,
+      COALESCE(SUM(reward_amount) FILTER (WHERE status = 'completed'), 0)::INTEGER AS earned
+    FROM public.referrals
+    WHERE referrer_id = p_user_id
+  ) counts
+  WHERE user_id = p_user_id
+  RETURNING user_referral_stats.* INTO stats;
+
+  RETURN stats;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.sync_referral_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_referral_stats(OLD.referrer_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_referral_stats(NEW.referrer_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_referral_completion ON public.referrals;
+DROP FUNCTION IF EXISTS public.handle_referral_completion();
+
+DROP TRIGGER IF EXISTS trigger_sync_referral_stats ON public.referrals;
+CREATE TRIGGER trigger_sync_referral_stats
+  AFTER INSERT OR DELETE OR UPDATE OF status, reward_amount ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_referral_stats();
+
+-- Invite someone by email under the calling user's referral code
+CREATE OR REPLACE FUNCTION public.create_referral(p_email TEXT)
+RETURNS public.referrals AS $$
+DECLARE
+  referral public.referrals;
+  normalized_email TEXT := lower(trim(p_email));
+  code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF normalized_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF normalized_email = (SELECT lower(users.email) FROM auth.users users WHERE users.id = auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot refer yourself';
+  END IF;
+
+  IF NOT public.check_daily_referral_limit(auth.uid()) THEN
+    RAISE EXCEPTION 'You have reached the daily referral limit';
+  END IF;
+
+  SELECT referral_code INTO code
+  FROM public.user_referral_stats
+  WHERE user_id = auth.uid();
+
+  IF code IS NULL THEN
+    RAISE EXCEPTION 'You do not have a referral code yet';
+  END IF;
+
+  INSERT INTO public.referrals (referrer_id, referred_email, referral_code)
+  VALUES (auth.uid(), normalized_email, code)
+  RETURNING * INTO referral;
+
+  RETURN referral;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'You have already referred %', normalized_email;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_referral_stats(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Referrals and stats are only written through the functions above, so users can't
+-- mark their own referrals completed or edit their earnings
+DROP POLICY IF EXISTS "Users can create referrals" ON public.referrals;
+DROP POLICY IF EXISTS "Users can update their own stats" ON public.user_referral_stats;
+
+CREATE POLICY "Staff can view all referrals" ON public.referrals
+  FOR SELECT USING (public.has_role(ARRAY['support']));
+
+CREATE POLICY "Staff can view all referral stats" ON public.user_referral_stats
+  FOR SELECT USING (public.has_role(ARRAY['support']));
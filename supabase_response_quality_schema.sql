@@ -0,0 +1,454 @@
+-- Response Quality Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_survey_responses_schema.sql,
+-- supabase_surveys_schema.sql and supabase_plan_changes_schema.sql
+
+-- Responses that fail a quality check are held for review instead of being credited
+ALTER TABLE public.survey_responses
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'credited'
+    CHECK (status IN ('credited', 'under_review', 'rejected')),
+  ADD COLUMN IF NOT EXISTS quality_flags TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (quality_flags <@ ARRAY['speeding', 'straight_lining', 'failed_attention_check']),
+  ADD COLUMN IF NOT EXISTS reward_amount INTEGER,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_survey_responses_status ON public.survey_responses(status);
+
+-- When each attempt was opened, by the server's clock. The speeding check measures
+-- from here, so a client can't claim to have spent longer on a survey than it did.
+CREATE TABLE IF NOT EXISTS public.survey_attempts (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  survey_id TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_survey_attempts_user_id ON public.survey_attempts(user_id);
+
+-- Record that the calling user opened a survey. Opening a resumed attempt again
+-- keeps its original start.
+CREATE OR REPLACE FUNCTION public.start_survey_attempt(p_attempt_id UUID, p_survey_id TEXT)
+RETURNS public.survey_attempts AS $$
+DECLARE
+  attempt public.survey_attempts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.surveys WHERE id = p_survey_id AND status = 'published') THEN
+    RAISE EXCEPTION 'Unknown survey: %', p_survey_id;
+  END IF;
+
+  INSERT INTO public.survey_attempts (id, user_id, survey_id)
+  VALUES (p_attempt_id, auth.uid(), p_survey_id)
+  ON CONFLICT (id) DO NOTHING;
+
+  SELECT * INTO attempt FROM public.survey_attempts WHERE id = p_attempt_id;
+
+  IF attempt.user_id <> auth.uid() OR attempt.survey_id <> p_survey_id THEN
+    RAISE EXCEPTION 'Attempt id already used';
+  END IF;
+
+  RETURN attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check a survey can be taken again and record the completion, without paying for it
+CREATE OR REPLACE FUNCTION public.record_survey_completion(
+  p_survey_id TEXT,
+  p_cooldown_days INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  completion public.survey_completions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Serialise completions of the same survey so a double submit cannot pay twice
+  PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text || ':' || p_survey_id));
+
+  SELECT * INTO completion
+  FROM public.survey_completions
+  WHERE user_id = auth.uid() AND survey_id = p_survey_id;
+
+  IF FOUND THEN
+    IF p_cooldown_days IS NULL THEN
+      RAISE EXCEPTION 'Survey already completed';
+    END IF;
+
+    IF completion.last_completed_at + make_interval(days => p_cooldown_days) > NOW() THEN
+      RAISE EXCEPTION 'Survey not available again until %',
+        completion.last_completed_at + make_interval(days => p_cooldown_days);
+    END IF;
+  END IF;
+
+  INSERT INTO public.survey_completions (user_id, survey_id)
+  VALUES (auth.uid(), p_survey_id)
+  ON CONFLICT (user_id, survey_id) DO UPDATE
+  SET
+    completion_count = public.survey_completions.completion_count + 1,
+    last_completed_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- post_survey_reward now records the completion through record_survey_completion
+CREATE OR REPLACE FUNCTION public.post_survey_reward(
+  p_survey_id TEXT,
+  p_amount INTEGER,
+  p_cooldown_days INTEGER DEFAULT NULL
+)
+RETURNS public.earnings_ledger AS $$
+DECLARE
+  entry public.earnings_ledger;
+BEGIN
+  -- No survey in the catalogue pays more than this
+  IF p_amount <= 0 OR p_amount > 200 THEN
+    RAISE EXCEPTION 'Invalid survey reward amount: %', p_amount;
+  END IF;
+
+  PERFORM public.record_survey_completion(p_survey_id, p_cooldown_days);
+
+  INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+  VALUES (auth.uid(), 'survey_reward', p_amount, p_survey_id, 'Survey reward')
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- Quality checks on a stored response, run on its answers and when it was started:
+--   speeding: submitted under 30% of the survey's stated duration after the attempt
+--     was opened, scaled to the questions answered. Both times are the server's; the
+--     per-answer times the client reports are only shown to reviewers.
+--   straight_lining: four or more scale answers (attention checks aside) that all
+--     pick the same option position
+--   failed_attention_check: an attention check (a question with a correctAnswer)
+--     answered with anything else
+CREATE OR REPLACE FUNCTION public.assess_response_quality(p_response_id UUID)
+RETURNS TEXT[] AS $$
+DECLARE
+  survey public.surveys;
+  flags TEXT[] := '{}';
+  question_count INTEGER;
+  answer_count INTEGER;
+  elapsed_ms NUMERIC;
+  expected_ms NUMERIC;
+  scale_answers INTEGER;
+  scale_positions INTEGER;
+BEGIN
+  SELECT surveys.* INTO survey
+  FROM public.survey_responses
+  JOIN public.surveys ON surveys.id = survey_responses.survey_id
+  WHERE survey_responses.id = p_response_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Survey response not found';
+  END IF;
+
+  SELECT EXTRACT(EPOCH FROM submitted_at - started_at) * 1000 INTO elapsed_ms
+  FROM public.survey_responses
+  WHERE id = p_response_id;
+
+  SELECT COUNT(*)::INTEGER INTO answer_count
+  FROM public.survey_response_answers
+  WHERE response_id = p_response_id;
+
+  -- Durations are labels such as "8 minutes"; one that can't be read isn't checked
+  question_count := jsonb_array_length(survey.questions);
+  expected_ms := substring(survey.duration FROM '^\s*(\d+(\.\d+)?)')::NUMERIC * 60 * 1000;
+  IF question_count > 0 AND expected_ms > 0 AND answer_count > 0
+    AND elapsed_ms < expected_ms / question_count * answer_count * 0.3 THEN
+    flags := array_append(flags, 'speeding');
+  END IF;
+
+  SELECT COUNT(*)::INTEGER, COUNT(DISTINCT picked)::INTEGER INTO scale_answers, scale_positions
+  FROM (
+    SELECT COALESCE(
+      (
+        SELECT (choice.option_index - 1)::TEXT
+        FROM jsonb_array_elements_text(question->'options') WITH ORDINALITY AS choice(label, option_index)
+        WHERE choice.label = answers.answer #>> '{}'
+        ORDER BY choice.option_index
+        LIMIT 1
+      ),
+      answers.answer #>> '{}'
+    ) AS picked
+    FROM public.survey_response_answers AS answers
+    JOIN jsonb_array_elements(survey.questions) AS question ON question->>'id' = answers.question_id
+    WHERE answers.response_id = p_response_id
+      AND question->>'type' IN ('multiple_choice', 'likert', 'rating', 'nps', 'dropdown')
+      AND jsonb_typeof(answers.answer) = 'string'
+      AND question->>'correctAnswer' IS NULL
+  ) AS scale;
+
+  IF scale_answers >= 4 AND scale_positions = 1 THEN
+    flags := array_append(flags, 'straight_lining');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.survey_response_answers AS answers
+    JOIN jsonb_array_elements(survey.questions) AS question ON question->>'id' = answers.question_id
+    WHERE answers.response_id = p_response_id
+      AND question->>'correctAnswer' IS NOT NULL
+      AND CASE jsonb_typeof(answers.answer)
+        WHEN 'array' THEN NOT answers.answer ? (question->>'correctAnswer')
+        ELSE (answers.answer #>> '{}') IS DISTINCT FROM question->>'correctAnswer'
+      END
+  ) THEN
+    flags := array_append(flags, 'failed_attention_check');
+  END IF;
+
+  RETURN flags;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Replace submit_survey_response so it returns the stored response, which tells the
+-- client whether the reward was credited or held. The reward, cooldown and required
+-- plan come from the surveys table rather than the client (npm run surveys:seed
+-- loads the bundled surveys into it), the plan's tier and daily quota are enforced
+-- here, and the quality checks run on the stored answers. The attempt's start comes
+-- from start_survey_attempt; one that was never started counts as started on submit.
+DROP FUNCTION IF EXISTS public.submit_survey_response(UUID, TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, JSONB);
+DROP FUNCTION IF EXISTS public.submit_survey_response(UUID, TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, JSONB, TEXT[]);
+DROP FUNCTION IF EXISTS public.submit_survey_response(UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, TEXT[]);
+DROP FUNCTION IF EXISTS public.submit_survey_response(UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB);
+
+-- How many surveys a user has submitted on the current Nairobi calendar day. Held
+-- and rejected responses count too, as they do in the app.
+CREATE OR REPLACE FUNCTION public.count_surveys_submitted_today(p_user_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.survey_responses
+  WHERE user_id = p_user_id
+    AND (submitted_at AT TIME ZONE 'Africa/Nairobi')::DATE = (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.submit_survey_response(
+  p_attempt_id UUID,
+  p_survey_id TEXT,
+  p_answers JSONB
+)
+RETURNS public.survey_responses AS $$
+DECLARE
+  survey public.surveys;
+  attempt public.survey_attempts;
+  attempt_started_at TIMESTAMP WITH TIME ZONE;
+  user_plan JSONB;
+  required_plan JSONB;
+  premium_access BOOLEAN;
+  cooldown INTEGER;
+  question_count INTEGER;
+  answered_count INTEGER;
+  reward_due INTEGER;
+  flags TEXT[];
+  entry public.earnings_ledger;
+  response public.survey_responses;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_answers) <> 'array' OR jsonb_array_length(p_answers) = 0 THEN
+    RAISE EXCEPTION 'A survey response needs at least one answer';
+  END IF;
+
+  -- Serialise submissions of the same attempt so a double click is only paid once
+  PERFORM pg_advisory_xact_lock(hashtext(p_attempt_id::text));
+
+  SELECT * INTO response
+  FROM public.survey_responses
+  WHERE attempt_id = p_attempt_id;
+
+  IF FOUND THEN
+    IF response.user_id <> auth.uid() OR response.survey_id <> p_survey_id THEN
+      RAISE EXCEPTION 'Attempt id already used';
+    END IF;
+    RETURN response;
+  END IF;
+
+  SELECT * INTO survey
+  FROM public.surveys
+  WHERE id = p_survey_id AND status = 'published';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown survey: %', p_survey_id;
+  END IF;
+
+  -- Serialise the user's submissions so two at once can't both fit under the quota
+  PERFORM pg_advisory_xact_lock(hashtext('survey_quota:' || auth.uid()::text));
+
+  user_plan := COALESCE(
+    public.config_plan(public.get_effective_plan(auth.uid())),
+    public.config_plan(public.plan_setting('currentPlan', 'default') #>> '{}')
+  );
+
+  -- Surveys for an unknown plan are open to everyone, as in the app. Plans are
+  -- ranked into tiers by price.
+  required_plan := public.config_plan(survey.required_plan);
+  IF required_plan IS NOT NULL AND (user_plan->>'price')::INTEGER < (required_plan->>'price')::INTEGER THEN
+    RAISE EXCEPTION 'This survey needs the % plan', survey.required_plan;
+  END IF;
+
+  IF public.count_surveys_submitted_today(auth.uid()) >= (user_plan->>'dailySurvey')::INTEGER THEN
+    RAISE EXCEPTION 'Daily survey limit reached';
+  END IF;
+
+  -- Users are paid for the share of the survey they answered. Premium questions
+  -- only count on paid plans.
+  premium_access := (user_plan->>'price')::INTEGER > 0;
+  question_count := jsonb_array_length(survey.questions);
+  SELECT COUNT(*)::INTEGER INTO answered_count
+  FROM jsonb_array_elements(survey.questions) AS question
+  WHERE (premium_access OR COALESCE((question->>'isFree')::BOOLEAN, TRUE))
+    AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_answers) AS item
+      WHERE item->>'question_id' = question->>'id'
+    );
+
+  reward_due := CASE
+    WHEN question_count = 0 THEN survey.reward
+    ELSE floor(survey.reward * answered_count / question_count::NUMERIC)::INTEGER
+  END;
+  IF reward_due <= 0 THEN
+    RAISE EXCEPTION 'None of the answers are to questions on your plan';
+  END IF;
+
+  cooldown := CASE WHEN survey.repeatable THEN COALESCE(survey.cooldown_days, 0) END;
+
+  SELECT * INTO attempt FROM public.survey_attempts WHERE id = p_attempt_id;
+  IF FOUND AND (attempt.user_id <> auth.uid() OR attempt.survey_id <> p_survey_id) THEN
+    RAISE EXCEPTION 'Attempt id already used';
+  END IF;
+  attempt_started_at := COALESCE(attempt.started_at, NOW());
+
+  -- Store the response as held first; it is credited below if it passes the checks
+  INSERT INTO public.survey_responses (
+    attempt_id, user_id, survey_id, started_at, status, reward_amount
+  )
+  VALUES (
+    p_attempt_id, auth.uid(), p_survey_id, attempt_started_at, 'under_review', reward_due
+  )
+  RETURNING * INTO response;
+
+  INSERT INTO public.survey_response_answers (response_id, question_id, answer, answered_at, time_spent_ms)
+  SELECT
+    response.id,
+    item->>'question_id',
+    item->'answer',
+    LEAST(COALESCE((item->>'answered_at')::TIMESTAMP WITH TIME ZONE, NOW()), NOW()),
+    GREATEST(COALESCE((item->>'time_spent_ms')::INTEGER, 0), 0)
+  FROM jsonb_array_elements(p_answers) AS item;
+
+  flags := public.assess_response_quality(response.id);
+
+  IF cardinality(flags) > 0 THEN
+    -- Flagged: the survey counts as taken, but nothing is paid until it is reviewed
+    PERFORM public.record_survey_completion(p_survey_id, cooldown);
+
+    UPDATE public.survey_responses
+    SET quality_flags = flags
+    WHERE id = response.id
+    RETURNING * INTO response;
+  ELSE
+    SELECT * INTO entry FROM public.post_survey_reward(p_survey_id, reward_due, cooldown);
+
+    UPDATE public.survey_responses
+    SET status = 'credited', ledger_entry_id = entry.id
+    WHERE id = response.id
+    RETURNING * INTO response;
+  END IF;
+
+  RETURN response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lock a held response for a reviewer's decision
+CREATE OR REPLACE FUNCTION public.lock_response_for_review(p_response_id UUID)
+RETURNS public.survey_responses AS $$
+DECLARE
+  response public.survey_responses;
+BEGIN
+  IF NOT public.has_role(ARRAY['reviewer']) THEN
+    RAISE EXCEPTION 'Only reviewers can review survey responses';
+  END IF;
+
+  SELECT * INTO response
+  FROM public.survey_responses
+  WHERE id = p_response_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Survey response not found';
+  END IF;
+
+  IF response.status <> 'under_review' THEN
+    RAISE EXCEPTION 'Survey response is %', response.status;
+  END IF;
+
+  RETURN response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pay a held response after all (reviewers and admins only). The completion was
+-- recorded when it was submitted, so only the ledger entry is posted here.
+CREATE OR REPLACE FUNCTION public.approve_survey_response(p_response_id UUID)
+RETURNS public.survey_responses AS $$
+DECLARE
+  response public.survey_responses;
+  entry public.earnings_ledger;
+BEGIN
+  response := public.lock_response_for_review(p_response_id);
+
+  INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+  VALUES (response.user_id, 'survey_reward', response.reward_amount, response.survey_id, 'Survey reward')
+  RETURNING * INTO entry;
+
+  UPDATE public.survey_responses
+  SET status = 'credited', ledger_entry_id = entry.id, reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE id = p_response_id
+  RETURNING * INTO response;
+
+  RETURN response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Turn down a held response so its reward is never posted (reviewers and admins only)
+CREATE OR REPLACE FUNCTION public.reject_survey_response(p_response_id UUID, p_reason TEXT)
+RETURNS public.survey_responses AS $$
+DECLARE
+  response public.survey_responses;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a survey response';
+  END IF;
+
+  PERFORM public.lock_response_for_review(p_response_id);
+
+  UPDATE public.survey_responses
+  SET status = 'rejected', review_note = p_reason, reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE id = p_response_id
+  RETURNING * INTO response;
+
+  RETURN response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Completions and rewards are only written through submit_survey_response and the
+-- review functions
+REVOKE EXECUTE ON FUNCTION public.record_survey_completion(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_survey_reward(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assess_response_quality(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_response_for_review(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.survey_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Attempts are only written through start_survey_attempt
+CREATE POLICY "Users can view their own survey attempts" ON public.survey_attempts
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,111 @@
+-- Roles Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_surveys_schema.sql
+
+-- Every user has exactly one role, stored on their profile
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user'
+    CHECK (role IN ('user', 'admin', 'reviewer', 'support'));
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_role ON public.user_profiles(role)
+  WHERE role <> 'user';
+
+-- Role of the signed-in user. SECURITY DEFINER so policies on user_profiles can
+-- call it without recursing into their own RLS checks.
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT role FROM public.user_profiles WHERE id = auth.uid()),
+    'user'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in user has any of the given roles. Admins pass every check.
+CREATE OR REPLACE FUNCTION public.has_role(p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT public.current_user_role() = 'admin' OR public.current_user_role() = ANY(p_roles);
+$$ LANGUAGE sql STABLE;
+
+-- is_admin() used to read app_metadata; it now reads the role on the profile, so
+-- existing policies on surveys pick up the new roles without being recreated
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT public.has_role(ARRAY['admin']);
+$$ LANGUAGE sql STABLE;
+
+-- Users update their own profile (e.g. their plan), so stop them changing their
+-- own role. Only admins, or the SQL editor where there is no signed-in user, can.
+CREATE OR REPLACE FUNCTION public.protect_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role = 'user';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_user_role ON public.user_profiles;
+CREATE TRIGGER trigger_protect_user_role
+  BEFORE INSERT OR UPDATE ON public.user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_user_role();
+
+-- Assign a role to a user (admins only)
+CREATE OR REPLACE FUNCTION public.set_user_role(
+  p_user_id UUID,
+  p_role TEXT
+)
+RETURNS public.user_profiles AS $$
+DECLARE
+  profile public.user_profiles;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+
+  IF p_user_id = auth.uid() AND p_role <> 'admin' THEN
+    RAISE EXCEPTION 'Admins cannot remove their own admin role';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET role = p_role
+  WHERE id = p_user_id
+  RETURNING * INTO profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  RETURN profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security (RLS) policies for staff. These sit alongside the existing
+-- "own rows" policies; Postgres allows a row if any policy allows it.
+
+-- Support agents look up users' profiles, earnings and submissions
+CREATE POLICY "Staff can view user profiles" ON public.user_profiles
+  FOR SELECT USING (public.has_role(ARRAY['support']));
+
+CREATE POLICY "Support can view all ledger entries" ON public.earnings_ledger
+  FOR SELECT USING (public.has_role(ARRAY['support']));
+
+CREATE POLICY "Support can view all completions" ON public.survey_completions
+  FOR SELECT USING (public.has_role(ARRAY['support']));
+
+-- Reviewers check responses held by the quality checks
+CREATE POLICY "Staff can view all responses" ON public.survey_responses
+  FOR SELECT USING (public.has_role(ARRAY['reviewer', 'support']));
+
+CREATE POLICY "Staff can view all answers" ON public.survey_response_answers
+  FOR SELECT USING (public.has_role(ARRAY['reviewer', 'support']));
+
+-- To make the first admin, run this in the SQL editor with their user id:
+-- UPDATE public.user_profiles SET role = 'admin' WHERE id = '<user-id>';
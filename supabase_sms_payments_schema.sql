@@ -0,0 +1,71 @@
+-- SMS Payments Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_plan_payments_schema.sql
+
+-- Till payments confirmed from a pasted M-Pesa SMS are stored alongside STK Push
+-- payments. The customer's number isn't in their own confirmation SMS, so only
+-- STK Push payments need one. The unique mpesa_receipt is what stops one SMS being
+-- used for more than one upgrade.
+ALTER TABLE public.plan_payments ALTER COLUMN phone_number DROP NOT NULL;
+
+ALTER TABLE public.plan_payments DROP CONSTRAINT IF EXISTS plan_payments_method_check;
+ALTER TABLE public.plan_payments
+  ADD CONSTRAINT plan_payments_method_check CHECK (method IN ('stk_push', 'sms'));
+
+ALTER TABLE public.plan_payments DROP CONSTRAINT IF EXISTS plan_payments_stk_phone_check;
+ALTER TABLE public.plan_payments
+  ADD CONSTRAINT plan_payments_stk_phone_check CHECK (method <> 'stk_push' OR phone_number IS NOT NULL);
+
+-- The SMS as pasted, kept so support can review disputed payments
+ALTER TABLE public.plan_payments ADD COLUMN IF NOT EXISTS sms_text TEXT;
+
+-- Plans now only change through settle_plan_payment, so stop users writing their
+-- own plan or payment details. Admins and the service role still can.
+CREATE OR REPLACE FUNCTION public.protect_user_plan()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.current_plan = public.plan_setting('currentPlan', 'default') #>> '{}';
+    NEW.last_payment_amount = NULL;
+    NEW.last_payment_transaction_id = NULL;
+  ELSIF NEW.current_plan IS DISTINCT FROM OLD.current_plan
+    OR NEW.plan_updated_at IS DISTINCT FROM OLD.plan_updated_at
+    OR NEW.last_payment_amount IS DISTINCT FROM OLD.last_payment_amount
+    OR NEW.last_payment_transaction_id IS DISTINCT FROM OLD.last_payment_transaction_id THEN
+    RAISE EXCEPTION 'Plans can only be changed by a verified payment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_user_plan ON public.user_profiles;
+CREATE TRIGGER trigger_protect_user_plan
+  BEFORE INSERT OR UPDATE ON public.user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_user_plan();
+
+-- Payments into the till as reported by Daraja's C2B confirmation callback (the
+-- mpesa-c2b-confirmation function). A pasted SMS only settles once its receipt code
+-- is here, so a made-up SMS can't buy a plan. Written with the service role only.
+CREATE TABLE IF NOT EXISTS public.mpesa_c2b_confirmations (
+  trans_id TEXT PRIMARY KEY,
+  transaction_type TEXT,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  business_short_code TEXT NOT NULL,
+  bill_ref_number TEXT,
+  msisdn TEXT,
+  payer_name TEXT,
+  transacted_at TIMESTAMP WITH TIME ZONE,
+  payload JSONB NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.mpesa_c2b_confirmations ENABLE ROW LEVEL SECURITY;
+
+-- Support checks disputed SMS payments against what M-Pesa reported
+CREATE POLICY "Staff can view M-Pesa confirmations" ON public.mpesa_c2b_confirmations
+  FOR SELECT USING (public.has_role(ARRAY['support']));
@@ -0,0 +1,158 @@
+-- Plan Subscriptions Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_sms_payments_schema.sql
+
+-- Paid plans last for "subscription.periodDays" in the plan config. After that the
+-- user keeps the plan for "subscription.graceDays", then falls back to the free plan
+-- ("currentPlan.default").
+-- The app's renewal reminders read the same settings.
+CREATE OR REPLACE FUNCTION public.plan_period()
+RETURNS INTERVAL AS $$
+  SELECT make_interval(days => public.plan_setting('subscription', 'periodDays')::INTEGER);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.plan_grace_period()
+RETURNS INTERVAL AS $$
+  SELECT make_interval(days => public.plan_setting('subscription', 'graceDays')::INTEGER);
+$$ LANGUAGE sql STABLE;
+
+-- When the user's current paid period ends. NULL for users who have never paid.
+-- It is kept after a plan lapses so the app can remind them to renew.
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS plan_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Plans bought before subscriptions existed run for one period from when they were bought
+UPDATE public.user_profiles
+SET plan_expires_at = COALESCE(plan_updated_at, NOW()) + public.plan_period()
+WHERE plan_expires_at IS NULL
+  AND current_plan IS NOT NULL
+  AND current_plan <> public.plan_setting('currentPlan', 'default') #>> '{}';
+
+-- One row per paid period, so renewals and upgrades keep a history
+CREATE TABLE IF NOT EXISTS public.plan_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_name TEXT NOT NULL,
+  payment_id UUID NOT NULL UNIQUE REFERENCES public.plan_payments(id),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (expires_at > starts_at)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_plan_subscriptions_user_id ON public.plan_subscriptions(user_id, expires_at);
+CREATE INDEX IF NOT EXISTS idx_user_profiles_plan_expires_at ON public.user_profiles(plan_expires_at)
+  WHERE plan_expires_at IS NOT NULL;
+
+-- Start a paid period once a plan payment is confirmed. Paying for the plan you are
+-- already on before the grace period ends is a renewal and carries on from the
+-- current expiry; anything else starts a fresh period now.
+CREATE OR REPLACE FUNCTION public.start_plan_subscription()
+RETURNS TRIGGER AS $$
+DECLARE
+  profile public.user_profiles;
+  period_start TIMESTAMP WITH TIME ZONE := NOW();
+  period_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO profile
+  FROM public.user_profiles
+  WHERE id = NEW.user_id
+  FOR UPDATE;
+
+  IF profile.current_plan = NEW.plan_name
+    AND profile.plan_expires_at IS NOT NULL
+    AND profile.plan_expires_at + public.plan_grace_period() > NOW() THEN
+    period_start := profile.plan_expires_at;
+  END IF;
+  period_end := period_start + public.plan_period();
+
+  INSERT INTO public.plan_subscriptions (user_id, plan_name, payment_id, starts_at, expires_at)
+  VALUES (NEW.user_id, NEW.plan_name, NEW.id, period_start, period_end);
+
+  UPDATE public.user_profiles
+  SET plan_expires_at = period_end
+  WHERE id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_start_plan_subscription ON public.plan_payments;
+CREATE TRIGGER trigger_start_plan_subscription
+  AFTER UPDATE OF status ON public.plan_payments
+  FOR EACH ROW
+  WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid')
+  EXECUTE FUNCTION public.start_plan_subscription();
+
+-- Move users whose grace period is over back to the free plan. Returns how many lapsed.
+CREATE OR REPLACE FUNCTION public.expire_plan_subscriptions()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+  free_plan TEXT := public.plan_setting('currentPlan', 'default') #>> '{}';
+BEGIN
+  UPDATE public.user_profiles
+  SET
+    current_plan = free_plan,
+    plan_updated_at = NOW()
+  WHERE current_plan <> free_plan
+    AND plan_expires_at IS NOT NULL
+    AND plan_expires_at + public.plan_grace_period() <= NOW();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.expire_plan_subscriptions() FROM PUBLIC, anon, authenticated;
+
+-- Run the expiry every hour. Needs the pg_cron extension
+-- (Database > Extensions in the Supabase dashboard). Without it, call
+-- public.expire_plan_subscriptions() hourly from a scheduler instead.
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'expire-plan-subscriptions',
+      '0 * * * *',
+      $$SELECT public.expire_plan_subscriptions()$$
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron is not installed: call public.expire_plan_subscriptions() hourly from a scheduler';
+  END IF;
+END;
+$do$;
+
+-- The expiry is part of the plan, so users can't extend it themselves either
+CREATE OR REPLACE FUNCTION public.protect_user_plan()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.current_plan = public.plan_setting('currentPlan', 'default') #>> '{}';
+    NEW.plan_expires_at = NULL;
+    NEW.last_payment_amount = NULL;
+    NEW.last_payment_transaction_id = NULL;
+  ELSIF NEW.current_plan IS DISTINCT FROM OLD.current_plan
+    OR NEW.plan_updated_at IS DISTINCT FROM OLD.plan_updated_at
+    OR NEW.plan_expires_at IS DISTINCT FROM OLD.plan_expires_at
+    OR NEW.last_payment_amount IS DISTINCT FROM OLD.last_payment_amount
+    OR NEW.last_payment_transaction_id IS DISTINCT FROM OLD.last_payment_transaction_id THEN
+    RAISE EXCEPTION 'Plans can only be changed by a verified payment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.plan_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own plan subscriptions" ON public.plan_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all plan subscriptions" ON public.plan_subscriptions
+  FOR SELECT USING (public.has_role(ARRAY['support']));
@@ -0,0 +1,78 @@
+-- Survey Completions Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_ledger_schema.sql
+
+-- One row per user and survey, updated every time the survey is completed
+CREATE TABLE IF NOT EXISTS public.survey_completions (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  survey_id TEXT NOT NULL,
+  completion_count INTEGER NOT NULL DEFAULT 1,
+  first_completed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_completed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, survey_id)
+);
+
+-- Replace post_survey_reward so that paying a reward also records the completion.
+-- p_cooldown_days is NULL for surveys that can only be taken once. Like the one it
+-- replaces, it is only called from other database functions.
+DROP FUNCTION IF EXISTS public.post_survey_reward(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.post_survey_reward(
+  p_survey_id TEXT,
+  p_amount INTEGER,
+  p_cooldown_days INTEGER DEFAULT NULL
+)
+RETURNS public.earnings_ledger AS $$
+DECLARE
+  entry public.earnings_ledger;
+  completion public.survey_completions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- No survey in the catalogue pays more than this
+  IF p_amount <= 0 OR p_amount > 200 THEN
+    RAISE EXCEPTION 'Invalid survey reward amount: %', p_amount;
+  END IF;
+
+  -- Serialise completions of the same survey so a double submit cannot pay twice
+  PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text || ':' || p_survey_id));
+
+  SELECT * INTO completion
+  FROM public.survey_completions
+  WHERE user_id = auth.uid() AND survey_id = p_survey_id;
+
+  IF FOUND THEN
+    IF p_cooldown_days IS NULL THEN
+      RAISE EXCEPTION 'Survey already completed';
+    END IF;
+
+    IF completion.last_completed_at + make_interval(days => p_cooldown_days) > NOW() THEN
+      RAISE EXCEPTION 'Survey not available again until %',
+        completion.last_completed_at + make_interval(days => p_cooldown_days);
+    END IF;
+  END IF;
+
+  INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+  VALUES (auth.uid(), 'survey_reward', p_amount, p_survey_id, 'Survey reward')
+  RETURNING * INTO entry;
+
+  INSERT INTO public.survey_completions (user_id, survey_id)
+  VALUES (auth.uid(), p_survey_id)
+  ON CONFLICT (user_id, survey_id) DO UPDATE
+  SET
+    completion_count = public.survey_completions.completion_count + 1,
+    last_completed_at = NOW();
+
+  RETURN entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.post_survey_reward(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.survey_completions ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own completions; writes only happen through post_survey_reward
+CREATE POLICY "Users can view their own completions" ON public.survey_completions
+  FOR SELECT USING (auth.uid() = user_id);
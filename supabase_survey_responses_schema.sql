@@ -0,0 +1,111 @@
+-- Survey Responses Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_survey_completions_schema.sql
+
+-- One row per submitted survey attempt. attempt_id is generated by the client when
+-- the survey is opened, so resubmitting the same attempt is recognised as a repeat.
+CREATE TABLE IF NOT EXISTS public.survey_responses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  attempt_id UUID NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  survey_id TEXT NOT NULL,
+  ledger_entry_id UUID REFERENCES public.earnings_ledger(id),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per answered question
+CREATE TABLE IF NOT EXISTS public.survey_response_answers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  response_id UUID NOT NULL REFERENCES public.survey_responses(id) ON DELETE CASCADE,
+  question_id TEXT NOT NULL,
+  answer JSONB NOT NULL,
+  answered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  time_spent_ms INTEGER NOT NULL DEFAULT 0 CHECK (time_spent_ms >= 0),
+  UNIQUE (response_id, question_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_survey_responses_user_id ON public.survey_responses(user_id);
+CREATE INDEX IF NOT EXISTS idx_survey_responses_survey_id ON public.survey_responses(survey_id);
+CREATE INDEX IF NOT EXISTS idx_survey_response_answers_response_id ON public.survey_response_answers(response_id);
+
+-- Store a survey's answers and pay its reward in one transaction.
+-- p_answers is a JSON array of {question_id, answer, answered_at, time_spent_ms}.
+-- Submitting an attempt that was already stored returns the original ledger entry
+-- instead of paying again.
+CREATE OR REPLACE FUNCTION public.submit_survey_response(
+  p_attempt_id UUID,
+  p_survey_id TEXT,
+  p_amount INTEGER,
+  p_cooldown_days INTEGER,
+  p_started_at TIMESTAMP WITH TIME ZONE,
+  p_answers JSONB
+)
+RETURNS public.earnings_ledger AS $$
+DECLARE
+  entry public.earnings_ledger;
+  existing public.survey_responses;
+  new_response_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_answers) <> 'array' OR jsonb_array_length(p_answers) = 0 THEN
+    RAISE EXCEPTION 'A survey response needs at least one answer';
+  END IF;
+
+  -- Serialise submissions of the same attempt so a double click is only paid once
+  PERFORM pg_advisory_xact_lock(hashtext(p_attempt_id::text));
+
+  SELECT * INTO existing
+  FROM public.survey_responses
+  WHERE attempt_id = p_attempt_id;
+
+  IF FOUND THEN
+    IF existing.user_id <> auth.uid() OR existing.survey_id <> p_survey_id THEN
+      RAISE EXCEPTION 'Attempt id already used';
+    END IF;
+
+    SELECT * INTO entry FROM public.earnings_ledger WHERE id = existing.ledger_entry_id;
+    RETURN entry;
+  END IF;
+
+  SELECT * INTO entry FROM public.post_survey_reward(p_survey_id, p_amount, p_cooldown_days);
+
+  INSERT INTO public.survey_responses (attempt_id, user_id, survey_id, ledger_entry_id, started_at)
+  VALUES (p_attempt_id, auth.uid(), p_survey_id, entry.id, LEAST(p_started_at, NOW()))
+  RETURNING id INTO new_response_id;
+
+  INSERT INTO public.survey_response_answers (response_id, question_id, answer, answered_at, time_spent_ms)
+  SELECT
+    new_response_id,
+    item->>'question_id',
+    item->'answer',
+    LEAST(COALESCE((item->>'answered_at')::TIMESTAMP WITH TIME ZONE, NOW()), NOW()),
+    GREATEST(COALESCE((item->>'time_spent_ms')::INTEGER, 0), 0)
+  FROM jsonb_array_elements(p_answers) AS item;
+
+  RETURN entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Rewards are only paid through submit_survey_response, so every payout has a stored response
+REVOKE EXECUTE ON FUNCTION public.post_survey_reward(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.survey_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.survey_response_answers ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own responses; writes only happen through submit_survey_response
+CREATE POLICY "Users can view their own responses" ON public.survey_responses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own answers" ON public.survey_response_answers
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.survey_responses
+      WHERE survey_responses.id = survey_response_answers.response_id
+        AND survey_responses.user_id = auth.uid()
+    )
+  );
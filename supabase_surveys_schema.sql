@@ -0,0 +1,82 @@
+-- Surveys Schema for Supabase
+-- Run these commands in your Supabase SQL editor
+
+-- Admins are marked with {"role": "admin"} in the user's app_metadata, which only
+-- the service role can set
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$ LANGUAGE sql STABLE;
+
+-- Surveys authored in the admin console. Questions are stored as a JSON array in
+-- the same shape as the app's Question type.
+CREATE TABLE IF NOT EXISTS public.surveys (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  reward INTEGER NOT NULL CHECK (reward > 0 AND reward <= 200),
+  duration TEXT NOT NULL,
+  category TEXT NOT NULL,
+  difficulty TEXT NOT NULL DEFAULT 'Easy',
+  required_plan TEXT NOT NULL,
+  repeatable BOOLEAN NOT NULL DEFAULT FALSE,
+  cooldown_days INTEGER CHECK (cooldown_days >= 0),
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(questions) = 'array'),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  published_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_surveys_status ON public.surveys(status);
+
+-- Keep updated_at current and stamp the first publish
+CREATE OR REPLACE FUNCTION public.touch_survey()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  IF NEW.status = 'published' AND NEW.published_at IS NULL THEN
+    NEW.published_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_touch_survey
+  BEFORE INSERT OR UPDATE ON public.surveys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_survey();
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.surveys ENABLE ROW LEVEL SECURITY;
+
+-- Only admins read the table itself, since attention-check questions carry their
+-- correctAnswer. Everyone else reads published_surveys below.
+CREATE POLICY "Admins can view surveys" ON public.surveys
+  FOR SELECT USING (public.is_admin());
+
+-- Only admins can create and edit surveys. Surveys are archived, never deleted,
+-- so responses always point at a survey that exists.
+CREATE POLICY "Admins can create surveys" ON public.surveys
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update surveys" ON public.surveys
+  FOR UPDATE USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- Published surveys as users see them, with the attention-check answers blanked out.
+-- The view runs with its owner's rights, so it is not limited by the policy above.
+CREATE OR REPLACE VIEW public.published_surveys AS
+SELECT
+  id, title, description, reward, duration, category, difficulty, required_plan,
+  repeatable, cooldown_days,
+  (
+    SELECT COALESCE(jsonb_agg(question || '{"correctAnswer": null}'::jsonb ORDER BY position), '[]'::jsonb)
+    FROM jsonb_array_elements(questions) WITH ORDINALITY AS item(question, position)
+  ) AS questions,
+  status, created_by, created_at, updated_at, published_at
+FROM public.surveys
+WHERE status = 'published';
+
+GRANT SELECT ON public.published_surveys TO anon, authenticated;
@@ -0,0 +1,303 @@
+-- Withdrawals Schema for Supabase
+-- Run these commands in your Supabase SQL editor after supabase_ledger_schema.sql and supabase_roles_schema.sql.
+-- request_withdrawal also needs get_effective_plan from supabase_plan_changes_schema.sql.
+
+-- Rejected withdrawals give the money back with a 'withdrawal_refund' credit
+ALTER TABLE public.earnings_ledger DROP CONSTRAINT IF EXISTS earnings_ledger_entry_type_check;
+ALTER TABLE public.earnings_ledger ADD CONSTRAINT earnings_ledger_entry_type_check
+  CHECK (entry_type IN ('survey_reward', 'referral_reward', 'withdrawal', 'withdrawal_refund', 'reversal'));
+
+CREATE OR REPLACE FUNCTION public.get_ledger_balance(user_uuid UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(
+    CASE WHEN entry_type IN ('survey_reward', 'referral_reward', 'withdrawal_refund') THEN amount ELSE -amount END
+  ), 0)::INTEGER
+  FROM public.earnings_ledger
+  WHERE user_id = user_uuid;
+$$ LANGUAGE sql STABLE;
+
+-- One row per withdrawal request. The balance is debited when the request is made,
+-- so pending money can't be spent twice; rejecting a request refunds it.
+--
+--   pending -> approved -> processing -> paid
+--                  |            |
+--                  |            +-> failed -> (retry) processing
+--                  |            +-> timed_out -> paid or failed, once the provider says which
+--                  +-> rejected  (also from pending or failed)
+--
+-- A timed-out payout may still have been sent, so it can be neither retried nor
+-- rejected (refunded) until a real result arrives.
+CREATE TABLE IF NOT EXISTS public.withdrawals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  mpesa_number TEXT NOT NULL CHECK (mpesa_number ~ '^254[17][0-9]{8}$'),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'processing', 'paid', 'rejected', 'failed', 'timed_out')),
+  ledger_entry_id UUID REFERENCES public.earnings_ledger(id),
+  refund_entry_id UUID REFERENCES public.earnings_ledger(id),
+  rejection_reason TEXT,
+  payout_provider TEXT,
+  payout_reference TEXT,
+  payout_message TEXT,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_withdrawals_user_id ON public.withdrawals(user_id);
+CREATE INDEX IF NOT EXISTS idx_withdrawals_status ON public.withdrawals(status, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawals_payout_reference
+  ON public.withdrawals(payout_provider, payout_reference)
+  WHERE payout_reference IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.touch_withdrawal()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_touch_withdrawal
+  BEFORE UPDATE ON public.withdrawals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_withdrawal();
+
+-- Function to request a withdrawal for the calling user and debit their balance.
+-- The amount must reach the minimum withdrawal of the user's plan.
+CREATE OR REPLACE FUNCTION public.request_withdrawal(p_amount INTEGER, p_mpesa_number TEXT)
+RETURNS public.withdrawals AS $$
+DECLARE
+  request public.withdrawals;
+  entry public.earnings_ledger;
+  minimum_withdrawal INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Checked here as well as by the table so the app can show a readable reason
+  IF p_mpesa_number IS NULL OR p_mpesa_number !~ '^254[17][0-9]{8}$' THEN
+    RAISE EXCEPTION 'Enter a valid Safaricom M-Pesa number';
+  END IF;
+
+  minimum_withdrawal := (COALESCE(
+    public.config_plan(public.get_effective_plan(auth.uid())),
+    public.config_plan(public.plan_setting('currentPlan', 'default') #>> '{}')
+  )->>'minimumWithdrawal')::INTEGER;
+
+  IF p_amount < minimum_withdrawal THEN
+    RAISE EXCEPTION 'The minimum withdrawal on your plan is KSh %', minimum_withdrawal;
+  END IF;
+
+  -- Serialise debits per user so two requests cannot both pass the balance check
+  PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text));
+
+  IF p_amount <= 0 OR p_amount > public.get_ledger_balance(auth.uid()) THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  INSERT INTO public.withdrawals (user_id, amount, mpesa_number)
+  VALUES (auth.uid(), p_amount, p_mpesa_number)
+  RETURNING * INTO request;
+
+  INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+  VALUES (auth.uid(), 'withdrawal', p_amount, request.id::text, 'M-Pesa withdrawal')
+  RETURNING * INTO entry;
+
+  UPDATE public.withdrawals
+  SET ledger_entry_id = entry.id
+  WHERE id = request.id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lock a withdrawal for an admin action and check it is in one of the expected states
+CREATE OR REPLACE FUNCTION public.lock_withdrawal_for_review(p_withdrawal_id UUID, p_allowed TEXT[])
+RETURNS public.withdrawals AS $$
+DECLARE
+  request public.withdrawals;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review withdrawals';
+  END IF;
+
+  SELECT * INTO request
+  FROM public.withdrawals
+  WHERE id = p_withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal not found';
+  END IF;
+
+  IF NOT request.status = ANY(p_allowed) THEN
+    RAISE EXCEPTION 'Withdrawal is %', request.status;
+  END IF;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Approve a pending withdrawal so it can be paid out (admins only)
+CREATE OR REPLACE FUNCTION public.approve_withdrawal(p_withdrawal_id UUID)
+RETURNS public.withdrawals AS $$
+DECLARE
+  request public.withdrawals;
+BEGIN
+  PERFORM public.lock_withdrawal_for_review(p_withdrawal_id, ARRAY['pending']);
+
+  UPDATE public.withdrawals
+  SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE id = p_withdrawal_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reject a withdrawal and refund its amount to the user's balance (admins only)
+CREATE OR REPLACE FUNCTION public.reject_withdrawal(p_withdrawal_id UUID, p_reason TEXT)
+RETURNS public.withdrawals AS $$
+DECLARE
+  request public.withdrawals;
+  refund public.earnings_ledger;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a withdrawal';
+  END IF;
+
+  request := public.lock_withdrawal_for_review(p_withdrawal_id, ARRAY['pending', 'approved', 'failed']);
+
+  INSERT INTO public.earnings_ledger (user_id, entry_type, amount, reference_id, description)
+  VALUES (request.user_id, 'withdrawal_refund', request.amount, request.id::text, 'Withdrawal rejected: ' || p_reason)
+  RETURNING * INTO refund;
+
+  UPDATE public.withdrawals
+  SET
+    status = 'rejected',
+    rejection_reason = p_reason,
+    refund_entry_id = refund.id,
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW()
+  WHERE id = p_withdrawal_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a payout made outside the app, e.g. sent by hand from the M-Pesa portal (admins only)
+CREATE OR REPLACE FUNCTION public.mark_withdrawal_paid(p_withdrawal_id UUID, p_receipt TEXT)
+RETURNS public.withdrawals AS $$
+DECLARE
+  request public.withdrawals;
+BEGIN
+  IF COALESCE(trim(p_receipt), '') = '' THEN
+    RAISE EXCEPTION 'An M-Pesa receipt is required';
+  END IF;
+
+  PERFORM public.lock_withdrawal_for_review(p_withdrawal_id, ARRAY['approved', 'processing', 'failed', 'timed_out']);
+
+  UPDATE public.withdrawals
+  SET
+    status = 'paid',
+    payout_provider = 'manual',
+    payout_reference = upper(trim(p_receipt)),
+    payout_message = NULL,
+    reviewed_by = COALESCE(reviewed_by, auth.uid()),
+    reviewed_at = COALESCE(reviewed_at, NOW()),
+    paid_at = NOW()
+  WHERE id = p_withdrawal_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record what the payout provider reported. Only the payout edge functions call
+-- this, with the service role key. 'timed_out' only applies to a payout still in
+-- flight, and a timed-out payout only moves on to 'paid' or 'failed'.
+CREATE OR REPLACE FUNCTION public.record_withdrawal_payout(
+  p_withdrawal_id UUID,
+  p_status TEXT,
+  p_provider TEXT,
+  p_reference TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS public.withdrawals AS $$
+DECLARE
+  request public.withdrawals;
+BEGIN
+  IF p_status NOT IN ('processing', 'paid', 'failed', 'timed_out') THEN
+    RAISE EXCEPTION 'Invalid payout status: %', p_status;
+  END IF;
+
+  SELECT * INTO request
+  FROM public.withdrawals
+  WHERE id = p_withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal not found';
+  END IF;
+
+  -- Provider callbacks can arrive late or twice; never move a settled withdrawal
+  IF request.status IN ('paid', 'rejected') THEN
+    RETURN request;
+  END IF;
+
+  IF request.status = 'pending' THEN
+    RAISE EXCEPTION 'Withdrawal has not been approved';
+  END IF;
+
+  -- A timeout after a real result changes nothing
+  IF p_status = 'timed_out' AND request.status <> 'processing' AND request.status <> 'timed_out' THEN
+    RETURN request;
+  END IF;
+
+  -- Until the provider says how a timed-out payout ended, only its message is updated
+  IF request.status = 'timed_out' AND p_status IN ('processing', 'timed_out') THEN
+    UPDATE public.withdrawals
+    SET payout_message = p_message
+    WHERE id = p_withdrawal_id
+    RETURNING * INTO request;
+
+    RETURN request;
+  END IF;
+
+  UPDATE public.withdrawals
+  SET
+    status = p_status,
+    payout_provider = p_provider,
+    payout_reference = COALESCE(p_reference, payout_reference),
+    payout_message = p_message,
+    paid_at = CASE WHEN p_status = 'paid' THEN NOW() ELSE NULL END
+  WHERE id = p_withdrawal_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Withdrawals now go through request_withdrawal so every debit has a queue entry
+REVOKE EXECUTE ON FUNCTION public.post_withdrawal(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_withdrawal_for_review(UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_withdrawal_payout(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.withdrawals ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own withdrawals and staff can read all of them; writes
+-- only happen through the functions above
+CREATE POLICY "Users can view their own withdrawals" ON public.withdrawals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all withdrawals" ON public.withdrawals
+  FOR SELECT USING (public.has_role(ARRAY['support']));